@@ -1,11 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Header from './components/Header';
 import Hero from './components/Hero';
 import PlanningForm from './components/PlanningForm';
 import NaturalLanguageInput from './components/NaturalLanguageInput';
 import ItineraryResults from './components/ItineraryResults';
 import SavedItineraries from './components/SavedItineraries'; // New component for displaying saved itineraries
-import { TravelPlan } from './types/travel';
+import { ChatMessage, PreferenceDraft, TravelPlan, TravelPreferences } from './types/travel';
+import { GenerationProgress } from './types/provider';
+import { getGenerationErrorDetails } from './services/generationErrors';
+import { getItineraryProvider } from './services/itineraryProvider';
+import { createEmptyPlan } from './services/itineraryUtils';
+import { normalizeTravelPlan } from './services/taxonomy';
 
 // Firebase imports
 import { initializeApp, FirebaseApp } from 'firebase/app';
@@ -14,6 +19,7 @@ import {
   getFirestore, 
   collection, 
   addDoc, 
+  setDoc, 
   onSnapshot, 
   query, 
   where, 
@@ -29,6 +35,18 @@ function App() {
   const [currentItinerary, setCurrentItinerary] = useState<TravelPlan | null>(null);
   // State for all saved itineraries, fetched from Firestore
   const [savedItineraries, setSavedItineraries] = useState<TravelPlan[]>([]);
+  // Day-by-day progress while an itinerary is being generated, null when idle
+  const [generationStatus, setGenerationStatus] = useState<Omit<GenerationProgress, 'plan'> | null>(null);
+  // Last generation failure, shown by the view the request came from
+  const [generationError, setGenerationError] = useState<unknown>(null);
+  // Natural-language conversation, attached to the current itinerary once one exists
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  // Chat request handed to the planning form for review, if any
+  const [planningDraft, setPlanningDraft] = useState<PreferenceDraft | null>(null);
+  // When the current itinerary was served from the response cache, the time it was originally generated
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
+  const generationSourceRef = useRef<'planning' | 'natural-language'>('planning');
 
   // Firebase states
   const [firebaseApp, setFirebaseApp] = useState<FirebaseApp | null>(null);
@@ -101,8 +119,8 @@ function App() {
     const unsubscribe = onSnapshot(q, (snapshot) => {
       const itineraries: TravelPlan[] = [];
       snapshot.forEach((doc) => {
-        // Ensure data matches TravelPlan structure and add Firestore doc ID
-        itineraries.push({ id: doc.id, ...doc.data() } as TravelPlan);
+        // Add the Firestore doc ID and bring plans saved under older category/budget labels up to date
+        itineraries.push(normalizeTravelPlan({ id: doc.id, ...doc.data() } as TravelPlan));
       });
       setSavedItineraries(itineraries);
       console.log("Saved itineraries updated from Firestore:", itineraries);
@@ -116,6 +134,13 @@ function App() {
 
   // --- View Navigation Handlers ---
   const handleStartPlanning = () => {
+    setPlanningDraft(null);
+    setCurrentView('planning');
+  };
+
+  const handleReviewInForm = (draft: PreferenceDraft) => {
+    setGenerationError(null);
+    setPlanningDraft(draft);
     setCurrentView('planning');
   };
 
@@ -123,9 +148,87 @@ function App() {
     setCurrentView('natural-language');
   };
 
-  const handleItineraryGenerated = (itinerary: TravelPlan) => {
-    setCurrentItinerary(itinerary);
+  // Generation runs here rather than in the forms so the results view can render days as they arrive
+  const handleGenerateItinerary = async (
+    preferences: TravelPreferences,
+    source: 'planning' | 'natural-language',
+    bypassCache = false
+  ) => {
+    generationControllerRef.current?.abort();
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    generationSourceRef.current = source;
+
+    setGenerationError(null);
+    if (source === 'planning') {
+      setChatHistory([]); // A form-planned trip starts a fresh conversation
+    }
+    setCurrentItinerary(createEmptyPlan(preferences));
+    setCachedAt(null);
+    setGenerationStatus({ completedDays: 0, totalDays: preferences.duration });
     setCurrentView('results');
+
+    try {
+      const itinerary = await getItineraryProvider().generateItinerary(preferences, {
+        signal: controller.signal,
+        bypassCache,
+        onCacheHit: setCachedAt,
+        onProgress: ({ plan, completedDays, totalDays }) => {
+          if (controller.signal.aborted) return;
+          setCurrentItinerary(plan);
+          setGenerationStatus({ completedDays, totalDays });
+        },
+      });
+      setCurrentItinerary(itinerary);
+      setPlanningDraft(null); // Kept until now so a failed attempt returns to the reviewed draft
+      setChatHistory(prev => [...prev, {
+        type: 'ai',
+        message: itinerary.fallback
+          ? `${itinerary.fallback.failedProviderLabel} is unavailable right now (${itinerary.fallback.reason}), so your ${itinerary.duration}-day ${itinerary.destination} itinerary comes from ${itinerary.fallback.source === 'cache' ? 'an earlier plan' : 'the offline catalog'}. Use "Retry with AI" on the itinerary once it is reachable again.`
+          : `Your ${itinerary.duration}-day ${itinerary.destination} itinerary is ready! Tell me here if you'd like to change anything, e.g. "make day 2 more relaxed".`,
+        timestamp: new Date()
+      }]);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return; // Cancellation is handled by handleCancelGeneration
+      }
+      console.error('Error generating itinerary:', error);
+      setGenerationError(error);
+      const { title, message } = getGenerationErrorDetails(error);
+      setChatHistory(prev => [...prev, {
+        type: 'ai',
+        message: `${title}. ${message} You can rephrase your request below, or try the Detailed Form Planning.`,
+        timestamp: new Date()
+      }]);
+      setCurrentItinerary(null);
+      setCurrentView(source);
+    } finally {
+      if (generationControllerRef.current === controller) {
+        generationControllerRef.current = null;
+        setGenerationStatus(null);
+      }
+    }
+  };
+
+  const handleRegenerateAnyway = () => {
+    if (currentItinerary) {
+      handleGenerateItinerary(currentItinerary.preferences, generationSourceRef.current, true);
+    }
+  };
+
+  const stopGeneration = () => {
+    generationControllerRef.current?.abort();
+    generationControllerRef.current = null;
+    setGenerationStatus(null);
+  };
+
+  const handleCancelGeneration = () => {
+    stopGeneration();
+    // Keep whatever days are already planned; with nothing to show, return to where the request came from
+    if (!currentItinerary || currentItinerary.days.length === 0) {
+      setCurrentItinerary(null);
+      setCurrentView(generationSourceRef.current);
+    }
   };
 
   const handleSaveItinerary = async (itinerary: TravelPlan) => {
@@ -135,10 +238,18 @@ function App() {
       return;
     }
     try {
-      // Remove the local 'id' as Firestore will generate its own document ID
+      // Remove the local 'id': a saved plan is written back to its own document, a new one gets an ID from Firestore
       const { id, ...itineraryToSave } = itinerary; 
+      if (id && savedItineraries.some(saved => saved.id === id)) {
+        await setDoc(doc(db, `artifacts/${appId}/users/${userId}/savedItineraries`, id), itineraryToSave);
+        console.log("Itinerary updated:", id);
+        alert("Saved itinerary updated!");
+        return;
+      }
       const docRef = await addDoc(collection(db, `artifacts/${appId}/users/${userId}/savedItineraries`), itineraryToSave);
       console.log("Itinerary saved with ID:", docRef.id);
+      // Saving the plan again updates the same document
+      setCurrentItinerary(current => (current && current.id === id ? { ...current, id: docRef.id } : current));
       alert("Itinerary saved successfully!");
     } catch (error) {
       console.error("Error saving itinerary to Firestore:", error);
@@ -163,11 +274,16 @@ function App() {
   };
 
   const handleBackToHome = () => {
+    stopGeneration();
+    setGenerationError(null);
     setCurrentView('home');
     setCurrentItinerary(null); // Clear current itinerary when going home
+    setChatHistory([]);
+    setPlanningDraft(null);
   };
 
   const handleBackToPlanning = () => {
+    stopGeneration();
     setCurrentView('planning');
   };
 
@@ -175,6 +291,20 @@ function App() {
     setCurrentView('natural-language');
   };
 
+  const handleRefineInChat = () => {
+    setCurrentView('natural-language');
+  };
+
+  const handleViewCurrentItinerary = () => {
+    setCurrentView('results');
+  };
+
+  const handleStartNewTrip = () => {
+    stopGeneration();
+    setCurrentItinerary(null);
+    setChatHistory([]);
+  };
+
   const handleViewSavedItineraries = () => {
     setCurrentView('saved-itineraries');
   };
@@ -209,7 +339,9 @@ function App() {
       
       {currentView === 'planning' && (
         <PlanningForm 
-          onItineraryGenerated={handleItineraryGenerated}
+          onGenerateItinerary={(preferences) => handleGenerateItinerary(preferences, 'planning')}
+          generationError={generationError}
+          draft={planningDraft}
           onBackToHome={handleBackToHome}
           onSwitchToNaturalLanguage={handleSwitchToNaturalLanguage}
         />
@@ -217,7 +349,15 @@ function App() {
       
       {currentView === 'natural-language' && (
         <NaturalLanguageInput 
-          onItineraryGenerated={handleItineraryGenerated}
+          // Only a finished (or stopped) plan with days can be refined
+          itinerary={!generationStatus && currentItinerary && currentItinerary.days.length > 0 ? currentItinerary : null}
+          chatHistory={chatHistory}
+          onChatHistoryChange={setChatHistory}
+          onGenerateItinerary={(preferences) => handleGenerateItinerary(preferences, 'natural-language')}
+          onReviewInForm={handleReviewInForm}
+          onItineraryUpdated={setCurrentItinerary}
+          onViewItinerary={handleViewCurrentItinerary}
+          onStartNewTrip={handleStartNewTrip}
           onBackToHome={handleBackToHome}
         />
       )}
@@ -225,6 +365,14 @@ function App() {
       {currentView === 'results' && currentItinerary && (
         <ItineraryResults 
           itinerary={currentItinerary}
+          generationStatus={generationStatus}
+          cachedAt={cachedAt}
+          onRegenerateAnyway={handleRegenerateAnyway}
+          onRetryWithProvider={handleRegenerateAnyway}
+          onCancelGeneration={handleCancelGeneration}
+          onItineraryUpdated={setCurrentItinerary}
+          isSaved={savedItineraries.some(saved => saved.id === currentItinerary.id)}
+          onRefineInChat={handleRefineInChat}
           onSaveItinerary={handleSaveItinerary}
           onBackToPlanning={handleBackToPlanning}
           onBackToHome={handleBackToHome}
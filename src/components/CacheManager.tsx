@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2, X, Loader } from 'lucide-react';
+import { CacheEntry, CacheKind, cacheService } from '../services/cacheService';
+
+interface CacheManagerProps {
+  onClose: () => void;
+}
+
+const kindStyles: Record<CacheKind, { label: string; className: string }> = {
+  itinerary: { label: 'Itinerary', className: 'bg-sky-100 text-sky-700' },
+  forecast: { label: 'Forecast', className: 'bg-amber-100 text-amber-700' },
+  place: { label: 'Place', className: 'bg-emerald-100 text-emerald-700' },
+};
+
+// e.g. "5 minutes", "3 hours", "2 days"
+const formatDuration = (milliseconds: number): string => {
+  const minutes = Math.max(1, Math.round(milliseconds / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  return `${Math.round(hours / 24)} days`;
+};
+
+const CacheManager: React.FC<CacheManagerProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[] | null>(null);
+
+  const loadEntries = async () => {
+    setEntries(await cacheService.list());
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const handleRemove = async (key: string) => {
+    await cacheService.remove(key);
+    await loadEntries();
+  };
+
+  const handleClearAll = async () => {
+    if (!window.confirm('Remove every cached itinerary, forecast and place?')) return;
+    await cacheService.clear();
+    await loadEntries();
+  };
+
+  const now = Date.now();
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="cache-manager-title">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-2">
+            <Database className="h-5 w-5 text-sky-600" />
+            <h2 id="cache-manager-title" className="text-xl font-bold text-slate-800">Response Cache</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-500 hover:text-slate-800 rounded-lg transition-colors duration-200"
+            aria-label="Close cache manager"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p className="px-6 pt-4 text-sm text-slate-600">
+          Identical requests to the AI are answered from this browser cache. Use "Regenerate anyway" on an itinerary to skip it.
+        </p>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          {entries === null ? (
+            <div className="flex justify-center py-8">
+              <Loader className="h-6 w-6 text-sky-500 animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-slate-500 py-8">The cache is empty.</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.key} className="flex items-center justify-between gap-4 p-3 border border-slate-200 rounded-xl">
+                <div className="min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${kindStyles[entry.kind].className}`}>
+                      {kindStyles[entry.kind].label}
+                    </span>
+                    <span className="font-medium text-slate-800 truncate">{entry.label}</span>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {entry.providerId} · cached {formatDuration(now - entry.createdAt)} ago · expires in {formatDuration(entry.expiresAt - now)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(entry.key)}
+                  className="p-2 text-slate-400 hover:text-red-500 rounded-lg transition-colors duration-200 flex-shrink-0"
+                  aria-label={`Remove cached ${entry.label}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-200 flex justify-end">
+          <button
+            onClick={handleClearAll}
+            disabled={!entries || entries.length === 0}
+            className="flex items-center space-x-2 bg-red-500 hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors duration-200"
+            aria-label="Clear the whole cache"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Clear all</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheManager;
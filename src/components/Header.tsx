@@ -1,5 +1,8 @@
-import React from 'react';
-import { Plane, Home, Bookmark } from 'lucide-react';
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Plane, Home, Bookmark, Database } from 'lucide-react';
+import ProviderSelector from './ProviderSelector';
+import CacheManager from './CacheManager';
 
 interface HeaderProps {
   onBackToHome: () => void;
@@ -8,6 +11,8 @@ interface HeaderProps {
 }
 
 const Header: React.FC<HeaderProps> = ({ onBackToHome, currentView, savedItinerariesCount }) => {
+  const [isCacheManagerOpen, setIsCacheManagerOpen] = useState(false);
+
   return (
     <header className="bg-white/80 backdrop-blur-md border-b border-slate-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -46,6 +51,21 @@ const Header: React.FC<HeaderProps> = ({ onBackToHome, currentView, savedItinera
                 </li>
               )}
               
+              <li>
+                <ProviderSelector />
+              </li>
+
+              <li>
+                <button
+                  onClick={() => setIsCacheManagerOpen(true)}
+                  className="flex items-center space-x-1 px-3 py-2 text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-all duration-200"
+                  aria-label="Inspect and clear the response cache"
+                >
+                  <Database className="h-4 w-4" />
+                  <span className="text-sm font-medium">Cache</span>
+                </button>
+              </li>
+
               <li>
                 {/* For saved itineraries, consider if this should be a button that opens a modal/page,
                     or just a display. If it's just a display, a div is fine.
@@ -64,6 +84,8 @@ const Header: React.FC<HeaderProps> = ({ onBackToHome, currentView, savedItinera
           </nav>
         </div>
       </div>
+      {/* Portalled out because the header's backdrop blur would otherwise contain the fixed overlay */}
+      {isCacheManagerOpen && createPortal(<CacheManager onClose={() => setIsCacheManagerOpen(false)} />, document.body)}
     </header>
   );
 };
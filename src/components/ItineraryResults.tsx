@@ -1,10 +1,39 @@
-import React from 'react';
-import { ArrowLeft, Save, Calendar, MapPin, Clock, DollarSign, Star, Download, Share2, Cloud, Thermometer, Sun, Moon } from 'lucide-react'; // Added Sun, Moon for time slots
-import { TravelPlan, Activity } from '../types/travel';
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Save, Calendar, MapPin, Clock, DollarSign, Star, Download, Share2, Cloud, Thermometer, Sun, Moon, Loader, XCircle, AlertTriangle, RefreshCw, MessageCircle, Database, WifiOff, Footprints, TrainFront, Bus, Plane, Accessibility, Utensils, Gauge, Armchair, CloudRain } from 'lucide-react'; // Added Sun, Moon for time slots
+import { TravelPlan, Activity, DayPlan, Meal, WeatherChange } from '../types/travel';
+import { GenerationProgress } from '../types/provider';
 import { pdfService } from '../services/pdfService';
+import { getItineraryProvider } from '../services/itineraryProvider';
+import { describeRefinementError } from '../services/generationErrors';
+import { ACCESSIBILITY_NEEDS, AGE_BANDS, CATEGORY_STYLES, DAY_INTENSITIES, MEAL_TYPES } from '../services/taxonomy';
+import { describeAccessibility, hasAccessibilityNeeds } from '../services/accessibility';
+import { describeDietary } from '../services/dietary';
+import { describePace } from '../services/pacing';
+import { formatActivityTimes } from '../services/scheduler';
+import { describeTravelLeg } from '../services/routing';
+import { describeTransfer } from '../services/tripLegs';
+import { fitPlanToBudget, formatMoney, formatUsdIn, isOverBudget } from '../services/budgetCap';
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, getCostBreakdown } from '../services/costModel';
+import { replaceActivity, replaceDay } from '../services/itineraryUtils';
+import { describeAgePricing, describeParty } from '../services/party';
+import { applyWeatherChanges, proposeWeatherChanges, withLegForecasts } from '../services/weatherRebalance';
 
 interface ItineraryResultsProps {
   itinerary: TravelPlan;
+  // Present while days are still being generated
+  generationStatus?: Omit<GenerationProgress, 'plan'> | null;
+  onCancelGeneration?: () => void;
+  // Set when the itinerary came from the response cache, to the time it was generated
+  cachedAt?: number | null;
+  onRegenerateAnyway?: () => void;
+  // Generates the plan again with the selected provider, offered when it came from a fallback
+  onRetryWithProvider?: () => void;
+  // Receives the plan after a day or activity has been regenerated
+  onItineraryUpdated: (itinerary: TravelPlan) => void;
+  // Whether the plan is one of the saved itineraries, so weather changes are saved back to it
+  isSaved?: boolean;
+  // Opens the chat attached to this itinerary for follow-up edits
+  onRefineInChat: () => void;
   onSaveItinerary: (itinerary: TravelPlan) => void;
   onBackToPlanning: () => void;
   onBackToHome: () => void;
@@ -12,10 +41,102 @@ interface ItineraryResultsProps {
 
 const ItineraryResults: React.FC<ItineraryResultsProps> = ({
   itinerary,
+  generationStatus,
+  onCancelGeneration,
+  cachedAt,
+  onRegenerateAnyway,
+  onRetryWithProvider,
+  onItineraryUpdated,
+  isSaved = false,
+  onRefineInChat,
   onSaveItinerary,
   onBackToPlanning,
   onBackToHome
 }) => {
+  const isGenerating = !!generationStatus;
+  const pendingDays = isGenerating ? Math.max(generationStatus.totalDays - itinerary.days.length, 0) : 0;
+  const isIncomplete = !isGenerating && itinerary.days.length < itinerary.duration;
+  const costs = getCostBreakdown(itinerary);
+  // Identifies the day or activity currently being regenerated, e.g. "day-2" or "activity-<id>"
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
+  // Changes proposed by the last weather re-check, and which of them the traveller wants applied
+  const [weatherReview, setWeatherReview] = useState<{ changes: WeatherChange[]; selected: boolean[]; hasWeather: boolean } | null>(null);
+  const [isCheckingWeather, setIsCheckingWeather] = useState(false);
+  // Retrying a fallback plan only makes sense once the browser is back online
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+
+  useEffect(() => {
+    const updateOnlineStatus = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnlineStatus);
+    window.addEventListener('offline', updateOnlineStatus);
+    return () => {
+      window.removeEventListener('online', updateOnlineStatus);
+      window.removeEventListener('offline', updateOnlineStatus);
+    };
+  }, []);
+
+  // Regenerated content can cost more than what it replaces, so the plan is fitted to the budget cap again
+  const handleRegenerateDay = async (dayNumber: number) => {
+    setRegeneratingKey(`day-${dayNumber}`);
+    try {
+      const day = await getItineraryProvider().regenerateDay(itinerary, dayNumber);
+      onItineraryUpdated(fitPlanToBudget(replaceDay(itinerary, day)));
+    } catch (error) {
+      console.error('Error regenerating day:', error);
+      alert(describeRefinementError(error));
+    } finally {
+      setRegeneratingKey(null);
+    }
+  };
+
+  const handleRegenerateActivity = async (dayNumber: number, activityId: string) => {
+    setRegeneratingKey(`activity-${activityId}`);
+    try {
+      const activity = await getItineraryProvider().regenerateActivity(itinerary, dayNumber, activityId);
+      onItineraryUpdated(fitPlanToBudget(replaceActivity(itinerary, dayNumber, activityId, activity)));
+    } catch (error) {
+      console.error('Error regenerating activity:', error);
+      alert(describeRefinementError(error));
+    } finally {
+      setRegeneratingKey(null);
+    }
+  };
+
+  // Refreshes each city's forecast for dated trips, then lists the changes it calls for without applying them
+  const handleRecheckWeather = async () => {
+    setIsCheckingWeather(true);
+    try {
+      const provider = getItineraryProvider();
+      const updated = await withLegForecasts(itinerary, (destination, startDate, duration) => provider.getWeatherForecast(destination, startDate, duration));
+      if (updated !== itinerary) {
+        onItineraryUpdated(updated);
+      }
+      const changes = proposeWeatherChanges(updated);
+      setWeatherReview({ changes, selected: changes.map(() => true), hasWeather: updated.days.some(day => day.weather) });
+    } catch (error) {
+      console.error('Error re-checking weather:', error);
+      alert(describeRefinementError(error));
+    } finally {
+      setIsCheckingWeather(false);
+    }
+  };
+
+  // The plan may have been edited since the re-check, so a change can name an activity that is gone
+  const handleApplyWeatherChanges = () => {
+    if (!weatherReview) return;
+    try {
+      const { plan } = applyWeatherChanges(itinerary, weatherReview.changes.filter((_, index) => weatherReview.selected[index]));
+      onItineraryUpdated(plan);
+      if (isSaved) {
+        onSaveItinerary(plan);
+      }
+      setWeatherReview(null);
+    } catch (error) {
+      console.error('Error applying weather changes:', error);
+      alert(describeRefinementError(error));
+    }
+  };
+
   const handlePDFExport = async () => {
     try {
       await pdfService.exportItineraryToPDF(itinerary);
@@ -53,24 +174,74 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
     }
   };
 
-  const getCategoryColor = (category: Activity['category']) => {
-    const colors = {
-      culture: 'bg-purple-100 text-purple-700 border-purple-200',
-      adventure: 'bg-green-100 text-green-700 border-green-200',
-      dining: 'bg-orange-100 text-orange-700 border-orange-200',
-      relaxation: 'bg-blue-100 text-blue-700 border-blue-200',
-      sightseeing: 'bg-pink-100 text-pink-700 border-pink-200',
-      shopping: 'bg-indigo-100 text-indigo-700 border-indigo-200',
-      nature: 'bg-emerald-100 text-emerald-700 border-emerald-200',
-      // Add default if 'transport' or other categories are possible from AI
-      transport: 'bg-gray-100 text-gray-700 border-gray-200',
-      // Ensure a robust fallback if category is unexpected
-      default: 'bg-gray-100 text-gray-700 border-gray-200' 
-    };
-    // Use type assertion to ensure category is a key of colors, or fallback to default
-    return colors[category as keyof typeof colors] || colors.default;
+  // Plans are normalized on load, but fall back to neutral styling for anything unexpected
+  const getCategoryStyle = (category: Activity['category']) =>
+    CATEGORY_STYLES[category] ?? { label: category, className: 'bg-gray-100 text-gray-700 border-gray-200' };
+
+  // One badge per need the traveller asked for: met, not met, or not known either way
+  const renderAccessibilityBadges = (activity: Activity) => {
+    const accessibility = itinerary.preferences.accessibility;
+    if (!hasAccessibilityNeeds(accessibility)) return null;
+    return (
+      <>
+        {accessibility.needs.map(need => {
+          const met = activity.accessibility?.[need];
+          const { label } = ACCESSIBILITY_NEEDS[need];
+          return (
+            <span
+              key={need}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                met === true ? 'bg-emerald-100 text-emerald-700' : met === false ? 'bg-rose-100 text-rose-700' : 'bg-slate-100 text-slate-500'
+              }`}
+            >
+              {met === true ? `✓ ${label}` : met === false ? `No ${label.toLowerCase()}` : `${label}: unknown`}
+            </span>
+          );
+        })}
+        {activity.accessibility?.walkingKm !== undefined && (
+          <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs font-medium">Walking {activity.accessibility.walkingKm} km</span>
+        )}
+      </>
+    );
   };
 
+  // Meals not covered by a dining activity that start between the previous activity and this one;
+  // an index past the last activity gives the rest of the day
+  const getMealsBefore = (day: DayPlan, index: number): Meal[] => {
+    const from = index > 0 ? day.activities[index - 1].startTime ?? '' : '';
+    const to = day.activities[index]?.startTime;
+    return (day.meals ?? []).filter(meal =>
+      !meal.activityId && (meal.startTime ?? '') >= from && (to === undefined || (meal.startTime ?? '') < to)
+    );
+  };
+
+  const renderMeal = (day: DayPlan, meal: Meal) => (
+    <div key={`day-${day.day}-${meal.meal}`} className="flex flex-wrap items-center gap-x-3 gap-y-1 pl-4 py-2 text-sm text-slate-600 border-l-4 border-rose-200">
+      <Utensils className="h-4 w-4 text-rose-500" />
+      <span className="font-medium text-slate-700">
+        {meal.startTime ? `${meal.startTime} ` : ''}{MEAL_TYPES[meal.meal].label}
+      </span>
+      <span>
+        {meal.suggestion
+          ? `${meal.suggestion.name}, ${meal.suggestion.location}${meal.suggestion.cuisine ? ` (${meal.suggestion.cuisine})` : ''}`
+          : 'Find a place near your activities'}
+      </span>
+      <span className="text-slate-500">~${meal.estimatedCost} per adult</span>
+      {meal.suggestion?.dietOptions && meal.suggestion.dietOptions.length > 0 && (
+        <span className="px-2 py-0.5 rounded-full bg-rose-50 text-rose-700 text-xs font-medium">{describeDietary(meal.suggestion.dietOptions)}</span>
+      )}
+    </div>
+  );
+
+  const renderRest = (day: DayPlan, afterActivity: Activity) =>
+    day.restBlocks?.filter(rest => rest.afterActivityId === afterActivity.id).map(rest => (
+      <div key={`day-${day.day}-rest-${rest.afterActivityId}`} className="flex items-center space-x-2 pl-4 py-2 text-sm text-slate-600 border-l-4 border-teal-200">
+        <Armchair className="h-4 w-4 text-teal-500" />
+        <span className="font-medium text-slate-700">{rest.startTime}–{rest.endTime}</span>
+        <span>Rest after {afterActivity.name}</span>
+      </div>
+    ));
+
   const getTimeSlotIcon = (timeSlot: Activity['timeSlot']) => {
     switch (timeSlot) {
       case 'morning':
@@ -78,8 +249,6 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
       case 'afternoon':
         return <Sun className="h-4 w-4" />; // Could be a slightly different sun icon
       case 'evening':
-        return <Cloud className="h-4 w-4" />; // Or a sunset icon if available
-      case 'night':
         return <Moon className="h-4 w-4" />;
       default:
         return <Clock className="h-4 w-4" />; // Default clock icon
@@ -102,9 +271,30 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
             </button>
             
             <div className="flex flex-wrap gap-2">
+              <button
+                onClick={onRefineInChat}
+                disabled={isGenerating}
+                className="flex items-center space-x-2 bg-sky-500 hover:bg-sky-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-all duration-200 hover:scale-105"
+                aria-label="Refine this itinerary in the chat"
+              >
+                <MessageCircle className="h-4 w-4" />
+                <span>Refine in Chat</span>
+              </button>
+
+              <button
+                onClick={handleRecheckWeather}
+                disabled={isGenerating || isCheckingWeather || itinerary.days.length === 0}
+                className="flex items-center space-x-2 bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-all duration-200 hover:scale-105"
+                aria-label="Re-check the weather and review suggested changes"
+              >
+                <CloudRain className={`h-4 w-4 ${isCheckingWeather ? 'animate-pulse' : ''}`} />
+                <span>{isCheckingWeather ? 'Checking...' : 'Re-check Weather'}</span>
+              </button>
+
               <button
                 onClick={() => onSaveItinerary(itinerary)}
-                className="flex items-center space-x-2 bg-emerald-500 hover:bg-emerald-600 text-white px-4 py-2 rounded-lg transition-all duration-200 hover:scale-105"
+                disabled={isGenerating}
+                className="flex items-center space-x-2 bg-emerald-500 hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-all duration-200 hover:scale-105"
                 aria-label="Save this itinerary" // Added for accessibility
               >
                 <Save className="h-4 w-4" />
@@ -113,7 +303,8 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
               
               <button
                 onClick={handlePDFExport}
-                className="flex items-center space-x-2 bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg transition-all duration-200 hover:scale-105"
+                disabled={isGenerating}
+                className="flex items-center space-x-2 bg-red-500 hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-all duration-200 hover:scale-105"
                 aria-label="Export itinerary as PDF" // Added for accessibility
               >
                 <Download className="h-4 w-4" />
@@ -122,7 +313,8 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
               
               <button
                 onClick={handleShare}
-                className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-all duration-200 hover:scale-105"
+                disabled={isGenerating}
+                className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-all duration-200 hover:scale-105"
                 aria-label="Share this itinerary" // Added for accessibility
               >
                 <Share2 className="h-4 w-4" />
@@ -141,6 +333,183 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
           </div>
         </div>
 
+        {/* Generation Progress */}
+        {generationStatus && (
+          <div className="bg-white rounded-2xl shadow-xl p-6 mb-8" role="status" aria-live="polite">
+            <div className="flex items-center justify-between gap-4 mb-3">
+              <div className="flex items-center space-x-2 text-slate-700">
+                <Loader className="h-5 w-5 animate-spin text-sky-600" />
+                <span className="font-semibold">
+                  {generationStatus.completedDays === 0
+                    ? 'Preparing your trip overview...'
+                    : `Planned ${generationStatus.completedDays} of ${generationStatus.totalDays} days...`}
+                </span>
+              </div>
+              {onCancelGeneration && (
+                <button
+                  onClick={onCancelGeneration}
+                  className="flex items-center space-x-1 text-red-600 hover:text-red-700 text-sm font-medium transition-colors duration-200"
+                  aria-label="Cancel itinerary generation"
+                >
+                  <XCircle className="h-4 w-4" />
+                  <span>Cancel</span>
+                </button>
+              )}
+            </div>
+            <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-sky-500 to-blue-600 transition-all duration-500"
+                style={{ width: `${(generationStatus.completedDays / Math.max(generationStatus.totalDays, 1)) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Cancelled before every day was planned */}
+        {isIncomplete && (
+          <div className="mb-8 p-4 bg-amber-50 border border-amber-200 rounded-xl flex items-start space-x-3">
+            <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <p className="text-amber-800 text-sm">
+              This itinerary is incomplete: {itinerary.days.length} of {itinerary.duration} days were planned before generation was cancelled.
+            </p>
+          </div>
+        )}
+
+        {/* Served from the response cache instead of a fresh generation */}
+        {cachedAt && !isGenerating && (
+          <div className="mb-8 p-4 bg-sky-50 border border-sky-200 rounded-xl flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-start space-x-3">
+              <Database className="h-5 w-5 text-sky-600 flex-shrink-0 mt-0.5" />
+              <p className="text-sky-800 text-sm">
+                Loaded from cache: this itinerary was generated on {new Date(cachedAt).toLocaleString()} for the same preferences.
+              </p>
+            </div>
+            {onRegenerateAnyway && (
+              <button
+                onClick={onRegenerateAnyway}
+                className="flex items-center space-x-2 bg-sky-500 hover:bg-sky-600 text-white text-sm px-4 py-2 rounded-lg transition-colors duration-200 flex-shrink-0"
+                aria-label="Generate a fresh itinerary instead of using the cached one"
+              >
+                <RefreshCw className="h-4 w-4" />
+                <span>Regenerate anyway</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Changes made to fit the budget cap */}
+        {itinerary.budgetAdjustments && itinerary.budgetAdjustments.length > 0 && !isGenerating && (
+          <div className="mb-8 p-4 bg-green-50 border border-green-200 rounded-xl flex items-start space-x-3" role="status">
+            <DollarSign className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-green-800">
+              <p className="font-semibold mb-1">Adjusted to fit your budget</p>
+              <ul className="space-y-1">
+                {itinerary.budgetAdjustments.map((adjustment, index) => (
+                  <li key={`budget-adjustment-${index}`}>• {adjustment}</li>
+                ))}
+              </ul>
+              {isOverBudget(itinerary) && (
+                <p className="mt-1 text-red-700">Even so, the trip still costs more than your cap.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Outdoor activities moved off bad-weather days after generation */}
+        {itinerary.weatherAdjustments && itinerary.weatherAdjustments.length > 0 && !isGenerating && (
+          <div className="mb-8 p-4 bg-indigo-50 border border-indigo-200 rounded-xl flex items-start space-x-3" role="status">
+            <CloudRain className="h-5 w-5 text-indigo-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-indigo-800">
+              <p className="font-semibold mb-1">Adjusted for the weather</p>
+              <ul className="space-y-1">
+                {itinerary.weatherAdjustments.map((adjustment, index) => (
+                  <li key={`weather-adjustment-${index}`}>• {adjustment}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {/* Changes from the last weather re-check, for the traveller to review */}
+        {weatherReview && !isGenerating && (
+          <div className="mb-8 p-4 bg-white border border-indigo-200 rounded-xl shadow-sm" role="region" aria-label="Weather re-check">
+            <p className="flex items-center space-x-2 font-semibold text-indigo-800 mb-2">
+              <CloudRain className="h-5 w-5 text-indigo-600" />
+              <span>Weather re-check</span>
+            </p>
+            {weatherReview.changes.length === 0 ? (
+              <p className="text-sm text-slate-600">
+                {weatherReview.hasWeather
+                  ? 'No changes needed: no outdoor activity is planned on a day with heavy rain or extreme temperatures.'
+                  : 'No forecast is available for this trip yet. Add a start date to check it against the weather.'}
+              </p>
+            ) : (
+              <ul className="space-y-2 mb-3">
+                {weatherReview.changes.map((change, index) => (
+                  <li key={`weather-change-${change.day}-${change.activityId}`}>
+                    <label className="flex items-start space-x-2 text-sm text-slate-700">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={weatherReview.selected[index]}
+                        onChange={() => setWeatherReview({ ...weatherReview, selected: weatherReview.selected.map((selected, other) => (other === index ? !selected : selected)) })}
+                      />
+                      <span>
+                        <span className="font-medium">{change.description}</span>
+                        <span className="text-slate-500"> ({change.reason})</span>
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {weatherReview.changes.length > 0 && (
+                <button
+                  onClick={handleApplyWeatherChanges}
+                  disabled={!weatherReview.selected.some(Boolean)}
+                  className="bg-indigo-500 hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-4 py-2 rounded-lg transition-colors duration-200"
+                >
+                  Apply selected
+                </button>
+              )}
+              <button
+                onClick={() => setWeatherReview(null)}
+                className="text-slate-600 hover:text-slate-800 text-sm px-4 py-2 rounded-lg border border-slate-200 transition-colors duration-200"
+              >
+                {weatherReview.changes.length > 0 ? 'Keep the plan as is' : 'Close'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Served by a fallback because the selected provider failed */}
+        {itinerary.fallback && !isGenerating && (
+          <div className="mb-8 p-4 bg-amber-50 border border-amber-200 rounded-xl flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-start space-x-3">
+              <WifiOff className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+              <p className="text-amber-800 text-sm">
+                <span className="font-semibold">Fallback plan.</span>{' '}
+                {itinerary.fallback.failedProviderLabel} could not plan this trip ({itinerary.fallback.reason}), so{' '}
+                {itinerary.fallback.source === 'cache'
+                  ? `this is an earlier ${itinerary.fallback.failedProviderLabel} itinerary for the same preferences.`
+                  : 'it was put together from the offline catalog instead.'}
+              </p>
+            </div>
+            {onRetryWithProvider && (
+              <button
+                onClick={onRetryWithProvider}
+                disabled={!isOnline}
+                className="flex items-center space-x-2 bg-amber-500 hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-4 py-2 rounded-lg transition-colors duration-200 flex-shrink-0"
+                aria-label={`Generate this itinerary again with ${itinerary.fallback.failedProviderLabel}`}
+              >
+                <RefreshCw className="h-4 w-4" />
+                <span>{isOnline ? 'Retry with AI' : 'Waiting for connection...'}</span>
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Trip Overview */}
         <div className="bg-white rounded-2xl shadow-xl p-6 mb-8" id="trip-overview">
           <h2 className="text-2xl font-bold text-slate-800 mb-6">Trip Overview</h2>
@@ -170,11 +539,17 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
                 <DollarSign className="h-5 w-5 text-green-600" />
               </div>
               <div>
-                <p className="text-sm text-slate-500">Estimated Budget</p>
+                <p className="text-sm text-slate-500">Estimated Trip Cost</p>
                 {/* Format currency for better presentation */}
                 <p className="font-semibold text-slate-800">
-                  {itinerary.totalBudget.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
+                  {costs.totalPerGroup.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
                 </p>
+                {itinerary.preferences.budgetCap && (
+                  <p className={`text-xs ${isOverBudget(itinerary) ? 'text-red-600 font-semibold' : 'text-slate-500'}`}>
+                    {itinerary.preferences.budgetCap.currency !== 'USD' && `≈ ${formatUsdIn(costs.totalPerGroup, itinerary.preferences.budgetCap.currency)} · `}
+                    {isOverBudget(itinerary) ? 'over' : 'within'} your {formatMoney(itinerary.preferences.budgetCap.amount, itinerary.preferences.budgetCap.currency)} cap
+                  </p>
+                )}
               </div>
             </div>
             
@@ -188,6 +563,52 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
               </div>
             </div>
           </div>
+
+          {/* Cost breakdown; categories the trip does not use (e.g. transfers on a one-city trip) are left out */}
+          <div className="mt-6 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-500 border-b border-slate-200">
+                  <th className="py-2 font-medium">Estimated costs</th>
+                  <th className="py-2 font-medium text-right">Per person</th>
+                  <th className="py-2 font-medium text-right">Group of {itinerary.preferences.groupSize}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {COST_CATEGORIES
+                  .filter(category => costs.perGroup[category] > 0)
+                  .map(category => (
+                    <tr key={category} className="border-b border-slate-100 text-slate-700">
+                      <td className="py-2">{COST_CATEGORY_LABELS[category]}</td>
+                      <td className="py-2 text-right">${costs.perPerson[category].toLocaleString()}</td>
+                      <td className="py-2 text-right">${costs.perGroup[category].toLocaleString()}</td>
+                    </tr>
+                  ))}
+                <tr className="font-semibold text-slate-800">
+                  <td className="py-2">Total</td>
+                  <td className="py-2 text-right">${costs.totalPerPerson.toLocaleString()}</td>
+                  <td className="py-2 text-right">${costs.totalPerGroup.toLocaleString()}</td>
+                </tr>
+                {/* Mixed parties also get one line per age band; children pay their own prices and eat less */}
+                {costs.perMember.length > 1 && costs.perMember.map(member => (
+                  <tr key={member.band} className="text-slate-500">
+                    <td className="py-1 pl-4">Each {AGE_BANDS[member.band].singular} (×{member.count})</td>
+                    <td className="py-1 text-right">${member.perPerson.toLocaleString()}</td>
+                    <td className="py-1 text-right">${(member.perPerson * member.count).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {itinerary.preferences.party && (
+              <p className="mt-2 text-xs text-slate-500">Travelling: {describeParty(itinerary.preferences.party)}</p>
+            )}
+            {itinerary.preferences.dietary && itinerary.preferences.dietary.length > 0 && (
+              <p className="mt-1 text-xs text-slate-500">Diet: {describeDietary(itinerary.preferences.dietary)}</p>
+            )}
+            {hasAccessibilityNeeds(itinerary.preferences.accessibility) && (
+              <p className="mt-1 text-xs text-slate-500">Accessibility: {describeAccessibility(itinerary.preferences.accessibility)}</p>
+            )}
+          </div>
         </div>
 
         {/* Weather Summary */}
@@ -225,8 +646,38 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
           {itinerary.days?.map((day) => (
             <div key={day.day} className="bg-white rounded-2xl shadow-xl overflow-hidden">
               <div className="bg-gradient-to-r from-sky-500 to-blue-600 text-white p-6">
-                <h3 className="text-2xl font-bold mb-2">Day {day.day}</h3>
-                <p className="text-sky-100">{day.date}</p>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-2xl font-bold mb-2">Day {day.day}</h3>
+                    <p className="text-sky-100">{day.date}</p>
+                    {day.pace && (
+                      <p
+                        className={`inline-flex items-center space-x-1 mt-2 px-2 py-0.5 rounded-full text-xs font-semibold ${DAY_INTENSITIES[day.pace.intensity].className}`}
+                        title={describePace(day.pace)}
+                      >
+                        <Gauge className="h-3.5 w-3.5" />
+                        <span>{DAY_INTENSITIES[day.pace.intensity].label} · {day.pace.activityHours} h · {day.pace.walkingKm} km</span>
+                      </p>
+                    )}
+                    {day.destination && (
+                      <p className="flex items-center space-x-1 text-sky-100 text-sm mt-1">
+                        <MapPin className="h-4 w-4" />
+                        <span>{day.destination}</span>
+                      </p>
+                    )}
+                  </div>
+                  {!isGenerating && (
+                    <button
+                      onClick={() => handleRegenerateDay(day.day)}
+                      disabled={regeneratingKey !== null}
+                      className="flex items-center space-x-2 bg-white/20 hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-3 py-2 rounded-lg transition-colors duration-200"
+                      aria-label={`Regenerate day ${day.day}`}
+                    >
+                      <RefreshCw className={`h-4 w-4 ${regeneratingKey === `day-${day.day}` ? 'animate-spin' : ''}`} />
+                      <span>{regeneratingKey === `day-${day.day}` ? 'Regenerating...' : 'Regenerate day'}</span>
+                    </button>
+                  )}
+                </div>
                 {day.weather && (
                   <div className="flex items-center space-x-4 mt-2 text-sky-100">
                     <div className="flex items-center space-x-1">
@@ -245,6 +696,13 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
               </div>
               
               <div className="p-6">
+                {day.transfer && (
+                  <div className="mb-4 p-3 bg-indigo-50 border border-indigo-200 rounded-lg flex items-center space-x-2 text-indigo-800 text-sm">
+                    {day.transfer.mode === 'flight' ? <Plane className="h-4 w-4" /> : day.transfer.mode === 'bus' ? <Bus className="h-4 w-4" /> : <TrainFront className="h-4 w-4" />}
+                    <span><strong>Travel day:</strong> {describeTransfer(day.transfer)}</span>
+                  </div>
+                )}
+
                 {day.weather?.recommendation && (
                   <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
                     <p className="text-blue-800 text-sm">
@@ -264,61 +722,152 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
                   </div>
                 )}
                 
+                {day.scheduleIssues && day.scheduleIssues.length > 0 && (
+                  <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg" role="status">
+                    <p className="flex items-center space-x-2 font-semibold text-amber-800 text-sm mb-1">
+                      <AlertTriangle className="h-4 w-4" />
+                      <span>Timing conflicts</span>
+                    </p>
+                    <ul className="space-y-1">
+                      {day.scheduleIssues.map((issue, index) => (
+                        <li key={`day-${day.day}-schedule-${index}`} className="text-amber-700 text-sm">• {issue.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {day.availabilityWarnings && day.availabilityWarnings.length > 0 && (
+                  <div className="mb-4 p-3 bg-rose-50 border border-rose-200 rounded-lg" role="status">
+                    <p className="flex items-center space-x-2 font-semibold text-rose-800 text-sm mb-1">
+                      <Calendar className="h-4 w-4" />
+                      <span>Check availability</span>
+                    </p>
+                    <ul className="space-y-1">
+                      {day.availabilityWarnings.map((warning, index) => (
+                        <li key={`day-${day.day}-availability-${index}`} className="text-rose-700 text-sm">• {warning.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {day.accessibilityWarnings && day.accessibilityWarnings.length > 0 && (
+                  <div className="mb-4 p-3 bg-indigo-50 border border-indigo-200 rounded-lg" role="status">
+                    <p className="flex items-center space-x-2 font-semibold text-indigo-800 text-sm mb-1">
+                      <Accessibility className="h-4 w-4" />
+                      <span>Accessibility</span>
+                    </p>
+                    <ul className="space-y-1">
+                      {day.accessibilityWarnings.map((warning, index) => (
+                        <li key={`day-${day.day}-accessibility-${index}`} className="text-indigo-700 text-sm">• {warning.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {day.pace?.warnings && (
+                  <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg" role="status">
+                    <p className="flex items-center space-x-2 font-semibold text-orange-800 text-sm mb-1">
+                      <Gauge className="h-4 w-4" />
+                      <span>Pace</span>
+                    </p>
+                    <ul className="space-y-1">
+                      {day.pace.warnings.map((warning, index) => (
+                        <li key={`day-${day.day}-pace-${index}`} className="text-orange-700 text-sm">• {warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="space-y-4">
-                  {day.activities?.map((activity) => ( 
-                    <div key={activity.id} className="border border-slate-200 rounded-xl p-4 hover:shadow-md transition-all duration-200">
-                      <div className="flex items-start justify-between mb-3">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-3 mb-2">
-                            {getTimeSlotIcon(activity.timeSlot)} {/* Render Lucide icon component */}
-                            <h4 className="text-lg font-semibold text-slate-800">{activity.name}</h4>
-                            <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getCategoryColor(activity.category)}`}>
-                              {activity.category}
-                            </span>
-                            {activity.weatherConsideration && (
-                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                                activity.weatherConsideration === 'indoor' ? 'bg-gray-100 text-gray-700' :
-                                activity.weatherConsideration === 'outdoor' ? 'bg-green-100 text-green-700' :
-                                'bg-yellow-100 text-yellow-700'
-                              }`}>
-                                {activity.weatherConsideration}
-                              </span>
-                            )}
-                          </div>
-                          <p className="text-slate-600 mb-2">{activity.description}</p>
-                          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-500"> {/* Added flex-wrap for smaller screens */}
-                            <div className="flex items-center space-x-1">
-                              <Clock className="h-4 w-4" />
-                              <span>{activity.duration}</span>
-                            </div>
-                            <div className="flex items-center space-x-1">
-                              <MapPin className="h-4 w-4" />
-                              <span>{activity.location}</span>
-                            </div>
-                            <div className="flex items-center space-x-1">
-                              <DollarSign className="h-4 w-4" />
-                              {/* Format activity cost as currency */}
-                              <span>
-                                {activity.estimatedCost?.toLocaleString('en-US', { style: 'currency', currency: 'USD' }) || 'N/A'}
+                  {day.activities?.map((activity, index) => (
+                    <React.Fragment key={activity.id}>
+                      {index > 0 && renderRest(day, day.activities[index - 1])}
+                      {getMealsBefore(day, index).map(meal => renderMeal(day, meal))}
+                      {activity.travelFromPrevious && (
+                        <div className="flex items-center space-x-2 pl-4 text-sm text-slate-500" aria-label={`Travel from the previous activity: ${describeTravelLeg(activity.travelFromPrevious)}`}>
+                          {activity.travelFromPrevious.mode === 'walk' ? <Footprints className="h-4 w-4" /> : <TrainFront className="h-4 w-4" />}
+                          <span>{describeTravelLeg(activity.travelFromPrevious)}</span>
+                        </div>
+                      )}
+                      <div className="border border-slate-200 rounded-xl p-4 hover:shadow-md transition-all duration-200">
+                        <div className="flex items-start justify-between mb-3">
+                          <div className="flex-1">
+                            <div className="flex items-center space-x-3 mb-2">
+                              {getTimeSlotIcon(activity.timeSlot)} {/* Render Lucide icon component */}
+                              <h4 className="text-lg font-semibold text-slate-800">{activity.name}</h4>
+                              <span className={`px-3 py-1 rounded-full text-xs font-medium border ${getCategoryStyle(activity.category).className}`}>
+                                {getCategoryStyle(activity.category).label}
                               </span>
+                              {activity.weatherConsideration && (
+                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                  activity.weatherConsideration === 'indoor' ? 'bg-gray-100 text-gray-700' :
+                                  activity.weatherConsideration === 'outdoor' ? 'bg-green-100 text-green-700' :
+                                  'bg-yellow-100 text-yellow-700'
+                                }`}>
+                                  {activity.weatherConsideration}
+                                </span>
+                              )}
                             </div>
-                            {activity.rating && (
+                            <p className="text-slate-600 mb-2">{activity.description}</p>
+                            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-500"> {/* Added flex-wrap for smaller screens */}
+                              <div className="flex items-center space-x-1">
+                                <Clock className="h-4 w-4" />
+                                {/* Scheduled times when the plan has them, plus the duration as given */}
+                                <span>
+                                  {formatActivityTimes(activity) ? `${formatActivityTimes(activity)} (${activity.duration})` : activity.duration}
+                                </span>
+                              </div>
+                              <div className="flex items-center space-x-1">
+                                <MapPin className="h-4 w-4" />
+                                <span>{activity.location}</span>
+                              </div>
                               <div className="flex items-center space-x-1">
-                                <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-                                <span>{activity.rating}/5</span>
+                                <DollarSign className="h-4 w-4" />
+                                {/* Format activity cost as currency */}
+                                <span>
+                                  {activity.estimatedCost?.toLocaleString('en-US', { style: 'currency', currency: 'USD' }) || 'N/A'}
+                                  {describeAgePricing(activity) && ` (${describeAgePricing(activity)})`}
+                                </span>
+                              </div>
+                              {activity.minAge !== undefined && (
+                                <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 text-xs font-medium">Ages {activity.minAge}+</span>
+                              )}
+                              {renderAccessibilityBadges(activity)}
+                              {day.meals?.filter(meal => meal.activityId === activity.id).map(meal => (
+                                <span key={meal.meal} className="px-2 py-0.5 rounded-full bg-rose-50 text-rose-700 text-xs font-medium">
+                                  Your {MEAL_TYPES[meal.meal].label.toLowerCase()}
+                                </span>
+                              ))}
+                              {activity.rating && (
+                                <div className="flex items-center space-x-1">
+                                  <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                                  <span>{activity.rating}/5</span>
+                                </div>
+                              )}
+                            </div>
+                            {/* Display activity photos/image descriptions if available */}
+                            {activity.photos && activity.photos.length > 0 && (
+                              <div className="mt-3 text-xs text-slate-500 italic">
+                                  Photos: {activity.photos.join(', ')}
                               </div>
                             )}
                           </div>
-                          {/* Display activity photos/image descriptions if available */}
-                          {activity.photos && activity.photos.length > 0 && (
-                            <div className="mt-3 text-xs text-slate-500 italic">
-                                Photos: {activity.photos.join(', ')}
-                            </div>
+                          {!isGenerating && (
+                            <button
+                              onClick={() => handleRegenerateActivity(day.day, activity.id)}
+                              disabled={regeneratingKey !== null}
+                              className="flex items-center space-x-1 text-sm text-slate-500 hover:text-sky-600 disabled:opacity-50 disabled:cursor-not-allowed ml-4 flex-shrink-0 transition-colors duration-200"
+                              aria-label={`Swap ${activity.name} for a different activity`}
+                            >
+                              <RefreshCw className={`h-4 w-4 ${regeneratingKey === `activity-${activity.id}` ? 'animate-spin' : ''}`} />
+                              <span>Swap</span>
+                            </button>
                           )}
                         </div>
                       </div>
-                    </div>
+                    </React.Fragment>
                   ))}
+                  {getMealsBefore(day, day.activities?.length ?? 0).map(meal => renderMeal(day, meal))}
                 </div>
                 
                 {day.notes && (
@@ -329,6 +878,23 @@ const ItineraryResults: React.FC<ItineraryResultsProps> = ({
               </div>
             </div>
           ))}
+
+          {/* Placeholders for days still being generated */}
+          {Array.from({ length: pendingDays }, (_, index) => {
+            const dayNumber = itinerary.days.length + index + 1;
+            return (
+              <div key={`pending-day-${dayNumber}`} className="bg-white rounded-2xl shadow-xl overflow-hidden animate-pulse" aria-hidden="true">
+                <div className="bg-gradient-to-r from-slate-300 to-slate-400 text-white p-6">
+                  <h3 className="text-2xl font-bold mb-2">Day {dayNumber}</h3>
+                  <p className="text-slate-100">{index === 0 ? 'Planning...' : 'Waiting...'}</p>
+                </div>
+                <div className="p-6 space-y-4">
+                  <div className="h-16 bg-slate-100 rounded-xl" />
+                  <div className="h-16 bg-slate-100 rounded-xl" />
+                </div>
+              </div>
+            );
+          })}
         </div>
 
         {/* Emergency Information */}
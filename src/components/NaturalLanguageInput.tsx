@@ -1,48 +1,207 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageCircle, Send, Sparkles, Loader, Home } from 'lucide-react'; // Added Home icon for clarity
-import { geminiAgent } from '../services/geminiService';
-import { NaturalLanguageQuery, TravelPlan } from '../types/travel';
+import { MessageCircle, Send, Sparkles, Loader, Home, Eye, PlusCircle, Square } from 'lucide-react'; // Added Home icon for clarity
+import { getItineraryProvider } from '../services/itineraryProvider';
+import { describeRefinementError, getGenerationErrorDetails, isAbortError } from '../services/generationErrors';
+import { ModelRequestError } from '../services/modelRequest';
+import { formatMoney } from '../services/budgetCap';
+import { describeParty } from '../services/party';
+import {
+  ClarifiableField,
+  REVIEW_IN_FORM_REPLY,
+  applyClarificationAnswer,
+  buildPreferenceDraft,
+  buildPreferences,
+  fillWithDefaults,
+  findMissingFields,
+  getClarificationQuestion,
+  isUseDefaultsAnswer,
+} from '../services/queryClarification';
+import { ChatMessage, ExtractedTravelInfo, NaturalLanguageQuery, PreferenceDraft, TravelPlan, TravelPreferences } from '../types/travel';
 
 interface NaturalLanguageInputProps {
-  onItineraryGenerated: (itinerary: TravelPlan) => void;
+  // Plan the chat is attached to; while set, messages are treated as edits to it instead of new trips
+  itinerary: TravelPlan | null;
+  // Kept by the parent so the conversation survives switching to the results view and back
+  chatHistory: ChatMessage[];
+  onChatHistoryChange: React.Dispatch<React.SetStateAction<ChatMessage[]>>;
+  // Starts generation; progress and results are shown by the results view
+  onGenerateItinerary: (preferences: TravelPreferences) => void;
+  // Opens the planning form pre-filled with what was understood, instead of generating
+  onReviewInForm: (draft: PreferenceDraft) => void;
+  onItineraryUpdated: (itinerary: TravelPlan) => void;
+  onViewItinerary: () => void;
+  // Detaches the chat from the current plan so the next message plans a new trip
+  onStartNewTrip: () => void;
   onBackToHome: () => void;
 }
 
-// Define a type for chat messages for better clarity
-type ChatMessage = {
-  type: 'user' | 'ai';
-  message: string;
-  timestamp: Date;
+// A trip whose request is missing details, and the field the last question asked about
+type PendingTrip = {
+  info: ExtractedTravelInfo;
+  field: ClarifiableField;
+  query: string;
 };
 
 const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
-  onItineraryGenerated,
+  itinerary,
+  chatHistory,
+  onChatHistoryChange: setChatHistory,
+  onGenerateItinerary,
+  onReviewInForm,
+  onItineraryUpdated,
+  onViewItinerary,
+  onStartNewTrip,
   onBackToHome
 }) => {
   const [query, setQuery] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [pendingTrip, setPendingTrip] = useState<PendingTrip | null>(null);
+  // When set, parsed requests open the planning form for review instead of generating right away
+  const [reviewBeforeGenerating, setReviewBeforeGenerating] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null); // Ref for auto-scrolling chat
+  // Cancels the parse or refinement request in flight (the Stop button)
+  const requestControllerRef = useRef<AbortController | null>(null);
+
+  // Abandon any request still running when the chat is closed
+  useEffect(() => () => requestControllerRef.current?.abort(), []);
 
   // Scroll to the bottom of the chat history whenever it updates
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatHistory]);
 
-  const exampleQueries = [
+  // Replaces the trailing "working on it" message with the final reply
+  const replaceLastAiMessage = (reply: Omit<ChatMessage, 'type' | 'timestamp'>) => {
+    setChatHistory(prev => {
+      const updatedHistory = [...prev];
+      const lastIndex = updatedHistory.length - 1;
+      const message: ChatMessage = { type: 'ai', timestamp: new Date(), ...reply };
+      if (lastIndex >= 0 && updatedHistory[lastIndex].type === 'ai') {
+        updatedHistory[lastIndex] = message;
+      } else {
+        updatedHistory.push(message);
+      }
+      return updatedHistory;
+    });
+  };
+
+  const handleRefinement = async (instruction: string, plan: TravelPlan, signal: AbortSignal) => {
+    setChatHistory(prev => [
+      ...prev,
+      { type: 'user', message: instruction, timestamp: new Date() },
+      { type: 'ai', message: 'Updating your itinerary...', timestamp: new Date() }
+    ]);
+
+    try {
+      const refinement = await getItineraryProvider().refineItinerary(plan, instruction, { signal });
+      onItineraryUpdated(refinement.plan);
+      replaceLastAiMessage({ message: refinement.summary, changes: refinement.changes });
+    } catch (error) {
+      if (isAbortError(error)) {
+        replaceLastAiMessage({ message: 'Stopped. Your itinerary was left unchanged.' });
+        return;
+      }
+      console.error('Error refining itinerary:', error);
+      replaceLastAiMessage({ message: describeRefinementError(error) });
+    }
+  };
+
+  const exampleQueries = itinerary ? [
+    "Make day 2 more relaxed",
+    "Swap the museum for something outdoors",
+    "Add a food tour on day 1",
+    "Make the last day cheaper"
+  ] : [
     "Plan a 5-day romantic trip to Paris in December for 2 people with a mid-range budget",
     "I want to explore Tokyo for 7 days, love food and culture, budget-friendly options",
     "Plan a 3-day adventure trip to Manali in March, interested in trekking and local cuisine",
     "Family trip to Goa for 4 days, 2 adults and 2 kids, beach activities and relaxation"
   ];
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const currentQuery = query.trim();
+  // Either hands the trip off for generation or asks about the first field that is still missing
+  const continueWithTrip = (info: ExtractedTravelInfo, query: string) => {
+    if (reviewBeforeGenerating) {
+      handOffToForm(info, query);
+      return;
+    }
+
+    const [missingField] = findMissingFields(info);
+    if (missingField) {
+      const { question, quickReplies } = getClarificationQuestion(missingField, info);
+      setPendingTrip({ info, field: missingField, query });
+      replaceLastAiMessage({ message: question, quickReplies });
+      return;
+    }
+
+    const preferences = buildPreferences(info);
+    setPendingTrip(null);
+    replaceLastAiMessage({
+      message: `Got it: ${preferences.duration} days in ${preferences.destination} for ${preferences.party ? describeParty(preferences.party) : `${preferences.groupSize} ${preferences.groupSize === 1 ? 'traveller' : 'travellers'}`}, ${preferences.budgetCap ? `at most ${formatMoney(preferences.budgetCap.amount, preferences.budgetCap.currency)} in total` : `${preferences.budget} budget`}. Generating your personalized itinerary now!`
+    });
+    // Hand off generation; the results view renders each day as it is planned
+    onGenerateItinerary(preferences);
+  };
+
+  const handOffToForm = (info: ExtractedTravelInfo, query: string) => {
+    setPendingTrip(null);
+    replaceLastAiMessage({ message: 'Here is what I understood. Opening the planning form so you can check the details before generating.' });
+    onReviewInForm(buildPreferenceDraft(info, query));
+  };
+
+  const handleClarificationAnswer = (answer: string, pending: PendingTrip) => {
+    setChatHistory(prev => [...prev, { type: 'user', message: answer, timestamp: new Date() }]);
+
+    if (answer === REVIEW_IN_FORM_REPLY) {
+      handOffToForm(pending.info, pending.query);
+      return;
+    }
+
+    // Defaults are only used when asked for, and never for the destination
+    if (isUseDefaultsAnswer(answer)) {
+      const info = fillWithDefaults(pending.info);
+      if (findMissingFields(info).includes('destination')) {
+        const { question, quickReplies } = getClarificationQuestion('destination', info);
+        setPendingTrip({ ...pending, info, field: 'destination' });
+        replaceLastAiMessage({ message: `I can fill in the rest with sensible defaults, but I still need a destination. ${question}`, quickReplies });
+        return;
+      }
+      continueWithTrip(info, pending.query);
+      return;
+    }
+
+    const info = applyClarificationAnswer(pending.field, answer, pending.info);
+    if (!info) {
+      const { question, quickReplies } = getClarificationQuestion(pending.field, pending.info);
+      replaceLastAiMessage({ message: `Sorry, I didn't catch that. ${question}`, quickReplies });
+      return;
+    }
+    continueWithTrip(info, pending.query);
+  };
+
+  const submitMessage = async (text: string) => {
+    const currentQuery = text.trim();
     if (!currentQuery || isProcessing) return;
 
     setIsProcessing(true);
     setQuery(''); // Clear input immediately after submission
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+
+    // Follow-ups edit the attached itinerary rather than planning a new trip
+    if (itinerary) {
+      await handleRefinement(currentQuery, itinerary, controller.signal);
+      requestControllerRef.current = null;
+      setIsProcessing(false);
+      return;
+    }
+
+    // An answer to the open question fills in that field instead of starting over
+    if (pendingTrip) {
+      handleClarificationAnswer(currentQuery, pendingTrip);
+      requestControllerRef.current = null;
+      setIsProcessing(false);
+      return;
+    }
 
     // Add user message to chat history
     setChatHistory(prev => [...prev, {
@@ -52,98 +211,44 @@ const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
     }]);
 
     // Add a placeholder AI message indicating processing
-    const processingMessage: ChatMessage = {
+    setChatHistory(prev => [...prev, {
       type: 'ai',
-      message: 'Processing your request and generating the itinerary...',
+      message: 'Processing your request...',
       timestamp: new Date()
-    };
-    setChatHistory(prev => [...prev, processingMessage]);
+    }]);
 
     try {
-      // Step 1: Parse natural language query
-      const parsedQuery: NaturalLanguageQuery = await geminiAgent.parseNaturalLanguageQuery(currentQuery);
-      
-      // Update the processing message or add a new one after parsing
-      setChatHistory(prev => {
-        const updatedHistory = [...prev];
-        // Find and update the processing message if it exists, or add a new one
-        const lastAiMessageIndex = updatedHistory.findLastIndex(msg => msg.type === 'ai');
-        if (lastAiMessageIndex !== -1 && updatedHistory[lastAiMessageIndex].message === processingMessage.message) {
-            updatedHistory[lastAiMessageIndex] = { ...updatedHistory[lastAiMessageIndex], message: 'Understood your travel preferences. Generating your personalized itinerary now!' };
-        } else {
-            updatedHistory.push({ type: 'ai', message: 'Understood your travel preferences. Generating your personalized itinerary now!', timestamp: new Date() });
-        }
-        return updatedHistory;
-      });
-
-      // Prepare preferences for itinerary generation, ensuring defaults for potentially missing data
-      const preferences = {
-        destination: parsedQuery.extractedInfo?.destination || '',
-        duration: parsedQuery.extractedInfo?.duration || 3,
-        // Ensure budget is correctly typed. Assuming 'mid-range' as default string.
-        budget: parsedQuery.extractedInfo?.budget as 'budget-friendly' | 'mid-range' | 'luxury' || 'mid-range', 
-        interests: parsedQuery.extractedInfo?.interests || [],
-        travelStyle: parsedQuery.extractedInfo?.travelStyle || 'moderate', // Use extracted travel style or default
-        groupSize: parsedQuery.extractedInfo?.groupSize || 2,
-        accommodation: parsedQuery.extractedInfo?.accommodation || 'hotel', // Use extracted accommodation or default
-        startDate: parsedQuery.extractedInfo?.startDate,
-        specificRequests: parsedQuery.extractedInfo?.specificRequests?.join(', ') || ''
-      };
-
-      // Step 2: Generate itinerary
-      const itinerary = await geminiAgent.generateItinerary(preferences);
-      
-      // Replace the last AI message with the success message
-      setChatHistory(prev => {
-        const updatedHistory = [...prev];
-        const lastAiMessageIndex = updatedHistory.findLastIndex(msg => msg.type === 'ai');
-        if (lastAiMessageIndex !== -1) {
-          updatedHistory[lastAiMessageIndex] = {
-            type: 'ai',
-            message: `Perfect! I've created a ${itinerary.duration}-day itinerary for ${itinerary.destination}. Your personalized travel plan is ready!`,
-            timestamp: new Date()
-          };
-        } else {
-            // Fallback: If for some reason the processing message wasn't added, add this success message
-            updatedHistory.push({
-                type: 'ai',
-                message: `Perfect! Your ${itinerary.duration}-day itinerary for ${itinerary.destination} is ready!`,
-                timestamp: new Date()
-            });
-        }
-        return updatedHistory;
+      // Parse the natural language query, then either ask about missing details or generate
+      const parsedQuery: NaturalLanguageQuery = await getItineraryProvider().parseNaturalLanguageQuery(currentQuery, {
+        signal: controller.signal
       });
-
-      // Pass the generated itinerary to the parent component
-      onItineraryGenerated(itinerary);
-      
+      continueWithTrip(parsedQuery.extractedInfo || {}, currentQuery);
     } catch (error) {
+      if (isAbortError(error)) {
+        replaceLastAiMessage({ message: 'Stopped. Send your request again whenever you are ready.' });
+        return;
+      }
       console.error('Error processing query:', error);
-      // Update the last AI message with an error, or add a new one
-      setChatHistory(prev => {
-        const updatedHistory = [...prev];
-        const lastAiMessageIndex = updatedHistory.findLastIndex(msg => msg.type === 'ai');
-        if (lastAiMessageIndex !== -1) {
-          updatedHistory[lastAiMessageIndex] = {
-            type: 'ai',
-            message: 'I apologize, but I encountered an error while creating your itinerary. Please try again with a different query, or try the Detailed Form Planning.',
-            timestamp: new Date()
-          };
-        } else {
-            // Fallback if no AI message was added previously
-            updatedHistory.push({
-                type: 'ai',
-                message: 'I apologize, but I encountered an error. Please try again or switch to form planning.',
-                timestamp: new Date()
-            });
-        }
-        return updatedHistory;
-      });
+      // Replace the processing message with an error; service failures get their own explanation
+      if (error instanceof ModelRequestError) {
+        const { title, message } = getGenerationErrorDetails(error);
+        replaceLastAiMessage({ message: `${title}. ${message}` });
+      } else {
+        replaceLastAiMessage({
+          message: 'I apologize, but I encountered an error while understanding your request. Please try again with a different query, or try the Detailed Form Planning.'
+        });
+      }
     } finally {
+      requestControllerRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitMessage(query);
+  };
+
   const handleExampleClick = (example: string) => {
     setQuery(example);
     // Optionally trigger submit immediately after clicking an example
@@ -161,19 +266,45 @@ const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
           </div>
           
           <h1 className="text-4xl font-bold text-slate-800 mb-4">
-            Tell Me About Your Dream Trip
+            {itinerary ? `Fine-Tune Your ${itinerary.destination} Trip` : 'Tell Me About Your Dream Trip'}
           </h1>
           <p className="text-lg text-slate-600 max-w-2xl mx-auto">
-            Just describe your travel plans in plain English, and I'll create a personalized itinerary for you.
+            {itinerary
+              ? 'Tell me what you would like to change, and I\'ll update your itinerary while keeping everything else as it is.'
+              : 'Just describe your travel plans in plain English, and I\'ll create a personalized itinerary for you.'}
           </p>
         </div>
 
         {/* Chat Interface Container */}
         <div className="bg-white rounded-2xl shadow-xl overflow-hidden mb-6 flex flex-col h-[60vh] max-h-[700px]"> {/* Fixed height for chat */}
           {/* Chat Header */}
-          <div className="bg-gradient-to-r from-sky-500 to-blue-600 text-white p-4 flex items-center space-x-2 flex-shrink-0">
-            <MessageCircle className="h-5 w-5" />
-            <span className="font-semibold">AI Travel Assistant</span>
+          <div className="bg-gradient-to-r from-sky-500 to-blue-600 text-white p-4 flex items-center justify-between gap-2 flex-shrink-0">
+            <div className="flex items-center space-x-2">
+              <MessageCircle className="h-5 w-5" />
+              <span className="font-semibold">AI Travel Assistant</span>
+            </div>
+            {/* While attached to a plan, offer a way back to it and a way out of refining */}
+            {itinerary && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={onViewItinerary}
+                  className="flex items-center space-x-1 bg-white/20 hover:bg-white/30 text-sm px-3 py-1 rounded-lg transition-colors duration-200"
+                  aria-label="View the current itinerary"
+                >
+                  <Eye className="h-4 w-4" />
+                  <span>View itinerary</span>
+                </button>
+                <button
+                  onClick={onStartNewTrip}
+                  disabled={isProcessing}
+                  className="flex items-center space-x-1 bg-white/20 hover:bg-white/30 disabled:opacity-50 disabled:cursor-not-allowed text-sm px-3 py-1 rounded-lg transition-colors duration-200"
+                  aria-label="Start planning a new trip"
+                >
+                  <PlusCircle className="h-4 w-4" />
+                  <span>New trip</span>
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Chat Messages Display Area */}
@@ -204,6 +335,30 @@ const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
                     }`}
                   >
                     <p className="text-sm">{message.message}</p>
+                    {/* Quick replies only apply to the question that is still open */}
+                    {message.quickReplies && pendingTrip && index === chatHistory.length - 1 && (
+                      <div className="flex flex-wrap gap-2 mt-2">
+                        {message.quickReplies.map(reply => (
+                          <button
+                            key={reply}
+                            type="button"
+                            onClick={() => submitMessage(reply)}
+                            disabled={isProcessing}
+                            className="px-3 py-1 text-xs font-medium bg-white text-sky-700 border border-sky-300 rounded-full hover:bg-sky-50 disabled:opacity-50 transition-colors duration-200"
+                            aria-label={`Reply: ${reply}`}
+                          >
+                            {reply}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {message.changes && message.changes.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {message.changes.map((change, changeIndex) => (
+                          <li key={changeIndex} className="text-sm text-emerald-700">• {change}</li>
+                        ))}
+                      </ul>
+                    )}
                     <p className={`text-xs mt-1 ${
                       message.type === 'user' ? 'text-sky-100' : 'text-slate-500'
                     }`}>
@@ -224,7 +379,7 @@ const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
                 type="text"
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
-                placeholder={isProcessing ? "Generating..." : "e.g., Plan a 5-day trip to Tokyo in December for 2 people..."}
+                placeholder={isProcessing ? "Generating..." : itinerary ? "e.g., Make day 2 more relaxed..." : "e.g., Plan a 5-day trip to Tokyo in December for 2 people..."}
                 className="flex-1 px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-transparent outline-none" // Added outline-none for better focus ring
                 disabled={isProcessing}
                 aria-label="Enter your travel plan query" // Added for accessibility
@@ -243,7 +398,30 @@ const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
                 {/* Optional: Add text for better mobile UX */}
                 <span className="hidden sm:inline">{isProcessing ? "Processing" : "Send"}</span>
               </button>
+              {isProcessing && (
+                <button
+                  type="button"
+                  onClick={() => requestControllerRef.current?.abort()}
+                  className="px-4 py-2 border border-slate-300 text-slate-700 hover:bg-slate-100 rounded-lg transition-colors duration-200 flex items-center justify-center space-x-1"
+                  aria-label="Stop the current request"
+                >
+                  <Square className="h-4 w-4" />
+                  <span className="hidden sm:inline">Stop</span>
+                </button>
+              )}
             </div>
+            {/* Refinements edit the plan directly, so the review option only applies to new trips */}
+            {!itinerary && (
+              <label className="flex items-center space-x-2 mt-3 text-sm text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reviewBeforeGenerating}
+                  onChange={(e) => setReviewBeforeGenerating(e.target.checked)}
+                  className="rounded border-slate-300 text-sky-500 focus:ring-sky-500"
+                />
+                <span>Let me review the details in the planning form before generating</span>
+              </label>
+            )}
           </form>
         </div>
 
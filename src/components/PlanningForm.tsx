@@ -1,21 +1,49 @@
 import React, { useState } from 'react';
-import { MapPin, Calendar, DollarSign, Users, ArrowLeft, Sparkles, MessageSquare, Home } from 'lucide-react'; // Added Home icon
-import { TravelPreferences, TravelPlan } from '../types/travel';
-import { geminiAgent } from '../services/geminiService';
+import { MapPin, Calendar, Clock, DollarSign, Users, Sparkles, MessageSquare, Home, AlertTriangle, Info, PlusCircle, X, Accessibility, Utensils } from 'lucide-react'; // Added Home icon
+import { AccessibilityNeed, AgeBand, CurrencyCode, DietaryNeed, PreferenceDraft, TravelPreferences, TripLeg } from '../types/travel';
+import { getGenerationErrorDetails } from '../services/generationErrors';
+import { ACCESSIBILITY_NEEDS, AGE_BANDS, BUDGET_TIERS, DIETARY_NEEDS, CURRENCIES, INTERESTS, TRAVEL_STYLES } from '../services/taxonomy';
+import { DEFAULT_SCHEDULE_OPTIONS } from '../services/scheduler';
+import { ACCESSIBILITY_NEED_VALUES, hasAccessibilityNeeds } from '../services/accessibility';
+import { DIETARY_NEED_VALUES } from '../services/dietary';
+import { PARTY_BANDS, countBand, getParty, getPartySize, withBandCount, withPartyTotals } from '../services/party';
+import { isMultiCity, withLegTotals } from '../services/tripLegs';
 
 interface PlanningFormProps {
-  onItineraryGenerated: (itinerary: TravelPlan) => void;
+  // Starts generation; progress and results are shown by the results view
+  onGenerateItinerary: (preferences: TravelPreferences) => void;
+  // Failure of the previous generation started from this form, if any
+  generationError?: unknown;
+  // Preferences understood from a chat request, to review before generating
+  draft?: PreferenceDraft | null;
   onBackToHome: () => void;
   onSwitchToNaturalLanguage: () => void;
 }
 
+type FieldSource = 'inferred' | 'default' | 'missing';
+
+// Tells the traveller whether a pre-filled field came from their request or still needs checking
+const FieldSourceBadge: React.FC<{ source: FieldSource }> = ({ source }) => {
+  const styles: Record<FieldSource, { label: string; className: string }> = {
+    inferred: { label: 'From your request', className: 'bg-emerald-100 text-emerald-700' },
+    default: { label: 'Default - please check', className: 'bg-amber-100 text-amber-700' },
+    missing: { label: 'Needs your input', className: 'bg-red-100 text-red-700' }
+  };
+  return (
+    <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${styles[source].className}`}>
+      {styles[source].label}
+    </span>
+  );
+};
+
 const PlanningForm: React.FC<PlanningFormProps> = ({ 
-  onItineraryGenerated, 
+  onGenerateItinerary, 
+  generationError,
+  draft,
   onBackToHome, 
   onSwitchToNaturalLanguage 
 }) => {
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [preferences, setPreferences] = useState<TravelPreferences>({
+  const [preferences, setPreferences] = useState<TravelPreferences>(() => draft?.preferences ?? {
     destination: '',
     duration: 3,
     budget: 'mid-range',
@@ -26,11 +54,124 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
     // startDate will be undefined initially, which is fine as it's optional
   });
 
-  const interestOptions = [
-    'Culture & History', 'Adventure & Sports', 'Food & Dining', 'Nature & Wildlife',
-    'Art & Museums', 'Nightlife', 'Shopping', 'Photography', 'Beach & Water Sports',
-    'Local Experiences', 'Wellness & Spa', 'Architecture', 'Religious Sites', 'Markets & Bazaars'
-  ];
+  const interestOptions = Object.keys(INTERESTS);
+  const legs = preferences.legs ?? [];
+  const multiCity = isMultiCity(preferences);
+
+  // Turns a one-city trip into the first leg of a multi-city one and adds an empty next city
+  const handleAddLeg = () => {
+    setPreferences(prev => withLegTotals({
+      ...prev,
+      legs: [
+        ...(isMultiCity(prev) ? prev.legs! : [{ destination: prev.destination, nights: prev.duration }]),
+        { destination: '', nights: 2 }
+      ]
+    }));
+  };
+
+  const handleLegChange = (index: number, changes: Partial<TripLeg>) => {
+    setPreferences(prev => withLegTotals({
+      ...prev,
+      legs: prev.legs?.map((leg, legIndex) => (legIndex === index ? { ...leg, ...changes } : leg))
+    }));
+  };
+
+  // Chosen separately so the currency can be picked before an amount is entered
+  const [capCurrency, setCapCurrency] = useState<CurrencyCode>(preferences.budgetCap?.currency ?? 'USD');
+
+  // An empty or zero amount removes the cap
+  const handleBudgetCapChange = (amount: number | undefined, currency: CurrencyCode) => {
+    setCapCurrency(currency);
+    setPreferences(prev => {
+      const updated: TravelPreferences = { ...prev, budgetCap: { amount: amount ?? 0, currency } };
+      if (!amount || amount <= 0) {
+        delete updated.budgetCap;
+      }
+      return updated;
+    });
+  };
+
+  const party = getParty(preferences);
+  // Typed as free text ("4, 7") and read into ages on every change
+  const [childAgesText, setChildAgesText] = useState(party.childAges?.join(', ') ?? '');
+
+  const handlePartyCountChange = (band: AgeBand, count: number) => {
+    setPreferences(prev => withPartyTotals({ ...prev, party: withBandCount(getParty(prev), band, count) }));
+  };
+
+  // Ages of 18 and over are not children and are ignored
+  const handleChildAgesChange = (text: string) => {
+    setChildAgesText(text);
+    setPreferences(prev => {
+      const updated = { ...getParty(prev) };
+      const ages = (text.match(/\d+/g) ?? []).map(Number).filter(age => age < 18).slice(0, updated.children);
+      delete updated.childAges;
+      if (ages.length > 0) {
+        updated.childAges = ages;
+      }
+      return withPartyTotals({ ...prev, party: updated });
+    });
+  };
+
+  // Accessibility is dropped once no need is ticked and no walking limit is set
+  const updateAccessibility = (update: (needs: AccessibilityNeed[], maxWalkingKm: number | undefined) => TravelPreferences['accessibility']) => {
+    setPreferences(prev => {
+      const accessibility = update(prev.accessibility?.needs ?? [], prev.accessibility?.maxWalkingKm);
+      const updated: TravelPreferences = { ...prev, accessibility };
+      if (!hasAccessibilityNeeds(accessibility)) {
+        delete updated.accessibility;
+      }
+      return updated;
+    });
+  };
+
+  const handleAccessibilityNeedToggle = (need: AccessibilityNeed) => {
+    updateAccessibility((needs, maxWalkingKm) => {
+      const toggled = needs.includes(need) ? needs.filter(current => current !== need) : [...needs, need];
+      // Kept in listing order whatever order they were ticked in
+      const ordered = ACCESSIBILITY_NEED_VALUES.filter(value => toggled.includes(value));
+      return maxWalkingKm !== undefined ? { needs: ordered, maxWalkingKm } : { needs: ordered };
+    });
+  };
+
+  // An empty or zero distance removes the limit
+  const handleMaxWalkingChange = (km: number | undefined) => {
+    updateAccessibility(needs => (km && km > 0 ? { needs, maxWalkingKm: km } : { needs }));
+  };
+
+  // Kept in listing order; unticking the last diet removes the field
+  const handleDietToggle = (diet: DietaryNeed) => {
+    setPreferences(prev => {
+      const current = prev.dietary ?? [];
+      const toggled = current.includes(diet) ? current.filter(value => value !== diet) : [...current, diet];
+      const updated: TravelPreferences = { ...prev, dietary: DIETARY_NEED_VALUES.filter(value => toggled.includes(value)) };
+      if (toggled.length === 0) {
+        delete updated.dietary;
+      }
+      return updated;
+    });
+  };
+
+  // Removing all but one city turns the trip back into a one-city trip
+  const handleRemoveLeg = (index: number) => {
+    setPreferences(prev => {
+      const remaining = (prev.legs ?? []).filter((_, legIndex) => legIndex !== index);
+      if (remaining.length > 1) {
+        return withLegTotals({ ...prev, legs: remaining });
+      }
+      const single: TravelPreferences = { ...prev, destination: remaining[0]?.destination ?? '', duration: remaining[0]?.nights ?? prev.duration };
+      delete single.legs;
+      return single;
+    });
+  };
+
+  // Badge for a field pre-filled from a chat request; optional fields are only marked when inferred
+  const renderFieldSource = (field: keyof TravelPreferences, optional = false) => {
+    if (!draft) return null;
+    if (draft.inferredFields.includes(field)) return <FieldSourceBadge source="inferred" />;
+    if (optional) return null;
+    return <FieldSourceBadge source={field === 'destination' ? 'missing' : 'default'} />;
+  };
 
   const handleInterestToggle = (interest: string) => {
     setPreferences(prev => ({
@@ -41,24 +182,18 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
     }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!preferences.destination.trim()) {
+    if (!preferences.destination.trim() || legs.some(leg => !leg.destination.trim())) {
       alert('Please tell me your destination before generating an itinerary!');
       return;
     }
-
-    setIsGenerating(true);
-    try {
-      const itinerary = await geminiAgent.generateItinerary(preferences);
-      onItineraryGenerated(itinerary);
-    } catch (error) {
-      console.error('Error generating itinerary:', error);
-      // Provide more specific feedback than a generic alert
-      alert('Oops! There was an issue generating your itinerary. Please check your internet connection or try adjusting your preferences and try again.');
-    } finally {
-      setIsGenerating(false);
+    if (getPartySize(party) < 1) {
+      alert('Please tell me who is travelling before generating an itinerary!');
+      return;
     }
+
+    onGenerateItinerary(withLegTotals(preferences));
   };
 
   return (
@@ -94,6 +229,28 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
           </div>
         </div>
 
+        {/* Error from the previous generation attempt */}
+        {generationError != null && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl flex items-start space-x-3" role="alert">
+            <AlertTriangle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-red-800 text-sm font-semibold">{getGenerationErrorDetails(generationError).title}</p>
+              <p className="text-red-700 text-sm">{getGenerationErrorDetails(generationError).message}</p>
+            </div>
+          </div>
+        )}
+
+        {/* What was pre-filled from the chat request */}
+        {draft && (
+          <div className="mb-6 p-4 bg-sky-50 border border-sky-200 rounded-xl flex items-start space-x-3">
+            <Info className="h-5 w-5 text-sky-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm text-sky-800">
+              <p>I pre-filled this form from your request: <span className="italic">"{draft.query}"</span></p>
+              <p className="mt-1">Fields marked "From your request" are what I understood; the others hold defaults. Check them, then generate.</p>
+            </div>
+          </div>
+        )}
+
         {/* Planning Form */}
         <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-xl p-8 space-y-8">
           {/* Destination */}
@@ -101,17 +258,78 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
             <label htmlFor="destination-input" className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
               <MapPin className="h-5 w-5 text-sky-500" />
               <span>Where would you like to go? <span className="text-red-500">*</span></span> {/* Added required indicator */}
+              {renderFieldSource(multiCity ? 'legs' : 'destination')}
             </label>
-            <input
-              id="destination-input" // Added id for label association
-              type="text"
-              value={preferences.destination}
-              onChange={(e) => setPreferences(prev => ({ ...prev, destination: e.target.value }))}
-              placeholder="e.g., Tokyo, Japan or Paris, France"
-              className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-transparent transition-all duration-200 outline-none" // Added outline-none
-              required
-              aria-required="true" // Added for accessibility
-            />
+            {multiCity ? (
+              // Multi-city: one row per city, in travel order; the trip length is the sum of the stays
+              <div className="space-y-3">
+                {legs.map((leg, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-3 items-center">
+                    <span className="col-span-1 text-center text-sm font-semibold text-slate-500">{index + 1}.</span>
+                    <input
+                      type="text"
+                      value={leg.destination}
+                      onChange={(e) => handleLegChange(index, { destination: e.target.value })}
+                      placeholder={index === 0 ? 'e.g., Tokyo, Japan' : 'e.g., Kyoto, Japan'}
+                      className="col-span-5 px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-transparent transition-all duration-200 outline-none"
+                      required
+                      aria-label={`City ${index + 1}`}
+                    />
+                    <select
+                      value={leg.nights}
+                      onChange={(e) => handleLegChange(index, { nights: parseInt(e.target.value) })}
+                      className="col-span-2 px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-transparent transition-all duration-200 outline-none"
+                      aria-label={`Days in city ${index + 1}`}
+                    >
+                      {[...Array(Math.max(14, leg.nights))].map((_, i) => (
+                        <option key={i + 1} value={i + 1}>
+                          {i + 1} {i + 1 === 1 ? 'day' : 'days'}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={leg.accommodation || ''}
+                      onChange={(e) => handleLegChange(index, { accommodation: (e.target.value || undefined) as TripLeg['accommodation'] })}
+                      className="col-span-3 px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-transparent transition-all duration-200 outline-none"
+                      aria-label={`Accommodation in city ${index + 1}`}
+                    >
+                      <option value="">Preferred stay</option>
+                      <option value="hostel">Hostel</option>
+                      <option value="hotel">Hotel</option>
+                      <option value="resort">Resort</option>
+                      <option value="airbnb">Airbnb</option>
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveLeg(index)}
+                      className="col-span-1 flex justify-center text-slate-400 hover:text-red-500 transition-colors duration-200"
+                      aria-label={`Remove city ${index + 1}`}
+                    >
+                      <X className="h-5 w-5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <input
+                id="destination-input" // Added id for label association
+                type="text"
+                value={preferences.destination}
+                onChange={(e) => setPreferences(prev => ({ ...prev, destination: e.target.value }))}
+                placeholder="e.g., Tokyo, Japan or Paris, France"
+                className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-transparent transition-all duration-200 outline-none" // Added outline-none
+                required
+                aria-required="true" // Added for accessibility
+              />
+            )}
+            <button
+              type="button"
+              onClick={handleAddLeg}
+              className="mt-3 inline-flex items-center space-x-2 text-sm text-sky-600 hover:text-sky-700 font-medium transition-colors duration-200"
+            >
+              <PlusCircle className="h-4 w-4" />
+              <span>{multiCity ? 'Add another city' : 'Visit more than one city'}</span>
+            </button>
           </div>
 
           {/* Start Date and Trip Duration */}
@@ -120,6 +338,7 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
               <label htmlFor="start-date-input" className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
                 <Calendar className="h-5 w-5 text-emerald-500" />
                 <span>Start Date (Optional)</span>
+                {renderFieldSource('startDate', true)}
               </label>
               <input
                 id="start-date-input" // Added id for label association
@@ -134,14 +353,18 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
               <label htmlFor="duration-select" className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
                 <Calendar className="h-5 w-5 text-emerald-500" />
                 <span>Trip Duration</span>
+                {renderFieldSource('duration')}
               </label>
+              {/* A multi-city trip's length follows from the days in each city */}
               <select
                 id="duration-select" // Added id for label association
                 value={preferences.duration}
                 onChange={(e) => setPreferences(prev => ({ ...prev, duration: parseInt(e.target.value) }))}
-                className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all duration-200 outline-none"
+                disabled={multiCity}
+                className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all duration-200 outline-none disabled:bg-slate-100 disabled:text-slate-500"
               >
-                {[...Array(14)].map((_, i) => (
+                {/* Longer trips understood from a chat request stay selectable */}
+                {[...Array(Math.max(14, preferences.duration))].map((_, i) => (
                   <option key={i + 1} value={i + 1}>
                     {i + 1} {i + 1 === 1 ? 'day' : 'days'}
                   </option>
@@ -150,36 +373,141 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
             </div>
           </div>
 
-          {/* Group Size */}
+          {/* Group Size, by age band */}
           <div>
-            <label htmlFor="group-size-select" className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
+            <div className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
               <Users className="h-5 w-5 text-purple-500" />
-              <span>Group Size</span>
-            </label>
-            <select
-              id="group-size-select" // Added id for label association
-              value={preferences.groupSize}
-              onChange={(e) => setPreferences(prev => ({ ...prev, groupSize: parseInt(e.target.value) }))}
-              className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 outline-none"
-            >
-              {[...Array(10)].map((_, i) => (
-                <option key={i + 1} value={i + 1}>
-                  {i + 1} {i + 1 === 1 ? 'person' : 'people'}
-                </option>
+              <span>Who's Travelling</span>
+              {renderFieldSource('groupSize')}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {PARTY_BANDS.map(band => (
+                <div key={band}>
+                  <label htmlFor={`party-${band}-select`} className="block text-sm font-medium text-slate-600 mb-2">
+                    {AGE_BANDS[band].label} ({AGE_BANDS[band].ages})
+                  </label>
+                  <select
+                    id={`party-${band}-select`}
+                    value={countBand(party, band)}
+                    onChange={(e) => handlePartyCountChange(band, parseInt(e.target.value))}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 outline-none"
+                  >
+                    {[...Array(11)].map((_, i) => (
+                      <option key={i} value={i}>{i}</option>
+                    ))}
+                  </select>
+                </div>
               ))}
-            </select>
+            </div>
+            {party.children > 0 && (
+              <div className="mt-4">
+                <label htmlFor="child-ages-input" className="block text-sm font-medium text-slate-600 mb-2">
+                  Children's ages (optional)
+                </label>
+                <input
+                  id="child-ages-input"
+                  type="text"
+                  value={childAgesText}
+                  onChange={(e) => handleChildAgesChange(e.target.value)}
+                  placeholder="e.g., 4, 7"
+                  className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-200 outline-none"
+                />
+                <p className="text-sm text-slate-500 mt-2">
+                  Used to skip activities with an age limit. Without ages, every activity with one is skipped.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Accessibility: needs every activity should meet, and a daily walking limit */}
+          <div>
+            <div className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
+              <Accessibility className="h-5 w-5 text-indigo-500" />
+              <span>Accessibility (Optional)</span>
+              {renderFieldSource('accessibility', true)}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {ACCESSIBILITY_NEED_VALUES.map(need => (
+                <button
+                  key={need}
+                  type="button"
+                  onClick={() => handleAccessibilityNeedToggle(need)}
+                  className={`p-3 border-2 rounded-xl text-left transition-all duration-200 ${
+                    preferences.accessibility?.needs.includes(need)
+                      ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                      : 'border-slate-200 hover:border-slate-300 text-slate-600 hover:bg-slate-50'
+                  }`}
+                  role="checkbox"
+                  aria-checked={preferences.accessibility?.needs.includes(need) ?? false}
+                  aria-label={`Toggle accessibility need: ${ACCESSIBILITY_NEEDS[need].label}`}
+                >
+                  <div className="font-medium">{ACCESSIBILITY_NEEDS[need].label}</div>
+                  <div className="text-sm opacity-75">{ACCESSIBILITY_NEEDS[need].description}</div>
+                </button>
+              ))}
+            </div>
+            <div className="mt-4">
+              <label htmlFor="max-walking-input" className="block text-sm font-medium text-slate-600 mb-2">
+                Most walking per day, in km
+              </label>
+              <input
+                id="max-walking-input"
+                type="number"
+                min={0}
+                step={0.5}
+                value={preferences.accessibility?.maxWalkingKm ?? ''}
+                onChange={(e) => handleMaxWalkingChange(e.target.value ? parseFloat(e.target.value) : undefined)}
+                placeholder="No limit"
+                className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 outline-none"
+              />
+            </div>
+            <p className="text-sm text-slate-500 mt-2">
+              Activities known not to meet a need are left out; days that may not meet one are flagged in the itinerary.
+            </p>
+          </div>
+
+          {/* Diet: every suggested meal and dining activity caters for it */}
+          <div>
+            <div className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
+              <Utensils className="h-5 w-5 text-rose-500" />
+              <span>Dietary Needs (Optional)</span>
+              {renderFieldSource('dietary', true)}
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {DIETARY_NEED_VALUES.map(diet => (
+                <button
+                  key={diet}
+                  type="button"
+                  onClick={() => handleDietToggle(diet)}
+                  className={`px-4 py-2 border-2 rounded-xl text-sm font-medium transition-all duration-200 ${
+                    preferences.dietary?.includes(diet)
+                      ? 'border-rose-500 bg-rose-50 text-rose-700'
+                      : 'border-slate-200 hover:border-slate-300 text-slate-600 hover:bg-slate-50'
+                  }`}
+                  role="checkbox"
+                  aria-checked={preferences.dietary?.includes(diet) ?? false}
+                  aria-label={`Toggle diet: ${DIETARY_NEEDS[diet].label}`}
+                >
+                  {DIETARY_NEEDS[diet].label}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-slate-500 mt-2">
+              Breakfast, lunch and dinner are planned every day near your activities; suggested places cater for these diets.
+            </p>
           </div>
 
           {/* Special Requests */}
           <div>
             <label htmlFor="special-requests-textarea" className="text-lg font-semibold text-slate-800 mb-4 block">
               Special Requests or Preferences (Optional)
+              {renderFieldSource('specificRequests', true)}
             </label>
             <textarea
               id="special-requests-textarea" // Added id for label association
               value={preferences.specificRequests || ''}
               onChange={(e) => setPreferences(prev => ({ ...prev, specificRequests: e.target.value }))}
-              placeholder="e.g., vegetarian food options, accessible venues, romantic spots, family-friendly activities..."
+              placeholder="e.g., romantic spots, family-friendly activities, rooftop views..."
               rows={3}
               className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-transparent transition-all duration-200 resize-none outline-none"
             />
@@ -190,19 +518,16 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
             <label className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
               <DollarSign className="h-5 w-5 text-green-500" />
               <span>Budget Range</span>
+              {renderFieldSource('budget')}
             </label>
             <div role="radiogroup" aria-labelledby="budget-label" className="grid grid-cols-3 gap-4"> {/* Added ARIA role */}
               {/* Invisible label for ARIA */}
               <span id="budget-label" className="sr-only">Select your budget range</span>
-              {[
-                { value: 'budget', label: 'Budget', desc: 'Economical options' },
-                { value: 'mid-range', label: 'Mid-Range', desc: 'Balanced comfort & cost' },
-                { value: 'luxury', label: 'Luxury', desc: 'Premium experiences' }
-              ].map((option) => (
+              {BUDGET_TIERS.map((option) => (
                 <button
                   key={option.value}
                   type="button"
-                  onClick={() => setPreferences(prev => ({ ...prev, budget: option.value as any }))} // Type assertion for budget
+                  onClick={() => setPreferences(prev => ({ ...prev, budget: option.value }))}
                   className={`p-4 border-2 rounded-xl text-center transition-all duration-200 ${
                     preferences.budget === option.value
                       ? 'border-green-500 bg-green-50 text-green-700'
@@ -210,50 +535,111 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
                   }`}
                   role="radio" // Added ARIA role
                   aria-checked={preferences.budget === option.value} // Added ARIA checked state
-                  aria-label={`${option.label} budget: ${option.desc}`} // Enhanced ARIA label
+                  aria-label={`${option.label} budget: ${option.description}`} // Enhanced ARIA label
                 >
                   <div className="font-semibold">{option.label}</div>
-                  <div className="text-sm opacity-75">{option.desc}</div>
+                  <div className="text-sm opacity-75">{option.description}</div>
                 </button>
               ))}
             </div>
           </div>
 
+          {/* Total Budget Cap: a hard limit the generated plan is fitted to */}
+          <div>
+            <label htmlFor="budget-cap-input" className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
+              <DollarSign className="h-5 w-5 text-green-500" />
+              <span>Total Budget (Optional)</span>
+              {renderFieldSource('budgetCap', true)}
+            </label>
+            <div className="grid grid-cols-3 gap-4">
+              <input
+                id="budget-cap-input"
+                type="number"
+                min={0}
+                step={50}
+                value={preferences.budgetCap?.amount ?? ''}
+                onChange={(e) => handleBudgetCapChange(e.target.value ? parseFloat(e.target.value) : undefined, capCurrency)}
+                placeholder="e.g., 2000"
+                className="col-span-2 px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200 outline-none"
+              />
+              <select
+                value={capCurrency}
+                onChange={(e) => handleBudgetCapChange(preferences.budgetCap?.amount, e.target.value as CurrencyCode)}
+                className="px-3 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200 outline-none"
+                aria-label="Budget currency"
+              >
+                {(Object.keys(CURRENCIES) as CurrencyCode[]).map(code => (
+                  <option key={code} value={code}>{CURRENCIES[code].symbol} {code}</option>
+                ))}
+              </select>
+            </div>
+            <p className="mt-2 text-sm text-slate-500">
+              For the whole group and the whole trip: stays, meals, local transport, activities and transfers. Activities are trimmed to stay within it.
+            </p>
+          </div>
+
           {/* Travel Style */}
           <div>
-            <label className="text-lg font-semibold text-slate-800 mb-4 block">Travel Style</label>
+            <label className="text-lg font-semibold text-slate-800 mb-4 block">Travel Style {renderFieldSource('travelStyle')}</label>
             <div role="radiogroup" aria-labelledby="travel-style-label" className="grid grid-cols-3 gap-4"> {/* Added ARIA role */}
               {/* Invisible label for ARIA */}
               <span id="travel-style-label" className="sr-only">Select your preferred travel style</span>
-              {[
-                { value: 'relaxed', label: 'Relaxed', desc: 'Slow pace, plenty of rest' },
-                { value: 'moderate', label: 'Moderate', desc: 'Balanced activities & downtime' },
-                { value: 'packed', label: 'Packed', desc: 'Action-packed, see everything' }
-              ].map((option) => (
+              {(Object.keys(TRAVEL_STYLES) as TravelPreferences['travelStyle'][]).map((value) => (
                 <button
-                  key={option.value}
+                  key={value}
                   type="button"
-                  onClick={() => setPreferences(prev => ({ ...prev, travelStyle: option.value as any }))} // Type assertion for travelStyle
+                  onClick={() => setPreferences(prev => ({ ...prev, travelStyle: value }))}
                   className={`p-4 border-2 rounded-xl text-center transition-all duration-200 ${
-                    preferences.travelStyle === option.value
+                    preferences.travelStyle === value
                       ? 'border-sky-500 bg-sky-50 text-sky-700'
                       : 'border-slate-200 hover:border-slate-300 text-slate-600'
                   }`}
                   role="radio" // Added ARIA role
-                  aria-checked={preferences.travelStyle === option.value} // Added ARIA checked state
-                  aria-label={`${option.label} travel style: ${option.desc}`} // Enhanced ARIA label
+                  aria-checked={preferences.travelStyle === value} // Added ARIA checked state
+                  aria-label={`${TRAVEL_STYLES[value].label} travel style: ${TRAVEL_STYLES[value].description}`} // Enhanced ARIA label
                 >
-                  <div className="font-semibold">{option.label}</div>
-                  <div className="text-sm opacity-75">{option.desc}</div>
+                  <div className="font-semibold">{TRAVEL_STYLES[value].label}</div>
+                  <div className="text-sm opacity-75">{TRAVEL_STYLES[value].description}</div>
                 </button>
               ))}
             </div>
           </div>
 
+          {/* Daily Hours: bounds the scheduler fits each day's activities into */}
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <label htmlFor="day-start-input" className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
+                <Clock className="h-5 w-5 text-sky-500" />
+                <span>Start Days At</span>
+              </label>
+              <input
+                id="day-start-input"
+                type="time"
+                value={preferences.dayStart || DEFAULT_SCHEDULE_OPTIONS.dayStart}
+                onChange={(e) => setPreferences(prev => ({ ...prev, dayStart: e.target.value || undefined }))}
+                className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-transparent transition-all duration-200 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="day-end-input" className="flex items-center space-x-2 text-lg font-semibold text-slate-800 mb-4">
+                <Clock className="h-5 w-5 text-sky-500" />
+                <span>End Days By</span>
+              </label>
+              <input
+                id="day-end-input"
+                type="time"
+                value={preferences.dayEnd || DEFAULT_SCHEDULE_OPTIONS.dayEnd}
+                onChange={(e) => setPreferences(prev => ({ ...prev, dayEnd: e.target.value || undefined }))}
+                className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-transparent transition-all duration-200 outline-none"
+              />
+            </div>
+          </div>
+
           {/* Interests */}
           <div>
             <label className="text-lg font-semibold text-slate-800 mb-4 block">
               What interests you? (Select all that apply)
+              {renderFieldSource('interests', true)}
             </label>
             <div role="group" aria-labelledby="interests-label" className="grid grid-cols-2 md:grid-cols-3 gap-3"> {/* Added ARIA role */}
               {/* Invisible label for ARIA */}
@@ -280,7 +666,7 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
 
           {/* Accommodation */}
           <div>
-            <label className="text-lg font-semibold text-slate-800 mb-4 block">Preferred Accommodation</label>
+            <label className="text-lg font-semibold text-slate-800 mb-4 block">Preferred Accommodation {renderFieldSource('accommodation')}</label>
             <div role="radiogroup" aria-labelledby="accommodation-label" className="grid grid-cols-2 md:grid-cols-4 gap-4"> {/* Added ARIA role */}
               {/* Invisible label for ARIA */}
               <span id="accommodation-label" className="sr-only">Select your preferred accommodation type</span>
@@ -313,21 +699,12 @@ const PlanningForm: React.FC<PlanningFormProps> = ({
           <div className="pt-6">
             <button
               type="submit"
-              disabled={isGenerating || !preferences.destination.trim()}
+              disabled={!preferences.destination.trim()}
               className="w-full bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-4 px-8 rounded-xl shadow-lg hover:shadow-xl transform hover:scale-[1.02] transition-all duration-300 flex items-center justify-center space-x-3"
-              aria-label={isGenerating ? "Generating itinerary" : "Generate my itinerary"} // Dynamic aria-label
+              aria-label="Generate my itinerary"
             >
-              {isGenerating ? (
-                <>
-                  <div className="animate-spin h-5 w-5 border-2 border-white border-t-transparent rounded-full" role="status"></div> {/* Added ARIA role */}
-                  <span>Generating Your Perfect Itinerary...</span>
-                </>
-              ) : (
-                <>
-                  <Sparkles className="h-5 w-5" />
-                  <span>Generate My Itinerary</span>
-                </>
-              )}
+              <Sparkles className="h-5 w-5" />
+              <span>Generate My Itinerary</span>
             </button>
           </div>
         </form>
@@ -0,0 +1,34 @@
+import React, { useState } from 'react';
+import { Cpu } from 'lucide-react';
+import { listItineraryProviders, getActiveProviderId, setActiveProvider } from '../services/itineraryProvider';
+
+const ProviderSelector: React.FC = () => {
+  const [activeId, setActiveId] = useState(getActiveProviderId());
+  const providers = listItineraryProviders();
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setActiveProvider(e.target.value);
+    setActiveId(e.target.value);
+  };
+
+  return (
+    <label className="flex items-center space-x-1 px-3 py-2 text-slate-600 bg-slate-100 rounded-lg">
+      <Cpu className="h-4 w-4" />
+      <span className="sr-only">Itinerary provider</span>
+      <select
+        value={activeId}
+        onChange={handleChange}
+        className="bg-transparent text-sm font-medium outline-none cursor-pointer"
+        aria-label="Choose which planner generates itineraries"
+      >
+        {providers.map((provider) => (
+          <option key={provider.id} value={provider.id}>
+            {provider.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ProviderSelector;
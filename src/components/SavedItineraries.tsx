@@ -1,5 +1,7 @@
 import React from 'react';
 import { TravelPlan } from '../types/travel'; // Adjust path if types/travel.ts is elsewhere
+import { getCostBreakdown } from '../services/costModel';
+import { describeParty } from '../services/party';
 // import { Button } from './ui/button'; // REMOVED: This import is no longer needed
 
 interface SavedItinerariesProps {
@@ -42,35 +44,38 @@ const SavedItineraries: React.FC<SavedItinerariesProps> = ({
         </div>
       ) : (
         <div className="grid grid-cols-1 gap-6">
-          {savedItineraries.map((itinerary) => (
-            <div key={itinerary.id} className="bg-white p-6 rounded-lg shadow-md flex justify-between items-center transition transform hover:scale-[1.01] hover:shadow-lg">
-              <div>
-                <h3 className="text-xl font-semibold text-blue-700">{itinerary.destination}</h3>
-                <p className="text-gray-600 text-sm mt-1">
-                  {itinerary.duration} days | Budget: ${itinerary.totalBudget.toLocaleString()} | Group Size: {itinerary.preferences.groupSize}
-                </p>
-                <p className="text-gray-500 text-xs mt-1">
-                  Saved on: {itinerary.id ? new Date(parseInt(itinerary.id)).toLocaleDateString() : 'N/A'}
-                </p>
+          {savedItineraries.map((itinerary) => {
+            const costs = getCostBreakdown(itinerary);
+            return (
+              <div key={itinerary.id} className="bg-white p-6 rounded-lg shadow-md flex justify-between items-center transition transform hover:scale-[1.01] hover:shadow-lg">
+                <div>
+                  <h3 className="text-xl font-semibold text-blue-700">{itinerary.destination}</h3>
+                  <p className="text-gray-600 text-sm mt-1">
+                    {itinerary.duration} days | Est. cost: ${costs.totalPerGroup.toLocaleString()} (${costs.totalPerPerson.toLocaleString()} per person) | {itinerary.preferences.party ? describeParty(itinerary.preferences.party) : `Group Size: ${itinerary.preferences.groupSize}`}
+                  </p>
+                  <p className="text-gray-500 text-xs mt-1">
+                    Saved on: {itinerary.id ? new Date(parseInt(itinerary.id)).toLocaleDateString() : 'N/A'}
+                  </p>
+                </div>
+                <div className="flex space-x-3">
+                  {/* Replaced <Button> with native <button> */}
+                  <button
+                    onClick={() => handleView(itinerary)}
+                    className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg"
+                  >
+                    View
+                  </button>
+                  {/* Replaced <Button> with native <button> */}
+                  <button
+                    onClick={() => onDeleteItinerary(itinerary.id!)} // Assuming ID will always be present for saved items
+                    className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg"
+                  >
+                    Delete
+                  </button>
+                </div>
               </div>
-              <div className="flex space-x-3">
-                {/* Replaced <Button> with native <button> */}
-                <button
-                  onClick={() => handleView(itinerary)}
-                  className="bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg"
-                >
-                  View
-                </button>
-                {/* Replaced <Button> with native <button> */}
-                <button
-                  onClick={() => onDeleteItinerary(itinerary.id!)} // Assuming ID will always be present for saved items
-                  className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded-lg"
-                >
-                  Delete
-                </button>
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,101 @@
+import { AccessibilityNeed, AccessibilityPreferences, AccessibilityWarning, Activity, DayPlan } from '../types/travel';
+import { ACCESSIBILITY_NEEDS } from './taxonomy';
+
+/** Needs in listing order: step-free access, strollers, hearing aids, visual aids. */
+export const ACCESSIBILITY_NEED_VALUES = Object.keys(ACCESSIBILITY_NEEDS) as AccessibilityNeed[];
+
+// Daily walking assumed for "limited walking" when no distance is given
+const LIMITED_WALKING_KM = 2;
+
+const NEED_PHRASES: [RegExp, AccessibilityNeed][] = [
+  [/\b(?:wheelchairs?|step[- ]free|no (?:stairs|steps)|mobility (?:aids?|issues?|scooters?)|walkers?)\b/, 'stepFree'],
+  [/\b(?:strollers?|prams?|pushchairs?|buggy)\b/, 'stroller'],
+  [/\b(?:hearing|deaf|sign language)\b/, 'hearingAids'],
+  [/\b(?:visual aids?|visually impaired|blind|low vision|partially sighted)\b/, 'visualAids'],
+];
+
+const lowerLabel = (need: AccessibilityNeed): string => ACCESSIBILITY_NEEDS[need].label.toLowerCase();
+
+/**
+ * Reads accessibility needs from text such as "wheelchair accessible", "we have a stroller" or
+ * "walking no more than 3 km a day". "Limited walking" without a distance means 2 km a day.
+ * Undefined when nothing is mentioned.
+ */
+export const parseAccessibility = (text: string): AccessibilityPreferences | undefined => {
+  const lowerText = text.toLowerCase();
+  const needs = NEED_PHRASES.filter(([pattern]) => pattern.test(lowerText)).map(([, need]) => need);
+  const walkingLimit = lowerText.match(/\bwalk(?:ing)?\s+(?:no more than|at most|under|less than|up to|max(?:imum)?(?: of)?)\s*(\d+(?:\.\d+)?)\s*(?:km|kilomet(?:er|re)s?)\b/);
+  const limitedWalking = /\b(?:limited walking|little walking|short walks|can'?t walk (?:far|much)|cannot walk (?:far|much)|not walk (?:far|much))\b/.test(lowerText);
+  const maxWalkingKm = walkingLimit ? parseFloat(walkingLimit[1]) : limitedWalking ? LIMITED_WALKING_KM : undefined;
+  if (needs.length === 0 && maxWalkingKm === undefined) {
+    return undefined;
+  }
+  return maxWalkingKm !== undefined ? { needs, maxWalkingKm } : { needs };
+};
+
+/** Whether the traveller asked for anything accessibility-related. */
+export const hasAccessibilityNeeds = (accessibility: AccessibilityPreferences | undefined): accessibility is AccessibilityPreferences =>
+  !!accessibility && (accessibility.needs.length > 0 || accessibility.maxWalkingKm !== undefined);
+
+/** "Step-free access, stroller access; at most 2 km of walking a day" */
+export const describeAccessibility = (accessibility: AccessibilityPreferences): string => {
+  const needs = accessibility.needs.map(lowerLabel).join(', ');
+  const walking = accessibility.maxWalkingKm !== undefined ? `at most ${accessibility.maxWalkingKm} km of walking a day` : '';
+  const description = [needs, walking].filter(Boolean).join('; ');
+  return description.charAt(0).toUpperCase() + description.slice(1);
+};
+
+/** The traveller's needs the activity is known not to meet. */
+export const findUnmetNeeds = (activity: Pick<Activity, 'accessibility'>, accessibility: AccessibilityPreferences | undefined): AccessibilityNeed[] =>
+  accessibility?.needs.filter(need => activity.accessibility?.[need] === false) ?? [];
+
+/** The traveller's needs the activity is not known to meet either way. */
+export const findUnconfirmedNeeds = (activity: Activity, accessibility: AccessibilityPreferences | undefined): AccessibilityNeed[] =>
+  accessibility?.needs.filter(need => activity.accessibility?.[need] === undefined) ?? [];
+
+/**
+ * Whether the activity may be planned for the traveller: it meets every need or is not known to
+ * fail one, and its own walking fits within the daily limit.
+ */
+export const isAccessibleFor = (activity: Pick<Activity, 'accessibility'>, accessibility: AccessibilityPreferences | undefined): boolean =>
+  findUnmetNeeds(activity, accessibility).length === 0 &&
+  (accessibility?.maxWalkingKm === undefined || (activity.accessibility?.walkingKm ?? 0) <= accessibility.maxWalkingKm);
+
+/** Whether the activity is known to meet every one of the traveller's needs. */
+export const meetsAllNeeds = (activity: Activity, accessibility: AccessibilityPreferences | undefined): boolean =>
+  !!accessibility && accessibility.needs.length > 0 && accessibility.needs.every(need => activity.accessibility?.[need] === true);
+
+/** Walking planned for the day, in km: the walks between stops plus walking within activities. */
+export const getDayWalkingKm = (day: DayPlan): number =>
+  Math.round(day.activities.reduce((total, activity) =>
+    total + (activity.travelFromPrevious?.mode === 'walk' ? activity.travelFromPrevious.distanceKm : 0) + (activity.accessibility?.walkingKm ?? 0), 0) * 10) / 10;
+
+/**
+ * Checks the day's activities against the traveller's accessibility needs, and its walking
+ * against their daily limit, and records the result in `accessibilityWarnings`. Activities that
+ * are known not to meet a need and needs that are not confirmed either way are both listed.
+ */
+export const checkDayAccessibility = (day: DayPlan, accessibility: AccessibilityPreferences | undefined): DayPlan => {
+  const warnings: AccessibilityWarning[] = [];
+  for (const activity of day.activities) {
+    const unmet = findUnmetNeeds(activity, accessibility);
+    if (unmet.length > 0) {
+      warnings.push({ activityId: activity.id, kind: 'unmet', message: `"${activity.name}" does not offer ${unmet.map(lowerLabel).join(' or ')}.` });
+    }
+    const unconfirmed = findUnconfirmedNeeds(activity, accessibility);
+    if (unconfirmed.length > 0) {
+      warnings.push({ activityId: activity.id, kind: 'unknown', message: `Check ${unconfirmed.map(lowerLabel).join(' and ')} at "${activity.name}" before you go.` });
+    }
+  }
+  const walkingKm = getDayWalkingKm(day);
+  if (accessibility?.maxWalkingKm !== undefined && walkingKm > accessibility.maxWalkingKm) {
+    warnings.push({ kind: 'walking', message: `About ${walkingKm} km of walking, more than your ${accessibility.maxWalkingKm} km a day.` });
+  }
+  // Warnings from an earlier check of the day no longer apply
+  const checked: DayPlan = { ...day };
+  delete checked.accessibilityWarnings;
+  if (warnings.length > 0) {
+    checked.accessibilityWarnings = warnings;
+  }
+  return checked;
+};
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateItinerary } from './aiService';
+import { getCostBreakdown } from './costModel';
+import { TravelPlan, TravelPreferences } from '../types/travel';
+
+// Booking lead times are counted from today, so every plan here is made on the same day
+const TODAY = new Date(2026, 2, 1, 10, 0);
+
+const kyotoSoon: TravelPreferences = {
+  destination: 'Kyoto',
+  duration: 3,
+  budget: 'budget',
+  interests: [],
+  travelStyle: 'moderate',
+  groupSize: 2,
+  accommodation: 'hotel',
+  startDate: '2026-03-02',
+};
+
+const parisUndated: TravelPreferences = {
+  destination: 'Paris',
+  duration: 3,
+  budget: 'mid-range',
+  interests: [],
+  travelStyle: 'packed',
+  groupSize: 1,
+  accommodation: 'hotel',
+};
+
+const tokyoToKyoto: TravelPreferences = {
+  destination: 'Tokyo → Kyoto',
+  duration: 4,
+  budget: 'mid-range',
+  interests: [],
+  travelStyle: 'relaxed',
+  groupSize: 2,
+  accommodation: 'hotel',
+  startDate: '2026-04-06',
+  legs: [{ destination: 'Tokyo', nights: 2 }, { destination: 'Kyoto', nights: 2 }],
+};
+
+// The per-day delays of the offline generator run on fake timers, and each plan starts at TODAY
+const generate = async (preferences: TravelPreferences, seed: number): Promise<TravelPlan> => {
+  vi.setSystemTime(TODAY);
+  const plan = generateItinerary(preferences, { seed });
+  await vi.runAllTimersAsync();
+  return plan;
+};
+
+// What a traveller would see of the plan: each day's date and timed activities, and the total
+const summarize = (plan: TravelPlan) => ({
+  seed: plan.seed,
+  totalBudget: plan.totalBudget,
+  days: plan.days.map(day => ({
+    date: day.date,
+    activities: day.activities.map(activity => `${activity.startTime}-${activity.endTime} ${activity.id}`),
+  })),
+});
+
+describe('generateItinerary with a seed', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    ['a dated Kyoto trip starting tomorrow', kyotoSoon, 7],
+    ['an undated Paris trip', parisUndated, 42],
+    ['a Tokyo and Kyoto trip', tokyoToKyoto, 2026],
+  ])('plans %s the same way every time', async (_, preferences, seed) => {
+    const plan = await generate(preferences, seed);
+
+    expect(await generate(preferences, seed)).toEqual(plan);
+    expect(summarize(plan)).toMatchSnapshot();
+  });
+
+  it('chooses activities within a budget cap and spreads them over the days', async () => {
+    const plan = await generate({ ...parisUndated, budgetCap: { amount: 600, currency: 'USD' } }, 42);
+
+    expect(getCostBreakdown(plan).totalPerGroup).toBeLessThanOrEqual(600);
+    expect(plan.budgetAdjustments).toBeUndefined();
+    expect(plan.days.every(day => day.activities.length > 0)).toBe(true);
+  });
+
+  it('plans differently with another seed', async () => {
+    const plans = [await generate(parisUndated, 1), await generate(parisUndated, 2), await generate(parisUndated, 3)];
+
+    expect(new Set(plans.map(plan => JSON.stringify(summarize(plan).days))).size).toBeGreaterThan(1);
+  });
+});
@@ -1,364 +1,17 @@
-import { TravelPreferences, TravelPlan, DayPlan, Activity, NaturalLanguageQuery } from '../types/travel';
-
-// --- Mock Data: Expand with more destinations and activity types ---
-const allActivities: Activity[] = [
-  // Tokyo Activities
-  {
-    id: 'tokyo-1',
-    name: 'Visit Senso-ji Temple',
-    description: 'Explore Tokyo\'s oldest temple in the historic Asakusa district.',
-    duration: '2 hours',
-    category: 'culture',
-    tags: ['history', 'temple', 'sightseeing', 'walking'],
-    estimatedCost: 0, // Free entry
-    location: 'Asakusa',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'tokyo-2',
-    name: 'Tsukiji Outer Market Food Tour',
-    description: 'Experience the bustling outer market and enjoy fresh seafood and local delicacies.',
-    duration: '3 hours',
-    category: 'dining',
-    tags: ['food', 'market', 'local experiences'],
-    estimatedCost: 45,
-    location: 'Tsukiji',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'tokyo-3',
-    name: 'Tokyo Skytree Observatory',
-    description: 'Enjoy panoramic views of Tokyo from one of the world\'s tallest structures.',
-    duration: '2 hours',
-    category: 'sightseeing',
-    tags: ['views', 'modern', 'landmark'],
-    estimatedCost: 25,
-    location: 'Sumida',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'tokyo-4',
-    name: 'Shibuya Crossing & Hachiko Statue',
-    description: 'Witness the iconic Shibuya scramble crossing and visit the famous Hachiko statue.',
-    duration: '1.5 hours',
-    category: 'sightseeing',
-    tags: ['city life', 'iconic', 'walking'],
-    estimatedCost: 0,
-    location: 'Shibuya',
-    timeSlot: 'evening'
-  },
-  {
-    id: 'tokyo-5',
-    name: 'Ghibli Museum (Advance Booking Essential)',
-    description: 'Step into the magical world of Studio Ghibli, featuring exhibits and a short film.',
-    duration: '3 hours',
-    category: 'art',
-    tags: ['museum', 'anime', 'family', 'unique'],
-    estimatedCost: 10,
-    location: 'Mitaka',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'tokyo-6',
-    name: 'Akihabara Electric Town Exploration',
-    description: 'Dive into the heart of Tokyo\'s anime, manga, and electronics culture.',
-    duration: '3 hours',
-    category: 'shopping',
-    tags: ['anime', 'electronics', 'otaku', 'nightlife'],
-    estimatedCost: 10, // Cost for small purchases/arcade
-    location: 'Akihabara',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'tokyo-7',
-    name: 'Ueno Park & Museums',
-    description: 'Spend a relaxing day exploring major museums (Tokyo National Museum, National Museum of Nature and Science) and the park.',
-    duration: '4-5 hours',
-    category: 'culture',
-    tags: ['park', 'museums', 'art', 'nature'],
-    estimatedCost: 12, // Avg museum entry
-    location: 'Ueno',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'tokyo-8',
-    name: 'Harajuku Fashion & Takeshita Street',
-    description: 'Experience Tokyo\'s vibrant youth fashion and quirky shops.',
-    duration: '2 hours',
-    category: 'shopping',
-    tags: ['fashion', 'youth culture', 'street art'],
-    estimatedCost: 0,
-    location: 'Harajuku',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'tokyo-9',
-    name: 'Sumo Practice Viewing (seasonal)',
-    description: 'Witness sumo wrestlers training early in the morning.',
-    duration: '2 hours',
-    category: 'culture',
-    tags: ['sport', 'local experiences'],
-    estimatedCost: 0, // Sometimes requires small fee/guide
-    location: 'Ryogoku',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'tokyo-10',
-    name: 'Robot Restaurant Show (booking required)',
-    description: 'An over-the-top, dazzling show with robots, dancers, and neon lights. More of an experience than a meal.',
-    duration: '1.5 hours',
-    category: 'nightlife',
-    tags: ['entertainment', 'unique', 'quirky'],
-    estimatedCost: 75,
-    location: 'Shinjuku',
-    timeSlot: 'evening'
-  },
-  // Paris Activities
-  {
-    id: 'paris-1',
-    name: 'Eiffel Tower Ascent',
-    description: 'Ascend the iconic Eiffel Tower for breathtaking views of Paris.',
-    duration: '2 hours',
-    category: 'sightseeing',
-    tags: ['landmark', 'views', 'romantic'],
-    estimatedCost: 35,
-    location: 'Champ de Mars',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'paris-2',
-    name: 'Louvre Museum Tour',
-    description: 'Explore the world\'s largest art museum, home to the Mona Lisa and countless masterpieces.',
-    duration: '4 hours',
-    category: 'art',
-    tags: ['museum', 'history', 'culture'],
-    estimatedCost: 20,
-    location: 'Louvre',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'paris-3',
-    name: 'Seine River Cruise',
-    description: 'Enjoy a romantic boat cruise along the Seine, passing by illuminated landmarks.',
-    duration: '1.5 hours',
-    category: 'relaxation',
-    tags: ['romantic', 'sightseeing', 'evening'],
-    estimatedCost: 25,
-    location: 'Seine River',
-    timeSlot: 'evening'
-  },
-  {
-    id: 'paris-4',
-    name: 'French Cooking Class',
-    description: 'Learn to prepare classic French dishes in a hands-on culinary experience.',
-    duration: '3 hours',
-    category: 'dining',
-    tags: ['food', 'local experiences', 'interactive'],
-    estimatedCost: 85,
-    location: 'Le Marais',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'paris-5',
-    name: 'Montmartre Walking Tour & Sacré-Cœur',
-    description: 'Discover the artistic bohemian quarter, its charming streets, and the stunning Sacré-Cœur Basilica.',
-    duration: '3 hours',
-    category: 'culture',
-    tags: ['walking', 'art', 'views', 'history'],
-    estimatedCost: 15, // Optional guide/cable car
-    location: 'Montmartre',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'paris-6',
-    name: 'Versailles Palace & Gardens Day Trip',
-    description: 'Step back in time with a visit to the opulent palace and magnificent gardens of Versailles.',
-    duration: '6-7 hours',
-    category: 'culture',
-    tags: ['history', 'palace', 'gardens', 'day trip'],
-    estimatedCost: 45, // Entry + transport
-    location: 'Versailles',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'paris-7',
-    name: 'Musée d\'Orsay',
-    description: 'Explore a stunning collection of Impressionist and Post-Impressionist masterpieces housed in a former railway station.',
-    duration: '3 hours',
-    category: 'art',
-    tags: ['museum', 'impressionism', 'art'],
-    estimatedCost: 16,
-    location: 'Left Bank',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'paris-8',
-    name: 'Notre Dame Cathedral & Île de la Cité',
-    description: 'Visit the exterior of the iconic cathedral and explore the historic island.',
-    duration: '2 hours',
-    category: 'culture',
-    tags: ['landmark', 'history', 'architecture'],
-    estimatedCost: 0,
-    location: 'Île de la Cité',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'paris-9',
-    name: 'Le Marais District Exploration',
-    description: 'Wander through this fashionable district known for its historic architecture, boutiques, and trendy cafes.',
-    duration: '3 hours',
-    category: 'shopping',
-    tags: ['fashion', 'cafes', 'history', 'walking'],
-    estimatedCost: 0,
-    location: 'Le Marais',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'paris-10',
-    name: 'Cabaret Show at Moulin Rouge (booking essential)',
-    description: 'Experience a dazzling Parisian cabaret show at the legendary Moulin Rouge.',
-    duration: '3 hours',
-    category: 'nightlife',
-    tags: ['entertainment', 'show', 'luxury'],
-    estimatedCost: 120,
-    location: 'Montmartre',
-    timeSlot: 'evening'
-  },
-  // Goa Activities
-  {
-    id: 'goa-1',
-    name: 'Relax at Palolem Beach',
-    description: 'Enjoy the serene beauty of Palolem Beach, perfect for swimming and sunbathing.',
-    duration: '4 hours',
-    category: 'beach',
-    tags: ['relaxation', 'swimming', 'sunbath', 'family-friendly'],
-    estimatedCost: 0,
-    location: 'South Goa',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'goa-2',
-    name: 'Dudhsagar Waterfalls Trip',
-    description: 'Visit one of India\'s tallest waterfalls, often requiring a jeep safari through the Bhagwan Mahaveer Sanctuary.',
-    duration: '6 hours',
-    category: 'nature',
-    tags: ['adventure', 'nature', 'waterfall', 'sightseeing'],
-    estimatedCost: 50, // Includes jeep safari
-    location: 'Mollem',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'goa-3',
-    name: 'Old Goa Churches & Convents',
-    description: 'Explore the UNESCO World Heritage site with its magnificent Portuguese churches and convents.',
-    duration: '3 hours',
-    category: 'culture',
-    tags: ['history', 'architecture', 'religious sites'],
-    estimatedCost: 0,
-    location: 'Old Goa',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'goa-4',
-    name: 'Spice Plantation Tour',
-    description: 'Discover various spices, enjoy a traditional Goan lunch, and learn about organic farming.',
-    duration: '3 hours',
-    category: 'food',
-    tags: ['local experiences', 'nature', 'dining'],
-    estimatedCost: 25,
-    location: 'Ponda',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'goa-5',
-    name: 'Anjuna Flea Market (Wednesday only)',
-    description: 'Bargain for souvenirs, handicrafts, and clothes at this famous bohemian market.',
-    duration: '3 hours',
-    category: 'shopping',
-    tags: ['market', 'local experiences', 'unique'],
-    estimatedCost: 0,
-    location: 'Anjuna',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'goa-6',
-    name: 'Water Sports at Baga Beach',
-    description: 'Enjoy jet-skiing, parasailing, and banana boat rides at one of Goa\'s most popular beaches.',
-    duration: '3 hours',
-    category: 'adventure',
-    tags: ['beach', 'water sports', 'thrill'],
-    estimatedCost: 40, // Per activity
-    location: 'Baga',
-    timeSlot: 'morning'
-  },
-  // Manali Activities
-  {
-    id: 'manali-1',
-    name: 'Hadimba Devi Temple Visit',
-    description: 'Visit the unique wooden temple nestled amidst cedar forests, dedicated to Goddess Hadimba.',
-    duration: '1.5 hours',
-    category: 'culture',
-    tags: ['temple', 'history', 'architecture', 'religious sites'],
-    estimatedCost: 0,
-    location: 'Manali',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'manali-2',
-    name: 'Solang Valley Adventure',
-    description: 'Engage in paragliding, zorbing (seasonal), and ropeway rides with stunning mountain views.',
-    duration: '4 hours',
-    category: 'adventure',
-    tags: ['sports', 'thrill', 'views', 'nature'],
-    estimatedCost: 50, // Per activity
-    location: 'Solang Valley',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'manali-3',
-    name: 'Old Manali Exploration & Cafe Hopping',
-    description: 'Wander through the charming village, enjoy the hippie vibe, and try local and international cuisine at cafes.',
-    duration: '3 hours',
-    category: 'local experiences',
-    tags: ['food', 'culture', 'walking', 'relaxation'],
-    estimatedCost: 15, // For food
-    location: 'Old Manali',
-    timeSlot: 'afternoon'
-  },
-  {
-    id: 'manali-4',
-    name: 'Rohtang Pass Day Trip (seasonal, permits required)',
-    description: 'Experience snow-capped peaks and breathtaking landscapes (check accessibility and permits).',
-    duration: '6-8 hours',
-    category: 'nature',
-    tags: ['adventure', 'views', 'snow', 'day trip'],
-    estimatedCost: 70, // Includes transport & permit
-    location: 'Rohtang Pass',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'manali-5',
-    name: 'Beas River Rafting',
-    description: 'Thrill-seeking white water rafting on the Beas River.',
-    duration: '2 hours',
-    category: 'adventure',
-    tags: ['sports', 'water sports', 'thrill'],
-    estimatedCost: 30,
-    location: 'Beas River',
-    timeSlot: 'morning'
-  },
-  {
-    id: 'manali-6',
-    name: 'Vashisht Village & Hot Springs',
-    description: 'Visit the tranquil village known for its natural hot sulfur springs and ancient temples.',
-    duration: '2 hours',
-    category: 'wellness',
-    tags: ['relaxation', 'culture', 'temple'],
-    estimatedCost: 0,
-    location: 'Vashisht',
-    timeSlot: 'afternoon'
-  },
-];
+import { TravelPreferences, TravelPlan, DayPlan, Activity, ItineraryEdit, NaturalLanguageQuery, WeatherForecast, PlaceDetails } from '../types/travel';
+import { GenerationOptions, ItineraryProvider, ItineraryRefinement } from '../types/provider';
+import { applyItineraryEdits, arrangeDay, createEmptyPlan, findActivity, findDay, formatCalendarDate, formatDayDate, getPlannedDate, getTripDate, withTotals } from './itineraryUtils';
+import { isAccessibleFor, meetsAllNeeds, parseAccessibility } from './accessibility';
+import { isAvailableOn } from './availability';
+import { getBudgetCapUsd, parseBudgetCap, selectActivitiesWithinBudget } from './budgetCap';
+import { estimateActivityCost, estimateTripCosts } from './costModel';
+import { parseDietary, suitsDiet } from './dietary';
+import { getDayLoad, getPaceLimit } from './pacing';
+import { getParty, getPartySize, isFamilyFriendly, isSuitableForParty, parseParty } from './party';
+import { RandomSource, createRandomSeed, createSeededRandom, shuffle } from './seededRandom';
+import { findDestinationCatalog, listDestinationCatalogs } from './catalogLoader';
+import { BUDGET_TIERS, TIME_SLOTS, TRAVEL_STYLES, activityMatchesInterest, isStrenuousActivity, mapInterestsToOptions, normalizeBudgetTier } from './taxonomy';
+import { getDayLeg, getDayPreferences, getDayTransfer, getTripLegs, isMultiCity, summarizeLegs } from './tripLegs';
 
 // --- Helper Functions ---
 
@@ -371,65 +24,77 @@ export const parseNaturalLanguageQuery = async (query: string): Promise<NaturalL
   await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API delay
 
   const lowerQuery = query.toLowerCase();
+  const extractedInfo: NonNullable<NaturalLanguageQuery['extractedInfo']> = {};
   const parsed: NaturalLanguageQuery = {
-    originalQuery: query,
-    extractedInfo: {}
+    query,
+    extractedInfo
   };
 
-  // Destination
-  const destinations = ['tokyo', 'paris', 'goa', 'manali'];
-  for (const dest of destinations) {
-    if (lowerQuery.includes(dest)) {
-      parsed.extractedInfo.destination = dest.charAt(0).toUpperCase() + dest.slice(1);
-      break;
-    }
+  // Destination: the first catalog destination mentioned by name or alias
+  const destination = listDestinationCatalogs().find(catalog =>
+    [catalog.name, ...catalog.aliases].some(name => lowerQuery.includes(name.toLowerCase()))
+  );
+  if (destination) {
+    extractedInfo.destination = destination.name;
   }
 
   // Duration
   const durationMatch = lowerQuery.match(/(\d+)\s*days?/);
   if (durationMatch) {
-    parsed.extractedInfo.duration = parseInt(durationMatch[1], 10);
+    extractedInfo.duration = parseInt(durationMatch[1], 10);
   }
 
-  // Budget
-  if (lowerQuery.includes('budget-friendly') || lowerQuery.includes('cheap')) {
-    parsed.extractedInfo.budget = 'budget-friendly';
-  } else if (lowerQuery.includes('mid-range') || lowerQuery.includes('moderate budget')) {
-    parsed.extractedInfo.budget = 'mid-range';
-  } else if (lowerQuery.includes('luxury') || lowerQuery.includes('high-end')) {
-    parsed.extractedInfo.budget = 'luxury';
+  // Multi-city: two or more catalog destinations, each with its own length of stay
+  // ("3 days in Tokyo then 2 nights in Kyoto", "Tokyo for 4 days and Kyoto for 2 days")
+  const legs = listDestinationCatalogs()
+    .flatMap(catalog => [catalog.name, ...catalog.aliases].map(name => {
+      const escaped = name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const match = lowerQuery.match(new RegExp(`(\\d+)\\s*(?:days?|nights?)\\s*(?:in|at)?\\s*${escaped}\\b`))
+        ?? lowerQuery.match(new RegExp(`\\b${escaped}\\s*(?:for)?\\s*(\\d+)\\s*(?:days?|nights?)`));
+      return match ? { catalog, nights: parseInt(match[1], 10), position: match.index ?? 0 } : undefined;
+    }))
+    .filter((leg): leg is NonNullable<typeof leg> => leg !== undefined)
+    // One leg per destination, even when it is mentioned by several of its names
+    .filter((leg, index, all) => all.findIndex(other => other.catalog.id === leg.catalog.id) === index)
+    .sort((a, b) => a.position - b.position);
+  if (legs.length > 1) {
+    extractedInfo.legs = legs.map(leg => ({ destination: leg.catalog.name, nights: leg.nights }));
+    extractedInfo.destination = summarizeLegs(extractedInfo.legs);
+    extractedInfo.duration = legs.reduce((total, leg) => total + leg.nights, 0);
   }
 
-  // Interests (simplified keyword matching)
-  const allInterestKeywords = {
-    'culture': ['culture', 'history', 'museums', 'historical sites', 'art'],
-    'adventure': ['adventure', 'sports', 'trekking', 'hiking', 'rafting', 'water sports', 'thrill'],
-    'food': ['food', 'dining', 'cuisine', 'eat'],
-    'nature': ['nature', 'wildlife', 'parks', 'mountains', 'beaches', 'waterfall'],
-    'shopping': ['shopping', 'markets', 'boutiques'],
-    'nightlife': ['nightlife', 'bars', 'clubs'],
-    'relaxation': ['relax', 'spa', 'wellness', 'beach'],
-    'local experiences': ['local experiences', 'authentic', 'bazaars']
-  };
-
-  parsed.extractedInfo.interests = [];
-  for (const interest in allInterestKeywords) {
-    if (allInterestKeywords[interest as keyof typeof allInterestKeywords].some(keyword => lowerQuery.includes(keyword))) {
-      if (!parsed.extractedInfo.interests.includes(interest)) {
-        parsed.extractedInfo.interests.push(interest);
-      }
-    }
+  // Budget
+  extractedInfo.budget = normalizeBudgetTier(lowerQuery);
+  const budgetCap = parseBudgetCap(query);
+  if (budgetCap) {
+    extractedInfo.budgetCap = budgetCap;
   }
+
+  // Interests: every taxonomy interest whose keywords appear in the query
+  extractedInfo.interests = mapInterestsToOptions([lowerQuery]).options;
   // Add specific requests
   const specificRequestMatch = lowerQuery.match(/(?:interested in|focus on|with|including)\s*(.+)$/);
   if (specificRequestMatch) {
       const parts = specificRequestMatch[1].split(/and|,/);
-      parsed.extractedInfo.specificRequests = parts.map(p => p.trim()).filter(p => p.length > 0);
+      // Accessibility needs and diets are kept apart; as requests they would have to appear in activity descriptions
+      extractedInfo.specificRequests = parts.map(p => p.trim()).filter(p => p.length > 0 && !parseAccessibility(p) && !parseDietary(p));
   }
-  // Group size
-  const groupSizeMatch = lowerQuery.match(/(\d+)\s*(?:people|person|adults?|kids?)/);
-  if (groupSizeMatch) {
-      parsed.extractedInfo.groupSize = parseInt(groupSizeMatch[1], 10);
+  const accessibility = parseAccessibility(query);
+  if (accessibility) {
+      extractedInfo.accessibility = accessibility;
+  }
+  const dietary = parseDietary(query);
+  if (dietary) {
+      extractedInfo.dietary = dietary;
+  }
+  // Group size, counted by age band when the query says who is coming ("2 adults and 2 kids")
+  const party = parseParty(query);
+  const groupSizeMatch = lowerQuery.match(/(\d+)\s*(?:people|person)/);
+  if (party) {
+      extractedInfo.party = party;
+      extractedInfo.groupSize = getPartySize(party);
+  } else if (groupSizeMatch) {
+      extractedInfo.groupSize = parseInt(groupSizeMatch[1], 10);
   }
 
   // Start Date (very basic parsing for month/year)
@@ -437,7 +102,7 @@ export const parseNaturalLanguageQuery = async (query: string): Promise<NaturalL
   if (monthYearMatch) {
       const month = monthYearMatch[1];
       const year = monthYearMatch[2] || new Date().getFullYear(); // Default to current year
-      parsed.extractedInfo.startDate = new Date(`${month} 1, ${year}`).toISOString().split('T')[0];
+      extractedInfo.startDate = formatCalendarDate(new Date(`${month} 1, ${year}`));
   }
 
 
@@ -445,43 +110,43 @@ export const parseNaturalLanguageQuery = async (query: string): Promise<NaturalL
 };
 
 /**
- * Generates a travel itinerary based on given preferences.
- * This is a simulated function that would typically call a real AI model
- * to generate a highly customized and detailed itinerary.
+ * Every catalog activity for the destination (matched by name or alias), or none when the
+ * catalog does not cover it.
  */
-export const generateItinerary = async (preferences: TravelPreferences): Promise<TravelPlan> => {
-  console.log("Generating itinerary with preferences:", preferences);
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 3000)); // Longer delay for generation
-
-  const destinationKey = preferences.destination.toLowerCase().split(',')[0].trim();
+const getDestinationActivities = (destination: string): Activity[] => {
+  const catalog = findDestinationCatalog(destination);
+  if (!catalog) {
+    console.warn(`No catalog activities found for ${destination}.`);
+    return [];
+  }
+  return catalog.activities;
+};
 
-  // Filter activities by destination
-  let filteredActivities = allActivities.filter(
-    activity => activity.id.toLowerCase().startsWith(destinationKey)
-  );
+const matchesBudget = (activity: Activity, budget: TravelPreferences['budget']): boolean => {
+  const { min, max } = (BUDGET_TIERS.find(tier => tier.value === budget) ?? BUDGET_TIERS[1]).activityCost;
+  return activity.estimatedCost >= min && activity.estimatedCost <= max;
+};
 
-  // If no specific destination activities, use generic ones (or a more complex fallback)
-  if (filteredActivities.length === 0) {
-    filteredActivities = allActivities.filter(activity => !activity.id.includes('-')); // Generic activities if they don't have a destination prefix
-    console.warn(`No specific activities found for ${preferences.destination}. Using generic activities.`);
-  }
+/**
+ * Catalog activities for the destination that match the traveller's interests, budget and
+ * specific requests, suit the youngest member of the party and are not known to fail an
+ * accessibility need, best interest matches first. Dining activities must cater for the
+ * traveller's diet. With children along, family-friendly
+ * activities count as one more match, and so do activities known to meet every accessibility need. `random` only
+ * decides the order among activities with the same number of matches. With a budget cap the
+ * tier's per-activity cost window is not applied; `fitEligibleToCap` chooses by cost instead.
+ */
+const getEligibleActivities = (preferences: TravelPreferences, random: RandomSource): Activity[] => {
+  const filteredActivities = getDestinationActivities(preferences.destination);
 
   // Further filter activities by interests and budget
-  let eligibleActivities: Activity[] = [];
+  const eligibleActivities: Activity[] = [];
 
   const interestTags = preferences.interests || [];
-  const minCost = preferences.budget === 'budget-friendly' ? 0 : preferences.budget === 'mid-range' ? 10 : 50;
-  const maxCost = preferences.budget === 'budget-friendly' ? 40 : preferences.budget === 'mid-range' ? 80 : 200;
-
+  const party = getParty(preferences);
 
   for (const activity of filteredActivities) {
-    const matchesInterest = interestTags.length === 0 || interestTags.some(interest => 
-      activity.tags?.some(tag => tag.toLowerCase().includes(interest.toLowerCase())) ||
-      activity.category.toLowerCase().includes(interest.toLowerCase())
-    );
-
-    const matchesBudget = activity.estimatedCost >= minCost && activity.estimatedCost <= maxCost;
+    const matchesInterest = interestTags.length === 0 || interestTags.some(interest => activityMatchesInterest(activity, interest));
 
     // Add logic for specificRequests if they are very detailed
     const matchesSpecificRequests = preferences.specificRequests ? 
@@ -491,108 +156,437 @@ export const generateItinerary = async (preferences: TravelPreferences): Promise
         activity.tags?.some(tag => tag.toLowerCase().includes(req.trim()))
       ) : true; // If no specific requests, consider it a match
 
-    if (matchesInterest && matchesBudget && matchesSpecificRequests) {
+    if (matchesInterest && (getBudgetCapUsd(preferences) !== undefined || matchesBudget(activity, preferences.budget)) && matchesSpecificRequests && isSuitableForParty(activity, party) && isAccessibleFor(activity, preferences.accessibility) && suitsDiet(activity, preferences.dietary)) {
       eligibleActivities.push(activity);
     }
   }
 
-  // Ensure unique activities are picked and prioritize high-interest activities
-  // Simple prioritization: activities matching more interests
-  eligibleActivities.sort((a, b) => {
-    const aMatches = interestTags.filter(interest => a.tags?.some(tag => tag.toLowerCase().includes(interest.toLowerCase()))).length;
-    const bMatches = interestTags.filter(interest => b.tags?.some(tag => tag.toLowerCase().includes(interest.toLowerCase()))).length;
-    return bMatches - aMatches; // Sort by more matches first
-  });
+  // Shuffle first for variety, then stable-sort by interest matches so the shuffle only breaks ties
+  const countMatches = (activity: Activity) =>
+    interestTags.filter(interest => activityMatchesInterest(activity, interest)).length + (party.children > 0 && isFamilyFriendly(activity) ? 1 : 0) +
+    (meetsAllNeeds(activity, preferences.accessibility) ? 1 : 0);
+  return shuffle(eligibleActivities, random).sort((a, b) => countMatches(b) - countMatches(a)); // More matches first
+};
+
+// Filter for activities whose opening days, season and booking lead time allow the given trip day
+const availableOnDay = (preferences: TravelPreferences, dayIndex: number) => {
+  const date = getPlannedDate(preferences, dayIndex);
+  return (activity: Activity) => isAvailableOn(activity, date);
+};
+
+/**
+ * What one trip day is planned from: the eligible activities of the day's city that are
+ * available on its date, and how many to pick. A transfer day loses its morning, and one
+ * activity, to the journey.
+ */
+const getDayOptions = (preferences: TravelPreferences, dayIndex: number, eligibleActivities: Activity[]) => {
+  const available = eligibleActivities.filter(availableOnDay(preferences, dayIndex));
+  const activitiesPerDay = (TRAVEL_STYLES[preferences.travelStyle] ?? TRAVEL_STYLES.moderate).activitiesPerDay;
+  return getDayTransfer(preferences, dayIndex)
+    ? { eligible: available.filter(activity => activity.timeSlot !== 'morning'), activitiesPerDay: Math.max(1, activitiesPerDay - 1) }
+    : { eligible: available, activitiesPerDay };
+};
+
+/**
+ * Fills one day from the eligible activities, one per time slot first, then any remaining ones.
+ * Picked activities are added to `usedActivityIds` so later days do not repeat them.
+ */
+const pickDayActivities = (eligibleActivities: Activity[], usedActivityIds: Set<string>, activitiesPerDay: number): Activity[] => {
+  const dayActivities: Activity[] = [];
+  
+  // Attempt to fill activities for the day, respecting time slots and avoiding repetition
+  for (const timeSlot of TIME_SLOTS) {
+    if (dayActivities.length >= activitiesPerDay) break; // Stop if enough activities planned
+    
+    const potentialActivities = eligibleActivities.filter(act => 
+      act.timeSlot === timeSlot && !usedActivityIds.has(act.id)
+    );
+
+    if (potentialActivities.length > 0) {
+      // Pick the top matching activity for this slot
+      const activityToAdd = potentialActivities[0]; 
+      dayActivities.push(activityToAdd);
+      usedActivityIds.add(activityToAdd.id);
+    }
+  }
+
+  // Fallback for remaining slots or if initial filtering was too strict
+  while (dayActivities.length < activitiesPerDay && eligibleActivities.length > dayActivities.length) {
+      const remainingActivities = eligibleActivities.filter(act => !usedActivityIds.has(act.id));
+      if (remainingActivities.length > 0) {
+          const activityToAdd = remainingActivities[0];
+          dayActivities.push(activityToAdd);
+          usedActivityIds.add(activityToAdd.id);
+      } else {
+          break; // No more unique activities
+      }
+  }
 
-  // Shuffle to add variety if many activities have same "interest match score"
-  eligibleActivities = eligibleActivities.sort(() => 0.5 - Math.random());
+  return dayActivities;
+};
 
+const buildDayPlan = (preferences: TravelPreferences, dayIndex: number, activities: Activity[]): DayPlan => {
+  const { leg } = getDayLeg(preferences, dayIndex);
+  const transfer = getDayTransfer(preferences, dayIndex);
+  const day: DayPlan = {
+    day: dayIndex + 1,
+    date: formatDayDate(getTripDate(preferences, dayIndex)),
+    activities,
+    totalCost: activities.reduce((dayTotal, activity) => dayTotal + activity.estimatedCost, 0),
+    notes: dayIndex === 0 
+      ? `Welcome to ${leg.destination}! Take time to settle in and explore your accommodation area. Get ready for an amazing trip tailored to your ${preferences.travelStyle} style.` 
+      : transfer
+        ? `Travel day: leave ${transfer.from} in the morning and spend the rest of the day getting to know ${transfer.to}.`
+        : (dayIndex === preferences.duration - 1 
+            ? `It's your last day in ${leg.destination}! Enjoy your final activities and safe travels!` 
+            : undefined)
+  };
+  if (isMultiCity(preferences)) {
+    day.destination = leg.destination;
+  }
+  if (transfer) {
+    day.transfer = transfer;
+  }
+  return arrangeDay(day, preferences);
+};
+
+/**
+ * Builds the day, then drops its last-picked activities while it is heavier than the travel style
+ * allows after `previousDay`, keeping at least one, and then while `fitsCap` rejects it. Dropped
+ * activities are released from `usedActivityIds` for later days.
+ */
+const buildPacedDay = (
+  preferences: TravelPreferences,
+  dayIndex: number,
+  activities: Activity[],
+  usedActivityIds: Set<string>,
+  previousDay: DayPlan | undefined,
+  fitsCap: (day: DayPlan) => boolean = () => true
+): DayPlan => {
+  const limit = getPaceLimit(preferences, previousDay);
+  let kept = activities;
+  let day = buildDayPlan(preferences, dayIndex, kept);
+  while ((kept.length > 1 && getDayLoad(day) > limit) || (kept.length > 0 && !fitsCap(day))) {
+    usedActivityIds.delete(kept[kept.length - 1].id);
+    kept = kept.slice(0, -1);
+    day = buildDayPlan(preferences, dayIndex, kept);
+  }
+  return day;
+};
+
+/**
+ * Narrows each city's eligible activities to the ones `activitiesUsd` can pay for: the set with
+ * the highest total interest score whose estimated costs fit in it. Cities share the amount by
+ * how many activities their days take, and what one city leaves unspent passes on to the next.
+ */
+const fitEligibleToCap = (preferences: TravelPreferences, eligibleByDestination: Map<string, Activity[]>, activitiesUsd: number) => {
+  const slots = new Map<string, number>();
+  for (let i = 0; i < preferences.duration; i++) {
+    const { destination } = getDayPreferences(preferences, i);
+    slots.set(destination, (slots.get(destination) ?? 0) + getDayOptions(preferences, i, []).activitiesPerDay);
+  }
+
+  let remainingUsd = activitiesUsd;
+  let remainingSlots = [...slots.values()].reduce((total, count) => total + count, 0);
+  for (const [destination, eligible] of eligibleByDestination) {
+    const citySlots = slots.get(destination) ?? 0;
+    const costOf = (activity: Activity) => estimateActivityCost(activity, preferences);
+    const selected = selectActivitiesWithinBudget(eligible, preferences.interests, citySlots, remainingUsd * citySlots / remainingSlots, costOf);
+    eligibleByDestination.set(destination, selected);
+    remainingUsd -= selected.reduce((total, activity) => total + costOf(activity), 0);
+    remainingSlots -= citySlots;
+  }
+};
+
+/**
+ * Generates a travel itinerary based on given preferences.
+ * This is a simulated function that would typically call a real AI model
+ * to generate a highly customized and detailed itinerary.
+ */
+export const generateItinerary = async (preferences: TravelPreferences, options: GenerationOptions = {}): Promise<TravelPlan> => {
+  const { onProgress, signal, seed = createRandomSeed() } = options;
+
+  const random = createSeededRandom(seed);
+  // Each city's eligible activities, in the order the trip reaches them
+  const eligibleByDestination = new Map<string, Activity[]>();
+  for (let i = 0; i < preferences.duration; i++) {
+    const dayPreferences = getDayPreferences(preferences, i);
+    if (!eligibleByDestination.has(dayPreferences.destination)) {
+      eligibleByDestination.set(dayPreferences.destination, getEligibleActivities(dayPreferences, random));
+    }
+  }
+  const getDayEligible = (dayIndex: number): Activity[] => eligibleByDestination.get(getDayPreferences(preferences, dayIndex).destination)!;
 
   const days: DayPlan[] = [];
-  const baseDate = preferences.startDate ? new Date(preferences.startDate) : new Date();
+  // With a cap, activities are chosen by interest score within what the stays, meals and
+  // transport leave of it. That choice works with estimates, so each day is also checked against
+  // the cap, with the days still to plan counted without activities. Trips whose fixed costs
+  // alone exceed the cap are planned as if there were none.
+  const capUsd = getBudgetCapUsd(preferences);
+  const emptyDays = capUsd === undefined ? [] : Array.from({ length: preferences.duration }, (_, i) => buildDayPlan(preferences, i, []));
+  const fixedUsd = estimateTripCosts(emptyDays, preferences).totalPerGroup;
+  const capped = capUsd !== undefined && fixedUsd <= capUsd;
+  if (capped) {
+    fitEligibleToCap(preferences, eligibleByDestination, capUsd - fixedUsd);
+  }
+  const fitsCap = (day: DayPlan): boolean =>
+    !capped || estimateTripCosts([...days, day, ...emptyDays.slice(day.day)], preferences).totalPerGroup <= capUsd;
+
+  let plan: TravelPlan = { ...createEmptyPlan(preferences), seed };
+  onProgress?.({ plan, completedDays: 0, totalDays: preferences.duration });
 
   // Keep track of used activities to avoid repetition within the same itinerary
   const usedActivityIds = new Set<string>();
+  // What the cap pays for may not fill every day, so it is shared out over the city's days left
+  const getCappedDayShare = (dayIndex: number): number => {
+    const { destination } = getDayPreferences(preferences, dayIndex);
+    const cityDaysLeft = emptyDays.slice(dayIndex).filter(day => getDayPreferences(preferences, day.day - 1).destination === destination).length;
+    return Math.ceil(getDayEligible(dayIndex).filter(activity => !usedActivityIds.has(activity.id)).length / cityDaysLeft);
+  };
 
   for (let i = 0; i < preferences.duration; i++) {
-    const date = new Date(baseDate);
-    date.setDate(baseDate.getDate() + i);
-    
-    let activitiesPerDay = 3; // Default moderate
-    if (preferences.travelStyle === 'relaxed') {
-      activitiesPerDay = 2;
-    } else if (preferences.travelStyle === 'packed') {
-      activitiesPerDay = 4;
-    }
+    // Simulate per-day API latency so progress rendering behaves like the online providers
+    await new Promise(resolve => setTimeout(resolve, 400));
+    signal?.throwIfAborted();
 
-    const dayActivities: Activity[] = [];
-    const availableTimeSlots = { morning: false, afternoon: false, evening: false };
-    
-    // Attempt to fill activities for the day, respecting time slots and avoiding repetition
-    for (const timeSlot of ['morning', 'afternoon', 'evening'] as const) {
-      if (dayActivities.length >= activitiesPerDay) break; // Stop if enough activities planned
-      
-      const potentialActivities = eligibleActivities.filter(act => 
-        act.timeSlot === timeSlot && !usedActivityIds.has(act.id)
-      );
+    const { eligible, activitiesPerDay } = getDayOptions(preferences, i, getDayEligible(i));
+    const dayActivities = pickDayActivities(eligible, usedActivityIds, capped ? Math.min(activitiesPerDay, getCappedDayShare(i)) : activitiesPerDay);
+    days.push(buildPacedDay(preferences, i, dayActivities, usedActivityIds, days[i - 1], fitsCap));
 
-      if (potentialActivities.length > 0) {
-        // Pick the top matching activity for this slot
-        const activityToAdd = potentialActivities[0]; 
-        dayActivities.push(activityToAdd);
-        usedActivityIds.add(activityToAdd.id);
-        availableTimeSlots[timeSlot] = true;
-      }
+    // Calculate total budget (consider group size)
+    plan = withTotals(plan, [...days]);
+    onProgress?.({ plan, completedDays: days.length, totalDays: preferences.duration });
+  }
+
+  return plan;
+};
+
+// Regeneration follows the plan's seed, so the same plan always gets the same replacements
+const getPlanRandom = (plan: TravelPlan): RandomSource => createSeededRandom(plan.seed ?? createRandomSeed());
+
+/**
+ * Replaces one day with catalog activities that appear nowhere else in the plan
+ * (and differ from the day's current ones), within the travel style's pace after the day before.
+ * Weather already known for the day is kept.
+ */
+export const regenerateDay = async (plan: TravelPlan, dayNumber: number): Promise<DayPlan> => {
+  const existingDay = findDay(plan, dayNumber);
+  const usedActivityIds = new Set(plan.days.flatMap(day => day.activities.map(activity => activity.id)));
+  const dayPreferences = getDayPreferences(plan.preferences, dayNumber - 1);
+  const { eligible, activitiesPerDay } = getDayOptions(plan.preferences, dayNumber - 1, getEligibleActivities(dayPreferences, getPlanRandom(plan)));
+  const activities = pickDayActivities(eligible, usedActivityIds, activitiesPerDay);
+  if (activities.length === 0) {
+    throw new Error(`No other catalog activities are available for ${dayPreferences.destination}.`);
+  }
+
+  return {
+    ...buildPacedDay(plan.preferences, dayNumber - 1, activities, usedActivityIds, plan.days.find(day => day.day === dayNumber - 1)),
+    date: existingDay.date,
+    weather: existingDay.weather
+  };
+};
+
+/**
+ * Swaps one activity for an unused catalog activity, preferring the same time slot and
+ * nothing pricier than the activity being replaced when such an option exists.
+ */
+export const regenerateActivity = async (plan: TravelPlan, dayNumber: number, activityId: string): Promise<Activity> => {
+  const current = findActivity(findDay(plan, dayNumber), activityId);
+  const usedActivityIds = new Set(plan.days.flatMap(day => day.activities.map(activity => activity.id)));
+  const dayPreferences = getDayPreferences(plan.preferences, dayNumber - 1);
+  const candidates = getEligibleActivities(dayPreferences, getPlanRandom(plan))
+    .filter(activity => !usedActivityIds.has(activity.id))
+    .filter(availableOnDay(plan.preferences, dayNumber - 1));
+
+  const sameSlot = candidates.filter(activity => activity.timeSlot === current.timeSlot);
+  const pool = sameSlot.length > 0 ? sameSlot : candidates;
+  const replacement = pool.find(activity => activity.estimatedCost <= current.estimatedCost) ?? pool[0];
+  if (!replacement) {
+    throw new Error(`No other catalog activities are available for ${dayPreferences.destination}.`);
+  }
+  return replacement;
+};
+
+// Traits the offline refinement understands in phrases like "something outdoors" or "cheaper"
+const refinementTraits: Record<string, (activity: Activity) => boolean> = {
+  outdoor: activity => activity.weatherConsideration === 'outdoor' || activity.category === 'nature' || activity.category === 'adventure',
+  indoor: activity => activity.weatherConsideration === 'indoor' || activity.category === 'culture' || activity.category === 'shopping',
+  relax: activity => activity.category === 'relaxation',
+  food: activity => activity.category === 'dining',
+  museum: activity => activity.category === 'culture',
+  adventur: activity => activity.category === 'adventure',
+  free: activity => activity.estimatedCost === 0,
+};
+
+const ignoredWords = ['something', 'somewhere', 'activity', 'instead', 'more', 'with', 'that', 'this', 'there', 'some'];
+
+/**
+ * Whether an activity fits a free-form phrase, either through a known trait or because a
+ * significant word of the phrase appears in its name, description, category or tags.
+ */
+const matchesPhrase = (activity: Activity, phrase: string): boolean => {
+  const traitMatches = Object.entries(refinementTraits).filter(([trait]) => phrase.includes(trait));
+  if (traitMatches.length > 0) {
+    return traitMatches.some(([, matches]) => matches(activity));
+  }
+  const haystack = [activity.name, activity.description, activity.category, ...(activity.tags || [])].join(' ').toLowerCase();
+  return phrase
+    .split(/[^a-z]+/)
+    .filter(word => word.length >= 4 && !ignoredWords.includes(word))
+    .some(word => haystack.includes(word.replace(/e?s$/, '')));
+};
+
+/**
+ * Interprets a follow-up chat message as edits to the plan with simple keyword rules: swapping,
+ * removing and adding activities, and making days more relaxed, busier or cheaper. A "day N"
+ * mention limits the change to that day.
+ */
+export const refineItinerary = async (plan: TravelPlan, instruction: string): Promise<ItineraryRefinement> => {
+  await new Promise(resolve => setTimeout(resolve, 600)); // Simulate API delay
+
+  const lowerInstruction = instruction.toLowerCase();
+  const dayMatch = lowerInstruction.match(/day\s*(\d+)/);
+  const targetDays = dayMatch ? [findDay(plan, parseInt(dayMatch[1], 10))] : plan.days;
+  // Drop the day reference so it is not mistaken for part of an activity description
+  const request = lowerInstruction.replace(/\s*(?:on|to|for|from|in)?\s*day\s*\d+/g, '').trim();
+
+  const usedActivityIds = new Set(plan.days.flatMap(day => day.activities.map(activity => activity.id)));
+  const party = getParty(plan.preferences);
+  const candidates = getTripLegs(plan.preferences)
+    .flatMap(leg => getDestinationActivities(leg.destination))
+    .filter(activity =>
+      !usedActivityIds.has(activity.id) &&
+      isSuitableForParty(activity, party) &&
+      isAccessibleFor(activity, plan.preferences.accessibility) &&
+      suitsDiet(activity, plan.preferences.dietary)
+    );
+  // The city a day is spent in; on a one-city trip always the plan's destination
+  const dayDestination = (dayNumber: number) => getDayPreferences(plan.preferences, dayNumber - 1).destination;
+  // Takes the first unused activity of the day's city that matches and is available on the given day
+  const takeCandidate = (dayNumber: number, matches: (activity: Activity) => boolean): Activity | undefined => {
+    const availableOn = availableOnDay(plan.preferences, dayNumber - 1);
+    const inDestination = new Set(getDestinationActivities(dayDestination(dayNumber)).map(activity => activity.id));
+    const candidate = candidates.find(activity => inDestination.has(activity.id) && matches(activity) && availableOn(activity));
+    if (candidate) {
+      candidates.splice(candidates.indexOf(candidate), 1);
+    }
+    return candidate;
+  };
+  const findPlanned = (phrase: string) => {
+    for (const day of targetDays) {
+      const activity = day.activities.find(candidate => matchesPhrase(candidate, phrase));
+      if (activity) return { day, activity };
     }
+    return undefined;
+  };
+
+  const edits: ItineraryEdit[] = [];
+  const swapMatch = request.match(/(?:swap|replace|change)\s+(?:the\s+)?(.+?)\s+(?:for|with|to)\s+(.+)/);
+  const removeMatch = request.match(/(?:remove|skip|drop|cancel)\s+(?:the\s+)?(.+)/);
+  const addMatch = request.match(/(?:add|include)\s+(?:an?\s+|some\s+)?(.+)/);
 
-    // Fallback for remaining slots or if initial filtering was too strict
-    while (dayActivities.length < activitiesPerDay && eligibleActivities.length > dayActivities.length) {
-        const remainingActivities = eligibleActivities.filter(act => !usedActivityIds.has(act.id));
-        if (remainingActivities.length > 0) {
-            const activityToAdd = remainingActivities[0];
-            dayActivities.push(activityToAdd);
-            usedActivityIds.add(activityToAdd.id);
-        } else {
-            break; // No more unique activities
-        }
+  if (swapMatch) {
+    const planned = findPlanned(swapMatch[1]);
+    if (!planned) {
+      throw new Error(`I couldn't find "${swapMatch[1]}" in ${dayMatch ? `day ${dayMatch[1]}` : 'your itinerary'}.`);
+    }
+    const replacement = takeCandidate(planned.day.day, activity => matchesPhrase(activity, swapMatch[2]));
+    if (!replacement) {
+      throw new Error(`The offline catalog has no unused "${swapMatch[2]}" activity for ${dayDestination(planned.day.day)} on day ${planned.day.day}.`);
+    }
+    edits.push({ action: 'replace', day: planned.day.day, activityId: planned.activity.id, activity: replacement });
+  } else if (removeMatch) {
+    const planned = findPlanned(removeMatch[1]);
+    if (!planned) {
+      throw new Error(`I couldn't find "${removeMatch[1]}" in ${dayMatch ? `day ${dayMatch[1]}` : 'your itinerary'}.`);
     }
+    edits.push({ action: 'remove', day: planned.day.day, activityId: planned.activity.id });
+  } else if (addMatch) {
+    // Without a day reference, add it to the lightest day
+    const day = dayMatch ? targetDays[0] : [...plan.days].sort((a, b) => a.activities.length - b.activities.length)[0];
+    const addition = takeCandidate(day.day, activity => matchesPhrase(activity, addMatch[1]));
+    if (!addition) {
+      throw new Error(`The offline catalog has no unused "${addMatch[1]}" activity for ${dayDestination(day.day)} on day ${day.day}.`);
+    }
+    edits.push({ action: 'add', day: day.day, activity: addition });
+  } else if (/relax|lighter|less busy|slower|fewer/.test(request)) {
+    // Without a day reference, lighten the days over their pace, or every day when none is
+    const overPaced = targetDays.filter(day => day.pace?.warnings);
+    const lightenDays = !dayMatch && overPaced.length > 0 ? overPaced : targetDays;
+    for (const day of lightenDays.filter(candidate => candidate.activities.length > 1)) {
+      // Drop the most strenuous, then the most expensive activity
+      const [activity] = [...day.activities].sort((a, b) =>
+        Number(isStrenuousActivity(b)) - Number(isStrenuousActivity(a)) || b.estimatedCost - a.estimatedCost
+      );
+      edits.push({ action: 'remove', day: day.day, activityId: activity.id });
+    }
+  } else if (/busier|packed|more activities|fill/.test(request)) {
+    for (const day of targetDays) {
+      const addition = takeCandidate(day.day, activity => matchesBudget(activity, plan.preferences.budget));
+      if (addition) edits.push({ action: 'add', day: day.day, activity: addition });
+    }
+  } else if (/cheap|budget|less expensive|save money/.test(request)) {
+    for (const day of targetDays) {
+      const [priciest] = [...day.activities].sort((a, b) => b.estimatedCost - a.estimatedCost);
+      const replacement = priciest && takeCandidate(day.day, activity => activity.estimatedCost < priciest.estimatedCost && activity.timeSlot === priciest.timeSlot);
+      if (replacement) edits.push({ action: 'replace', day: day.day, activityId: priciest.id, activity: replacement });
+    }
+  } else {
+    throw new Error('The offline planner understands requests like "swap the museum for something outdoors", "add a food tour on day 3", "remove the market" or "make day 2 more relaxed".');
+  }
 
-    days.push({
-      day: i + 1,
-      date: date.toLocaleDateString('en-US', { 
-        weekday: 'long', 
-        year: 'numeric', 
-        month: 'long', 
-        day: 'numeric' 
-      }),
-      activities: dayActivities,
-      notes: i === 0 
-        ? `Welcome to ${preferences.destination}! Take time to settle in and explore your accommodation area. Get ready for an amazing trip tailored to your ${preferences.travelStyle} style.` 
-        : (i === preferences.duration - 1 
-            ? `It's your last day in ${preferences.destination}! Enjoy your final activities and safe travels!` 
-            : undefined)
-    });
+  if (edits.length === 0) {
+    throw new Error('There was nothing in the offline catalog to change for that request.');
   }
 
-  // Calculate total budget (consider group size)
-  const totalBudget = days.reduce((total, day) => 
-    total + day.activities.reduce((dayTotal, activity) => 
-      dayTotal + activity.estimatedCost, 0
-    ), 0
-  ) * preferences.groupSize;
+  const { plan: refined, changes } = applyItineraryEdits(plan, edits);
+  return { plan: refined, summary: `Done! I made ${changes.length === 1 ? 'this change' : 'these changes'}:`, changes };
+};
+
+/**
+ * The catalog has no live weather source, so no forecast is ever available offline.
+ */
+export const getWeatherForecast = async (): Promise<WeatherForecast | null> => null;
+
+/**
+ * Looks a place up among the catalog activities for the destination.
+ */
+export const getPlaceDetails = async (placeName: string, destination: string): Promise<PlaceDetails | null> => {
+  const destinationActivities = getDestinationActivities(destination);
+  const lowerName = placeName.toLowerCase();
+  const activity = destinationActivities.find(candidate =>
+    candidate.name.toLowerCase().includes(lowerName) || lowerName.includes(candidate.name.toLowerCase())
+  );
+  if (!activity) {
+    return null;
+  }
 
   return {
-    destination: preferences.destination,
-    duration: preferences.duration,
-    totalBudget,
-    days,
-    preferences,
-    createdAt: new Date().toISOString()
+    name: activity.name,
+    description: activity.description,
+    location: activity.location,
+    coordinates: activity.coordinates,
+    rating: activity.rating,
+    photos: activity.photos,
+    entryFee: activity.estimatedCost,
+    bestTimeToVisit: activity.timeSlot,
+    tips: [],
+    nearbyAttractions: destinationActivities
+      .filter(candidate => candidate.id !== activity.id && candidate.location === activity.location)
+      .map(candidate => candidate.name)
   };
 };
 
-// --- Export the geminiAgent object ---
-export const geminiAgent = {
+// --- Offline catalog provider: works without an API key or network access ---
+export const catalogAgent: ItineraryProvider = {
+  id: 'catalog',
+  label: 'Offline catalog',
+  requiresNetwork: false,
   parseNaturalLanguageQuery,
   generateItinerary,
+  regenerateDay,
+  regenerateActivity,
+  refineItinerary,
+  getWeatherForecast,
+  getPlaceDetails,
 };
@@ -0,0 +1,58 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { checkActivityAvailability, weekdayOf } from './availability';
+import { formatCalendarDate, getTripDate } from './itineraryUtils';
+import { Activity, TravelPreferences } from '../types/travel';
+
+const preferences = (startDate: string): TravelPreferences => ({
+  destination: 'Paris',
+  duration: 3,
+  budget: 'mid-range',
+  interests: [],
+  travelStyle: 'moderate',
+  groupSize: 1,
+  accommodation: 'hotel',
+  startDate,
+});
+
+const activity = (availability: Activity['availability']): Activity => ({
+  id: 'paris-test',
+  name: 'Test Gallery',
+  description: 'A gallery with opening rules.',
+  duration: '2 hours',
+  category: 'culture',
+  estimatedCost: 10,
+  location: 'Le Marais',
+  timeSlot: 'morning',
+  availability,
+});
+
+// Start dates read as UTC midnight fall on the previous local day west of UTC
+describe('trip dates in a time zone behind UTC', () => {
+  const originalTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'America/New_York';
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  it('keeps the weekday and month of the start date', () => {
+    expect(weekdayOf(getTripDate(preferences('2025-03-05'), 0))).toBe('wed');
+    expect(getTripDate(preferences('2025-04-01'), 0).getMonth()).toBe(3);
+  });
+
+  it('counts later days in calendar days', () => {
+    expect(formatCalendarDate(getTripDate(preferences('2025-03-05'), 1))).toBe('2025-03-06');
+    expect(formatCalendarDate(getTripDate(preferences('2025-03-31'), 1))).toBe('2025-04-01');
+  });
+
+  it('checks opening days and seasons against the planned day', () => {
+    const today = new Date(2025, 0, 1);
+
+    expect(checkActivityAvailability(activity({ openDays: ['wed'] }), getTripDate(preferences('2025-03-05'), 0), today)).toEqual([]);
+    expect(checkActivityAvailability(activity({ months: [4] }), getTripDate(preferences('2025-04-01'), 0), today)).toEqual([]);
+    expect(checkActivityAvailability(activity({ openDays: ['tue'] }), getTripDate(preferences('2025-03-05'), 0), today).map(warning => warning.rule)).toEqual(['closed']);
+  });
+});
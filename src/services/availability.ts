@@ -0,0 +1,67 @@
+import { Activity, AvailabilityWarning, DayPlan, Weekday } from '../types/travel';
+import { WEEKDAYS } from './taxonomy';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  mon: 'Mondays', tue: 'Tuesdays', wed: 'Wednesdays', thu: 'Thursdays', fri: 'Fridays', sat: 'Saturdays', sun: 'Sundays',
+};
+
+const monthName = (month: number): string => new Date(2000, month - 1, 1).toLocaleDateString('en-US', { month: 'long' });
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const weekdayOf = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+/**
+ * The availability rules an activity breaks when planned for `date`: closed that weekday, out of
+ * season that month, or booked too late given `today`. Without a date only a permit requirement
+ * is reported, which is always listed so the traveller can arrange it.
+ */
+export const checkActivityAvailability = (activity: Activity, date: Date | undefined, today = new Date()): AvailabilityWarning[] => {
+  const rules = activity.availability;
+  if (!rules) {
+    return [];
+  }
+  const warnings: AvailabilityWarning[] = [];
+  const warn = (rule: AvailabilityWarning['rule'], message: string) => warnings.push({ activityId: activity.id, rule, message });
+
+  if (date) {
+    const weekday = weekdayOf(date);
+    if (rules.openDays && !rules.openDays.includes(weekday)) {
+      warn('closed', `"${activity.name}" is closed on ${WEEKDAY_NAMES[weekday]}.`);
+    }
+    const month = date.getMonth() + 1;
+    if (rules.months && !rules.months.includes(month)) {
+      warn('out-of-season', `"${activity.name}" is not available in ${monthName(month)} (season: ${rules.months.map(monthName).join(', ')}).`);
+    }
+    const daysAhead = Math.round((startOfDay(date).getTime() - startOfDay(today).getTime()) / MS_PER_DAY);
+    if (rules.bookingLeadDays !== undefined && daysAhead < rules.bookingLeadDays) {
+      warn('booking', `"${activity.name}" must be booked ${rules.bookingLeadDays} days ahead, but this day is ${Math.max(daysAhead, 0)} days away.`);
+    }
+  }
+  if (rules.permitRequired) {
+    warn('permit', `"${activity.name}" requires a permit; arrange it before the day.`);
+  }
+  return warnings;
+};
+
+/** Whether the activity can be planned for `date`; a permit requirement alone does not rule it out. */
+export const isAvailableOn = (activity: Activity, date: Date | undefined, today = new Date()): boolean =>
+  checkActivityAvailability(activity, date, today).every(warning => warning.rule === 'permit');
+
+/**
+ * Checks every activity of the day against its availability rules on `date` (the day's actual
+ * calendar date, undefined when the trip has no start date) and records the result in
+ * `availabilityWarnings`.
+ */
+export const checkDayAvailability = (day: DayPlan, date: Date | undefined, today = new Date()): DayPlan => {
+  const availabilityWarnings = day.activities.flatMap(activity => checkActivityAvailability(activity, date, today));
+  // Warnings from an earlier check of the day no longer apply
+  const checked: DayPlan = { ...day };
+  delete checked.availabilityWarnings;
+  if (availabilityWarnings.length > 0) {
+    checked.availabilityWarnings = availabilityWarnings;
+  }
+  return checked;
+};
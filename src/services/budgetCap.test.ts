@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { selectActivitiesWithinBudget } from './budgetCap';
+import { Activity } from '../types/travel';
+
+const activity = (id: string, name: string, estimatedCost: number): Activity => ({
+  id,
+  name,
+  description: 'An evening out.',
+  duration: '2 hours',
+  category: 'culture',
+  estimatedCost,
+  location: 'Centre',
+  timeSlot: 'morning',
+});
+
+// The gala matches both interests, the gallery and the museum one, the market none
+const gala = activity('gala', 'Art gala and cocktail bar', 150);
+const gallery = activity('gallery', 'Street art gallery', 20);
+const museum = activity('museum', 'Museum late opening', 30);
+const market = activity('market', 'Flea market', 0);
+
+describe('selectActivitiesWithinBudget', () => {
+  const select = (count: number, budgetUsd: number) =>
+    selectActivitiesWithinBudget([gala, gallery, museum, market], ['Art & Museums', 'Nightlife'], count, budgetUsd, candidate => candidate.estimatedCost)
+      .map(picked => picked.id);
+
+  it('prefers several matching activities to one pricey one', () => {
+    expect(select(3, 160)).toEqual(['gallery', 'museum', 'market']);
+  });
+
+  it('keeps the highest-scoring activities when the budget allows them', () => {
+    expect(select(2, 200)).toEqual(['gala', 'gallery']);
+  });
+
+  it('picks only free activities without a budget', () => {
+    expect(select(3, 0)).toEqual(['market']);
+  });
+});
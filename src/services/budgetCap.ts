@@ -0,0 +1,186 @@
+import { Activity, BudgetCap, CurrencyCode, ItineraryEdit, TravelPlan, TravelPreferences } from '../types/travel';
+import { isAccessibleFor } from './accessibility';
+import { isAvailableOn } from './availability';
+import { findDestinationCatalog } from './catalogLoader';
+import { suitsDiet } from './dietary';
+import { estimateTripCosts, getCostBreakdown } from './costModel';
+import { applyItineraryEdits, getPlannedDate } from './itineraryUtils';
+import { getParty, getPartyActivityCost, isSuitableForParty } from './party';
+import { CURRENCIES, activityMatchesInterest } from './taxonomy';
+import { getDayPreferences } from './tripLegs';
+
+const CURRENCY_NAMES: [RegExp, CurrencyCode][] = [
+  [/^(?:\$|usd|dollars?)$/, 'USD'],
+  [/^(?:€|eur|euros?)$/, 'EUR'],
+  [/^(?:£|gbp|pounds?)$/, 'GBP'],
+  [/^(?:₹|inr|rs\.?|rupees?)$/, 'INR'],
+  [/^(?:¥|jpy|yen)$/, 'JPY'],
+];
+
+const readCurrency = (token: string): CurrencyCode | undefined => CURRENCY_NAMES.find(([pattern]) => pattern.test(token))?.[1];
+
+const readAmount = (digits: string, thousands: string | undefined): number =>
+  parseFloat(digits.replace(/,/g, '')) * (thousands ? 1000 : 1);
+
+/**
+ * Reads a total budget stated as an amount: "$2,000", "1500 euros", "₹50k", "budget of 3000"
+ * (taken as USD). Undefined when the text names no amount.
+ */
+export const parseBudgetCap = (text: string): BudgetCap | undefined => {
+  const lowerText = text.toLowerCase();
+  const prefixed = lowerText.match(/(\$|€|£|₹|¥|\b(?:usd|eur|gbp|inr|rs\.?|jpy))\s*(\d[\d,]*(?:\.\d+)?)(k\b)?/);
+  if (prefixed) {
+    return { amount: readAmount(prefixed[2], prefixed[3]), currency: readCurrency(prefixed[1])! };
+  }
+  const suffixed = lowerText.match(/(\d[\d,]*(?:\.\d+)?)(k)?\s*(dollars?|usd|euros?|eur|pounds?|gbp|rupees?|inr|yen|jpy)\b/);
+  if (suffixed) {
+    return { amount: readAmount(suffixed[1], suffixed[2]), currency: readCurrency(suffixed[3])! };
+  }
+  const bare = lowerText.match(/\bbudget\s*(?:of|is|:)?\s*(\d[\d,]*)(k\b)?/);
+  return bare ? { amount: readAmount(bare[1], bare[2]), currency: 'USD' } : undefined;
+};
+
+/** "€1,500"; whole units only. */
+export const formatMoney = (amount: number, currency: CurrencyCode): string =>
+  amount.toLocaleString('en-US', { style: 'currency', currency, maximumFractionDigits: 0 });
+
+/** A USD amount, such as a plan's total, converted into `currency` and formatted. */
+export const formatUsdIn = (amountUsd: number, currency: CurrencyCode): string =>
+  formatMoney(amountUsd / CURRENCIES[currency].usdPerUnit, currency);
+
+/** The trip's budget cap in USD, or undefined when the traveller set none. */
+export const getBudgetCapUsd = (preferences: TravelPreferences): number | undefined =>
+  preferences.budgetCap && preferences.budgetCap.amount > 0
+    ? preferences.budgetCap.amount * CURRENCIES[preferences.budgetCap.currency].usdPerUnit
+    : undefined;
+
+/** Whether the plan's estimated full cost is above its budget cap, e.g. because the stays alone exceed it. */
+export const isOverBudget = (plan: TravelPlan): boolean => {
+  const cap = getBudgetCapUsd(plan.preferences);
+  return cap !== undefined && getCostBreakdown(plan).totalPerGroup > cap;
+};
+
+/** 1 plus the number of the traveller's interests the activity matches; what trimming tries to keep. */
+export const scoreActivity = (activity: Activity, interests: string[]): number =>
+  1 + interests.filter(interest => activityMatchesInterest(activity, interest)).length;
+
+/**
+ * At most `count` of the activities with the highest total interest score whose costs, as given
+ * by `getCost`, add up to no more than `budgetUsd`; the cheapest such set when several score the
+ * same. An exact 0/1 knapsack over scores rather than dollars, so its size does not depend on the
+ * amounts. The picked activities keep their order.
+ */
+export const selectActivitiesWithinBudget = (
+  activities: Activity[],
+  interests: string[],
+  count: number,
+  budgetUsd: number,
+  getCost: (activity: Activity) => number
+): Activity[] => {
+  const scores = activities.map(activity => scoreActivity(activity, interests));
+  const maxScore = scores.reduce((total, score) => total + score, 0);
+  // best[n][s]: the cheapest way found so far to reach score s with n activities
+  const best: ({ cost: number; picked: number[] } | undefined)[][] =
+    Array.from({ length: count + 1 }, () => new Array(maxScore + 1).fill(undefined));
+  best[0][0] = { cost: 0, picked: [] };
+
+  activities.forEach((activity, index) => {
+    const cost = getCost(activity);
+    // Fewer activities last, so each activity is added at most once
+    for (let n = Math.min(count, index + 1); n >= 1; n--) {
+      for (let s = maxScore; s >= scores[index]; s--) {
+        const from = best[n - 1][s - scores[index]];
+        const current = best[n][s];
+        if (from && from.cost + cost <= budgetUsd && (!current || from.cost + cost < current.cost)) {
+          best[n][s] = { cost: from.cost + cost, picked: [...from.picked, index] };
+        }
+      }
+    }
+  });
+
+  let chosen = best[0][0]!;
+  let chosenScore = 0;
+  best.forEach(byScore => byScore.forEach((option, score) => {
+    if (option && (score > chosenScore || (score === chosenScore && option.cost < chosen.cost))) {
+      chosen = option;
+      chosenScore = score;
+    }
+  }));
+  return chosen.picked.map(index => activities[index]);
+};
+
+// Unused catalog activities of the day's city that could stand in for `activity`: same time slot,
+// available that day, suitable for the party, not known to fail its accessibility needs, in line
+// with its diet and cheaper for it
+const findCheaperAlternatives = (plan: TravelPlan, dayNumber: number, activity: Activity, usedActivityIds: Set<string>): Activity[] => {
+  const catalog = findDestinationCatalog(getDayPreferences(plan.preferences, dayNumber - 1).destination);
+  const date = getPlannedDate(plan.preferences, dayNumber - 1);
+  const party = getParty(plan.preferences);
+  return (catalog?.activities ?? []).filter(candidate =>
+    !usedActivityIds.has(candidate.id) &&
+    candidate.timeSlot === activity.timeSlot &&
+    getPartyActivityCost(candidate, party) < getPartyActivityCost(activity, party) &&
+    isAvailableOn(candidate, date) &&
+    isSuitableForParty(candidate, party) &&
+    isAccessibleFor(candidate, plan.preferences.accessibility) &&
+    suitsDiet(candidate, plan.preferences.dietary)
+  );
+};
+
+/**
+ * Brings a plan whose estimated full cost is above its budget cap back within it. Only
+ * activities can be cut: each step swaps one for a cheaper unused catalog activity of the same
+ * time slot, or removes it, picking the change that gives up the least interest score per dollar
+ * saved. Stops once the plan fits or nothing with a cost is left. The changes are recorded in
+ * `budgetAdjustments`. Plans without a cap, within it, or over it even with no paid activities
+ * at all are returned as they are.
+ */
+export const fitPlanToBudget = (plan: TravelPlan): TravelPlan => {
+  const cap = getBudgetCapUsd(plan.preferences);
+  if (cap === undefined) {
+    return plan;
+  }
+  // Stays, meals and transport the plan needs anyway; cutting activities cannot get below these
+  const fixedCosts = estimateTripCosts(plan.days.map(day => ({ ...day, activities: [], totalCost: 0 })), plan.preferences);
+  if (fixedCosts.totalPerGroup > cap) {
+    return plan;
+  }
+  const { interests } = plan.preferences;
+  const party = getParty(plan.preferences);
+  const adjustments: string[] = [];
+  let fitted = plan;
+
+  while (getCostBreakdown(fitted).totalPerGroup > cap) {
+    const usedActivityIds = new Set(fitted.days.flatMap(day => day.activities.map(activity => activity.id)));
+    let best: { edit: ItineraryEdit; lossPerDollar: number; saving: number } | undefined;
+
+    for (const day of fitted.days) {
+      for (const activity of day.activities.filter(candidate => getPartyActivityCost(candidate, party) > 0)) {
+        const score = scoreActivity(activity, interests);
+        const options: ItineraryEdit[] = [
+          { action: 'remove', day: day.day, activityId: activity.id },
+          ...findCheaperAlternatives(fitted, day.day, activity, usedActivityIds)
+            .map(alternative => ({ action: 'replace' as const, day: day.day, activityId: activity.id, activity: alternative })),
+        ];
+        for (const edit of options) {
+          const saving = getPartyActivityCost(activity, party) - (edit.activity ? getPartyActivityCost(edit.activity, party) : 0);
+          const lossPerDollar = (score - (edit.activity ? scoreActivity(edit.activity, interests) : 0)) / saving;
+          if (!best || lossPerDollar < best.lossPerDollar || (lossPerDollar === best.lossPerDollar && saving > best.saving)) {
+            best = { edit, lossPerDollar, saving };
+          }
+        }
+      }
+    }
+
+    if (!best) {
+      break;
+    }
+    const { plan: next, changes } = applyItineraryEdits(fitted, [best.edit]);
+    fitted = next;
+    adjustments.push(...changes);
+  }
+
+  return adjustments.length > 0
+    ? { ...fitted, budgetAdjustments: [...(plan.budgetAdjustments ?? []), ...adjustments] }
+    : fitted;
+};
@@ -0,0 +1,161 @@
+export type CacheKind = 'itinerary' | 'forecast' | 'place';
+
+export interface CacheEntry<T = unknown> {
+  /** `${kind}:${providerId}:${hash of the normalized input}` */
+  key: string;
+  kind: CacheKind;
+  providerId: string;
+  /** Human readable description shown in the cache manager, e.g. "5-day trip to Paris". */
+  label: string;
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Forecasts go stale quickly; generated plans and place facts stay useful much longer
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  itinerary: 7 * DAY,
+  forecast: 3 * HOUR,
+  place: 30 * DAY,
+};
+
+const DB_NAME = 'travelai-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+/**
+ * Serializes a value with sorted keys, trimmed lower-case strings and sorted string arrays, so
+ * inputs that only differ in casing, whitespace or ordering (e.g. of interests) share a key.
+ */
+const normalize = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return JSON.stringify(value.trim().toLowerCase());
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(normalize);
+    return `[${value.every(item => typeof item === 'string') ? items.sort().join(',') : items.join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, fieldValue]) => fieldValue !== undefined && fieldValue !== '')
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, fieldValue]) => `${JSON.stringify(key)}:${normalize(fieldValue)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/** Short, stable hash (53-bit, cyrb53) of the normalized input. */
+export const hashCacheInput = (input: unknown): string => {
+  const text = normalize(input);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Browser-side cache of provider responses, stored in IndexedDB. Every operation is best effort:
+ * when IndexedDB is unavailable or fails, reads miss and writes are skipped so generation still works.
+ */
+export class ResponseCacheService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Response cache unavailable:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+    const db = await this.openDatabase();
+    if (!db) {
+      return undefined;
+    }
+    return new Promise(resolve => {
+      const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Response cache operation failed:', request.error);
+        resolve(undefined);
+      };
+    });
+  }
+
+  buildKey(kind: CacheKind, providerId: string, input: unknown): string {
+    return `${kind}:${providerId}:${hashCacheInput(input)}`;
+  }
+
+  /** Returns the live entry for the input, removing it instead when it has expired. */
+  async get<T>(kind: CacheKind, providerId: string, input: unknown): Promise<CacheEntry<T> | null> {
+    const key = this.buildKey(kind, providerId, input);
+    const entry = await this.run<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      await this.remove(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set<T>(kind: CacheKind, providerId: string, input: unknown, value: T, label: string): Promise<void> {
+    const createdAt = Date.now();
+    const entry: CacheEntry<T> = {
+      key: this.buildKey(kind, providerId, input),
+      kind,
+      providerId,
+      label,
+      value,
+      createdAt,
+      expiresAt: createdAt + CACHE_TTL_MS[kind],
+    };
+    await this.run('readwrite', store => store.put(entry));
+  }
+
+  /** Every stored entry, newest first. Expired entries are dropped on the way. */
+  async list(): Promise<CacheEntry[]> {
+    const entries = (await this.run<CacheEntry[]>('readonly', store => store.getAll())) ?? [];
+    const now = Date.now();
+    const expired = entries.filter(entry => entry.expiresAt <= now);
+    await Promise.all(expired.map(entry => this.remove(entry.key)));
+    return entries
+      .filter(entry => entry.expiresAt > now)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear());
+  }
+}
+
+export const cacheService = new ResponseCacheService();
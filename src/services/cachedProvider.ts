@@ -0,0 +1,76 @@
+import { ItineraryProvider } from '../types/provider';
+import { PlaceDetails, TravelPlan, TravelPreferences, WeatherForecast } from '../types/travel';
+import { CacheEntry, cacheService } from './cacheService';
+import { formatCalendarDate } from './itineraryUtils';
+
+// Without a start date the plan is dated from today, so the day it was generated is part of the key
+const itineraryCacheInput = (preferences: TravelPreferences) => ({
+  ...preferences,
+  startDate: preferences.startDate || formatCalendarDate(new Date()),
+});
+
+/** The live cached itinerary a provider generated for these preferences, if any. */
+export const findCachedItinerary = (providerId: string, preferences: TravelPreferences): Promise<CacheEntry<TravelPlan> | null> =>
+  cacheService.get<TravelPlan>('itinerary', providerId, itineraryCacheInput(preferences));
+
+/**
+ * Wraps a provider so complete itineraries, forecasts and place details are served from the
+ * browser cache when an identical request was made before. Regeneration and chat refinement always
+ * go to the provider, since they are meant to produce something new.
+ */
+export const withCache = (provider: ItineraryProvider): ItineraryProvider => ({
+  id: provider.id,
+  label: provider.label,
+  requiresNetwork: provider.requiresNetwork,
+
+  parseNaturalLanguageQuery: (query, options) => provider.parseNaturalLanguageQuery(query, options),
+
+  async generateItinerary(preferences, options = {}) {
+    const cacheInput = itineraryCacheInput(preferences);
+    if (!options.bypassCache) {
+      const cached = await findCachedItinerary(provider.id, preferences);
+      if (cached) {
+        options.onCacheHit?.(cached.createdAt);
+        options.onProgress?.({ plan: cached.value, completedDays: cached.value.days.length, totalDays: preferences.duration });
+        return cached.value;
+      }
+    }
+
+    const plan = await provider.generateItinerary(preferences, options);
+    // Only complete plans are worth reusing
+    if (plan.days.length === preferences.duration) {
+      await cacheService.set('itinerary', provider.id, cacheInput, plan, `${preferences.duration}-day trip to ${preferences.destination}`);
+    }
+    return plan;
+  },
+
+  regenerateDay: (plan, dayNumber, options) => provider.regenerateDay(plan, dayNumber, options),
+  regenerateActivity: (plan, dayNumber, activityId, options) => provider.regenerateActivity(plan, dayNumber, activityId, options),
+  refineItinerary: (plan, instruction, options) => provider.refineItinerary(plan, instruction, options),
+
+  async getWeatherForecast(destination, startDate, duration, options) {
+    const cacheInput = { destination, startDate, duration };
+    const cached = await cacheService.get<WeatherForecast>('forecast', provider.id, cacheInput);
+    if (cached) {
+      return cached.value;
+    }
+    const forecast = await provider.getWeatherForecast(destination, startDate, duration, options);
+    if (forecast) {
+      await cacheService.set('forecast', provider.id, cacheInput, forecast, `${destination} forecast from ${startDate} (${duration} days)`);
+    }
+    return forecast;
+  },
+
+  async getPlaceDetails(placeName, destination, options) {
+    const cacheInput = { placeName, destination };
+    const cached = await cacheService.get<PlaceDetails>('place', provider.id, cacheInput);
+    if (cached) {
+      return cached.value;
+    }
+    const details = await provider.getPlaceDetails(placeName, destination, options);
+    if (details) {
+      await cacheService.set('place', provider.id, cacheInput, details, `${placeName}, ${destination}`);
+    }
+    return details;
+  },
+});
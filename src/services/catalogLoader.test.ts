@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { CatalogValidationError, findDestinationCatalog, findLocationCoordinates, parseDestinationCatalog } from './catalogLoader';
+
+const activity = {
+  id: 'lisbon-1',
+  name: 'Tram 28',
+  description: 'The old yellow tram through Alfama.',
+  duration: '1 hour',
+  category: 'culture',
+  estimatedCost: 3,
+  location: 'Alfama',
+  timeSlot: 'morning',
+};
+
+const catalog = (activities: unknown[]) => ({ id: 'lisbon', name: 'Lisbon', aliases: [], activities });
+
+// The issues a catalog is rejected with, as JSON paths
+const rejectedPaths = (raw: unknown): string[] => {
+  try {
+    parseDestinationCatalog(raw, 'lisbon.json');
+  } catch (error) {
+    if (error instanceof CatalogValidationError) {
+      return error.issues.map(issue => issue.path);
+    }
+    throw error;
+  }
+  throw new Error('The catalog was accepted.');
+};
+
+describe('parseDestinationCatalog', () => {
+  it('accepts a valid catalog', () => {
+    expect(parseDestinationCatalog(catalog([activity]), 'lisbon.json').activities.map(parsed => parsed.id)).toEqual(['lisbon-1']);
+  });
+
+  it('maps a legacy category onto the taxonomy and keeps it as a tag', () => {
+    const [parsed] = parseDestinationCatalog(catalog([{ ...activity, category: 'Beach', tags: ['sunset'] }]), 'lisbon.json').activities;
+
+    expect(parsed).toMatchObject({ category: 'relaxation', tags: ['sunset', 'beach'] });
+  });
+
+  it('rejects an unknown time slot with its path', () => {
+    expect(rejectedPaths(catalog([{ ...activity, timeSlot: 'noon' }]))).toEqual(['$.activities[0].timeSlot']);
+  });
+
+  it('rejects a duplicate activity id with its path', () => {
+    expect(rejectedPaths(catalog([activity, { ...activity, name: 'Tram 12' }]))).toEqual(['$.activities[1].id']);
+  });
+
+  it('names the file and the path in the message', () => {
+    expect(() => parseDestinationCatalog(catalog([{ ...activity, timeSlot: 'noon' }]), 'lisbon.json'))
+      .toThrow(/lisbon\.json.*\$\.activities\[0\]\.timeSlot/);
+  });
+});
+
+describe('findDestinationCatalog', () => {
+  it('resolves names with a country and aliases', () => {
+    expect(findDestinationCatalog('Tokyo, Japan')?.id).toBe('tokyo');
+    expect(findDestinationCatalog('Panjim')?.id).toBe('goa');
+  });
+
+  it('leaves destinations without a catalog unresolved', () => {
+    expect(findDestinationCatalog('Reykjavik, Iceland')).toBeUndefined();
+  });
+});
+
+describe('findLocationCoordinates', () => {
+  it('matches a known place within a longer location', () => {
+    expect(findLocationCoordinates('Tokyo', 'Ginza, Chuo City')).toEqual({ lat: 35.6717, lng: 139.765 });
+  });
+
+  it('knows nothing of places outside the catalog', () => {
+    expect(findLocationCoordinates('Tokyo', 'Somewhere Else')).toBeUndefined();
+  });
+});
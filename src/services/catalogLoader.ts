@@ -0,0 +1,275 @@
+import { DestinationCatalog, Restaurant } from '../types/catalog';
+import { Activity, MealType } from '../types/travel';
+import {
+  Json,
+  ValidationIssue,
+  definedFields,
+  formatValidationIssues,
+  isObject,
+  readAccessibility,
+  readAvailability,
+  readCategory,
+  readCoordinates,
+  readDiets,
+  readEnum,
+  readNumber,
+  readPricing,
+  readString,
+  readStringArray,
+} from './itineraryValidator';
+import { MEAL_TYPES, TIME_SLOTS, WEATHER_CONSIDERATIONS, categorizeLabel } from './taxonomy';
+
+/**
+ * Raised for a destination catalog file that does not match the documented format
+ * (see `src/data/destinations/README.md`). Carries every violation with its JSON path.
+ */
+export class CatalogValidationError extends Error {
+  readonly source: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(source: string, issues: ValidationIssue[]) {
+    super(`Invalid destination catalog ${source}: ${formatValidationIssues(issues, 5)}`);
+    this.name = 'CatalogValidationError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+const readLocations = (raw: Json, issues: ValidationIssue[]): DestinationCatalog['locations'] => {
+  const value = raw.locations;
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (!isObject(value)) {
+    issues.push({ path: '$.locations', message: 'must be an object mapping place names to { lat, lng }' });
+    return {};
+  }
+  const locations: DestinationCatalog['locations'] = {};
+  for (const name of Object.keys(value)) {
+    const coordinates = readCoordinates(value, name, '$.locations', issues);
+    if (coordinates) {
+      locations[name] = coordinates;
+    }
+  }
+  return locations;
+};
+
+const validateCatalogActivity = (raw: unknown, path: string, issues: ValidationIssue[]): Activity | undefined => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const before = issues.length;
+  const id = readString(raw, 'id', path, issues, true);
+  const name = readString(raw, 'name', path, issues, true);
+  const description = readString(raw, 'description', path, issues, true);
+  const duration = readString(raw, 'duration', path, issues, true);
+  // Only checks the label; the category is taken from it below, once the activity is known to be valid
+  readCategory(raw, path, issues);
+  const estimatedCost = readNumber(raw, 'estimatedCost', path, issues, true, { min: 0 });
+  const location = readString(raw, 'location', path, issues, true);
+  const timeSlot = readEnum(raw, 'timeSlot', path, issues, TIME_SLOTS, true);
+  const optional = definedFields({
+    coordinates: readCoordinates(raw, 'coordinates', path, issues),
+    weatherConsideration: readEnum(raw, 'weatherConsideration', path, issues, WEATHER_CONSIDERATIONS, false),
+    rating: readNumber(raw, 'rating', path, issues, false, { min: 0, max: 5 }),
+    photos: readStringArray(raw, 'photos', path, issues),
+    tags: readStringArray(raw, 'tags', path, issues),
+    availability: readAvailability(raw, path, issues),
+    pricing: readPricing(raw, path, issues),
+    minAge: readNumber(raw, 'minAge', path, issues, false, { min: 0, max: 99 }),
+    accessibility: readAccessibility(raw, path, issues),
+    dietOptions: readDiets(raw, 'dietOptions', path, issues),
+  });
+  // Required fields are only guaranteed when no new issue was recorded for this activity
+  if (issues.length !== before) {
+    return undefined;
+  }
+  // A legacy label such as "beach" is mapped onto the taxonomy and kept as a tag
+  const { category, tags } = categorizeLabel(String(raw.category), optional.tags);
+  return {
+    id: id!,
+    name: name!,
+    description: description!,
+    duration: duration!,
+    category,
+    estimatedCost: estimatedCost!,
+    location: location!,
+    timeSlot: timeSlot!,
+    ...optional,
+    ...definedFields({ tags }),
+  };
+};
+
+const validateRestaurant = (raw: unknown, path: string, issues: ValidationIssue[]): Restaurant | undefined => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const before = issues.length;
+  const mealTypes = Object.keys(MEAL_TYPES) as MealType[];
+  const meals = readStringArray(raw, 'meals', path, issues);
+  if (raw.meals === undefined || raw.meals === null || meals?.length === 0 || meals?.some(meal => !mealTypes.includes(meal as MealType))) {
+    issues.push({ path: `${path}.meals`, message: `must be a non-empty list of ${mealTypes.join(', ')}` });
+  }
+  const id = readString(raw, 'id', path, issues, true);
+  const name = readString(raw, 'name', path, issues, true);
+  const location = readString(raw, 'location', path, issues, true);
+  const estimatedCost = readNumber(raw, 'estimatedCost', path, issues, true, { min: 0 });
+  const optional = definedFields({
+    coordinates: readCoordinates(raw, 'coordinates', path, issues),
+    cuisine: readString(raw, 'cuisine', path, issues, false),
+    dietOptions: readDiets(raw, 'dietOptions', path, issues),
+  });
+  if (issues.length !== before) {
+    return undefined;
+  }
+  return { id: id!, name: name!, location: location!, meals: meals as MealType[], estimatedCost: estimatedCost!, ...optional };
+};
+
+/**
+ * Validates one parsed catalog file. `source` names the file in error messages.
+ */
+export const parseDestinationCatalog = (raw: unknown, source: string): DestinationCatalog => {
+  if (!isObject(raw)) {
+    throw new CatalogValidationError(source, [{ path: '$', message: 'must be a JSON object' }]);
+  }
+  const issues: ValidationIssue[] = [];
+  const id = readString(raw, 'id', '$', issues, true);
+  if (id && !/^[a-z0-9-]+$/.test(id)) {
+    issues.push({ path: '$.id', message: 'must be a lower-case slug (letters, digits and dashes)' });
+  }
+  const name = readString(raw, 'name', '$', issues, true);
+  const country = readString(raw, 'country', '$', issues, false);
+  const aliases = readStringArray(raw, 'aliases', '$', issues) ?? [];
+  const locations = readLocations(raw, issues);
+
+  const activities: Activity[] = [];
+  if (!Array.isArray(raw.activities) || raw.activities.length === 0) {
+    issues.push({ path: '$.activities', message: 'must be a non-empty array' });
+  } else {
+    const seenIds = new Set<string>();
+    raw.activities.forEach((activity, index) => {
+      const validated = validateCatalogActivity(activity, `$.activities[${index}]`, issues);
+      if (!validated) return;
+      if (seenIds.has(validated.id)) {
+        issues.push({ path: `$.activities[${index}].id`, message: `duplicates the id "${validated.id}"` });
+        return;
+      }
+      seenIds.add(validated.id);
+      activities.push(validated);
+    });
+  }
+
+  const restaurants: Restaurant[] = [];
+  if (raw.restaurants !== undefined) {
+    if (!Array.isArray(raw.restaurants)) {
+      issues.push({ path: '$.restaurants', message: 'must be an array' });
+    } else {
+      const seenIds = new Set<string>();
+      raw.restaurants.forEach((restaurant, index) => {
+        const validated = validateRestaurant(restaurant, `$.restaurants[${index}]`, issues);
+        if (!validated) return;
+        if (seenIds.has(validated.id)) {
+          issues.push({ path: `$.restaurants[${index}].id`, message: `duplicates the id "${validated.id}"` });
+          return;
+        }
+        seenIds.add(validated.id);
+        restaurants.push(validated);
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new CatalogValidationError(source, issues);
+  }
+  return { id: id!, name: name!, country, aliases, locations, activities, restaurants };
+};
+
+// Lower-case, accents stripped, punctuation collapsed: "Panjim, Goa " and "panjim goa" match
+const normalizeName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Registered catalogs keyed by id, and every normalized name or alias pointing at its catalog id
+const catalogs = new Map<string, DestinationCatalog>();
+const catalogNames = new Map<string, string>();
+
+/**
+ * Adds a destination to the offline catalog, replacing any catalog with the same id so curated
+ * lists can override the bundled ones.
+ */
+export const registerDestinationCatalog = (catalog: DestinationCatalog): void => {
+  catalogs.set(catalog.id, catalog);
+  const names = [catalog.id, catalog.name, ...catalog.aliases];
+  if (catalog.country) {
+    names.push(`${catalog.name}, ${catalog.country}`);
+  }
+  names.forEach(name => catalogNames.set(normalizeName(name), catalog.id));
+};
+
+export const listDestinationCatalogs = (): DestinationCatalog[] => Array.from(catalogs.values());
+
+/**
+ * Resolves a free-form destination ("Tokyo, Japan", "Panjim") to its catalog: first the full
+ * name, then each comma-separated part from the most specific one.
+ */
+export const findDestinationCatalog = (destination: string): DestinationCatalog | undefined => {
+  const candidates = [destination, ...destination.split(',')].map(normalizeName).filter(Boolean);
+  for (const candidate of candidates) {
+    const id = catalogNames.get(candidate);
+    if (id) {
+      return catalogs.get(id);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Coordinates for a free-form location ("Asakusa", "Ginza, Chuo City") at a catalog destination:
+ * the destination's location table first, then the locations of its activities. A name is matched
+ * whole or as a word sequence within `location`. Undefined for unknown destinations and places.
+ */
+export const findLocationCoordinates = (destination: string, location: string): Activity['coordinates'] => {
+  const catalog = findDestinationCatalog(destination);
+  const target = normalizeName(location);
+  if (!catalog || !target) {
+    return undefined;
+  }
+  const known: [string, NonNullable<Activity['coordinates']>][] = [
+    ...Object.entries(catalog.locations),
+    ...catalog.activities.flatMap(activity => (activity.coordinates ? [[activity.location, activity.coordinates] as [string, NonNullable<Activity['coordinates']>]] : [])),
+  ];
+  const exact = known.find(([name]) => normalizeName(name) === target);
+  const partial = known.find(([name]) => ` ${target} `.includes(` ${normalizeName(name)} `));
+  return (exact ?? partial)?.[1];
+};
+
+/**
+ * Rough centre of a catalog destination: the average of its known locations and activity
+ * coordinates. Undefined for destinations the catalog does not cover.
+ */
+export const findDestinationCoordinates = (destination: string): Activity['coordinates'] => {
+  const catalog = findDestinationCatalog(destination);
+  const points = catalog
+    ? [...Object.values(catalog.locations), ...catalog.activities.flatMap(activity => (activity.coordinates ? [activity.coordinates] : []))]
+    : [];
+  if (points.length === 0) {
+    return undefined;
+  }
+  return {
+    lat: points.reduce((total, point) => total + point.lat, 0) / points.length,
+    lng: points.reduce((total, point) => total + point.lng, 0) / points.length,
+  };
+};
+
+// Every JSON file in src/data/destinations is bundled; invalid ones are skipped so one bad file
+// cannot take the whole offline planner down
+const bundledCatalogs = import.meta.glob<unknown>('../data/destinations/*.json', { eager: true, import: 'default' });
+
+for (const [path, raw] of Object.entries(bundledCatalogs)) {
+  try {
+    registerDestinationCatalog(parseDestinationCatalog(raw, path.split('/').pop() ?? path));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,111 @@
+import { Activity, AgeBand, CostBreakdown, CostCategory, DayPlan, TravelPlan, TravelPreferences } from '../types/travel';
+import { PARTY_BANDS, countBand, getActivityPrice, getParty, getPartyActivityCost, getPartySize } from './party';
+import { getDayPreferences } from './tripLegs';
+
+type Tier = TravelPreferences['budget'];
+
+interface StayRates {
+  /** Travellers sharing one booking: a hostel bed sleeps one, a room two. */
+  occupancy: number;
+  /** Per bed or room and night, in USD. */
+  nightly: Record<Tier, number>;
+}
+
+// Rough nightly prices by accommodation type and budget tier
+const STAY_RATES: Record<TravelPreferences['accommodation'], StayRates> = {
+  hostel: { occupancy: 1, nightly: { budget: 25, 'mid-range': 40, luxury: 70 } },
+  hotel: { occupancy: 2, nightly: { budget: 60, 'mid-range': 130, luxury: 350 } },
+  resort: { occupancy: 2, nightly: { budget: 100, 'mid-range': 220, luxury: 550 } },
+  airbnb: { occupancy: 2, nightly: { budget: 50, 'mid-range': 110, luxury: 280 } },
+};
+
+// Per adult and day, for days without planned meals; dining activities are counted as activities
+export const MEALS_PER_DAY: Record<Tier, number> = { budget: 25, 'mid-range': 50, luxury: 120 };
+
+// Share of an adult's meal allowance each age band eats
+const MEAL_SHARE: Record<AgeBand, number> = { adult: 1, child: 0.5, senior: 1 };
+
+// Per person and ride: public transport on a budget, taxis in luxury
+const RIDE_FARE: Record<Tier, number> = { budget: 2, 'mid-range': 5, luxury: 20 };
+
+// Getting from the accommodation to the first activity and back again at night
+const DAILY_RIDES = 2;
+
+const CONTINGENCY_RATE = 0.1;
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  accommodation: 'Accommodation',
+  meals: 'Meals',
+  localTransport: 'Local transport',
+  activities: 'Activities',
+  transfers: 'Transfers between cities',
+  contingency: 'Contingency (10%)',
+};
+
+export const COST_CATEGORIES = Object.keys(COST_CATEGORY_LABELS) as CostCategory[];
+
+/**
+ * Estimates the full cost of the planned days for the whole group. Every day but the trip's last
+ * includes a night at that day's accommodation, priced by its type and the budget tier. Meals
+ * are the day's planned meals per adult, or a daily allowance for days without them, and
+ * children eat half as much. Local transport is one fare per
+ * transit leg plus the rides to and from the accommodation. Activities are priced for each
+ * member's age band, transfers come from the plan, and a contingency is added on top of
+ * everything. Stays, transport and transfers are shared equally in the per-member lines.
+ */
+export const estimateTripCosts = (days: DayPlan[], preferences: TravelPreferences): CostBreakdown => {
+  const party = getParty(preferences);
+  const groupSize = getPartySize(party) || 1;
+  const tier = preferences.budget;
+  const perGroup: Record<CostCategory, number> = { accommodation: 0, meals: 0, localTransport: 0, activities: 0, transfers: 0, contingency: 0 };
+  // Meals and activities for one member of each band
+  const bandCosts = Object.fromEntries(PARTY_BANDS.map(band => [band, 0])) as Record<AgeBand, number>;
+
+  for (const day of days) {
+    const stay = STAY_RATES[getDayPreferences(preferences, day.day - 1).accommodation] ?? STAY_RATES.hotel;
+    if (day.day < preferences.duration) {
+      perGroup.accommodation += Math.ceil(groupSize / stay.occupancy) * stay.nightly[tier];
+    }
+    const rides = DAILY_RIDES + day.activities.filter(activity => activity.travelFromPrevious?.mode === 'transit').length;
+    perGroup.localTransport += rides * RIDE_FARE[tier] * groupSize;
+    perGroup.transfers += (day.transfer?.estimatedCost ?? 0) * groupSize;
+    const dayMeals = day.meals ? day.meals.reduce((total, meal) => total + meal.estimatedCost, 0) : MEALS_PER_DAY[tier];
+    PARTY_BANDS.forEach(band => {
+      const meals = dayMeals * MEAL_SHARE[band];
+      const activities = day.activities.reduce((total, activity) => total + getActivityPrice(activity, band), 0);
+      perGroup.meals += meals * countBand(party, band);
+      perGroup.activities += activities * countBand(party, band);
+      bandCosts[band] += meals + activities;
+    });
+  }
+  COST_CATEGORIES.forEach(category => {
+    perGroup[category] = Math.round(perGroup[category]);
+  });
+  perGroup.contingency = Math.round(COST_CATEGORIES.reduce((total, category) => total + perGroup[category], 0) * CONTINGENCY_RATE);
+
+  const perPerson = Object.fromEntries(
+    COST_CATEGORIES.map(category => [category, Math.round(perGroup[category] / groupSize)])
+  ) as Record<CostCategory, number>;
+  const totalPerGroup = COST_CATEGORIES.reduce((total, category) => total + perGroup[category], 0);
+  const sharedPerPerson = (perGroup.accommodation + perGroup.localTransport + perGroup.transfers) / groupSize;
+  const perMember = PARTY_BANDS.filter(band => countBand(party, band) > 0).map(band => ({
+    band,
+    count: countBand(party, band),
+    perPerson: Math.round((bandCosts[band] + sharedPerPerson) * (1 + CONTINGENCY_RATE)),
+  }));
+  return { perGroup, perPerson, totalPerGroup, totalPerPerson: Math.round(totalPerGroup / groupSize), perMember };
+};
+
+/**
+ * What planning the activity adds to the trip estimate at most: its price for the party, a
+ * transit ride there for everyone and the contingency on both, rounded up to whole dollars.
+ */
+export const estimateActivityCost = (activity: Activity, preferences: TravelPreferences): number => {
+  const party = getParty(preferences);
+  const ride = RIDE_FARE[preferences.budget] * (getPartySize(party) || 1);
+  return Math.ceil((getPartyActivityCost(activity, party) + ride) * (1 + CONTINGENCY_RATE));
+};
+
+/** The plan's cost breakdown, estimated on the spot for plans saved before it was kept on them. */
+export const getCostBreakdown = (plan: TravelPlan): CostBreakdown =>
+  plan.costBreakdown ?? estimateTripCosts(plan.days, plan.preferences);
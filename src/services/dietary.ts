@@ -0,0 +1,34 @@
+import { Activity, DietaryNeed } from '../types/travel';
+import { DIETARY_NEEDS } from './taxonomy';
+
+/** Diets in listing order: vegetarian, vegan, halal, kosher, gluten-free. */
+export const DIETARY_NEED_VALUES = Object.keys(DIETARY_NEEDS) as DietaryNeed[];
+
+const DIET_PHRASES: [RegExp, DietaryNeed][] = [
+  [/\b(?:vegetarians?|veggie)\b/, 'vegetarian'],
+  [/\bvegans?\b/, 'vegan'],
+  [/\bhalal\b/, 'halal'],
+  [/\bkosher\b/, 'kosher'],
+  [/\b(?:gluten[- ]free|no gluten|coeliac|celiac)\b/, 'glutenFree'],
+];
+
+/** Reads diets from text such as "vegetarian", "halal food only" or "gluten-free"; undefined when none is mentioned. */
+export const parseDietary = (text: string): DietaryNeed[] | undefined => {
+  const lowerText = text.toLowerCase();
+  const dietary = DIET_PHRASES.filter(([pattern]) => pattern.test(lowerText)).map(([, need]) => need);
+  return dietary.length > 0 ? dietary : undefined;
+};
+
+/** "Vegetarian, gluten-free" */
+export const describeDietary = (dietary: DietaryNeed[]): string =>
+  dietary.map((need, index) => (index === 0 ? DIETARY_NEEDS[need].label : DIETARY_NEEDS[need].label.toLowerCase())).join(', ');
+
+/** Whether a place offering `dietOptions` caters for every diet; vegan food suits vegetarians too. */
+export const catersFor = (dietOptions: DietaryNeed[] | undefined, dietary: DietaryNeed[] | undefined): boolean => {
+  const offered: DietaryNeed[] = dietOptions?.includes('vegan') ? [...dietOptions, 'vegetarian'] : dietOptions ?? [];
+  return (dietary ?? []).every(need => offered.includes(need));
+};
+
+/** Whether the activity may be planned for the traveller's diet: anything but dining, or dining that caters for it. */
+export const suitsDiet = (activity: Pick<Activity, 'category' | 'dietOptions'>, dietary: DietaryNeed[] | undefined): boolean =>
+  activity.category !== 'dining' || catersFor(activity.dietOptions, dietary);
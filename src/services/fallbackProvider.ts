@@ -0,0 +1,98 @@
+import { ItineraryProvider } from '../types/provider';
+import { PlanFallback, TravelPlan } from '../types/travel';
+import { findCachedItinerary } from './cachedProvider';
+import { getGenerationErrorDetails, isAbortError } from './generationErrors';
+import { ModelRequestError } from './modelRequest';
+
+/**
+ * Whether a failure of the selected provider should be answered by the fallback. Cancellation is
+ * never retried elsewhere, and content-filter blocks are about the request itself, so the
+ * traveller is better served by rephrasing it.
+ */
+const shouldFallBack = (error: unknown): boolean =>
+  !isAbortError(error) && !(error instanceof ModelRequestError && error.kind === 'safety');
+
+/**
+ * Wraps a network provider so failed requests degrade instead of erroring: a failed itinerary is
+ * replaced by a cached plan for the same request when there is one, otherwise by `fallback`
+ * (the offline catalog). Such plans carry `fallback` so the UI can label them and offer a retry.
+ * Parsing, regeneration and chat refinement fall back to `fallback` directly.
+ */
+export const withFallback = (provider: ItineraryProvider, fallback: ItineraryProvider): ItineraryProvider => {
+  // Runs the provider's call, or the fallback's when it fails for a reason the fallback can help with
+  const attempt = async <T>(operation: string, primary: () => Promise<T>, secondary: () => Promise<T>): Promise<T> => {
+    try {
+      return await primary();
+    } catch (error) {
+      if (!shouldFallBack(error)) {
+        throw error;
+      }
+      console.warn(`${provider.label} failed to ${operation}; using ${fallback.label} instead.`, error);
+      return secondary();
+    }
+  };
+
+  return {
+    id: provider.id,
+    label: provider.label,
+    requiresNetwork: provider.requiresNetwork,
+
+    parseNaturalLanguageQuery: (query, options) => attempt(
+      'parse the request',
+      () => provider.parseNaturalLanguageQuery(query, options),
+      () => fallback.parseNaturalLanguageQuery(query, options)
+    ),
+
+    async generateItinerary(preferences, options = {}) {
+      try {
+        return await provider.generateItinerary(preferences, options);
+      } catch (error) {
+        if (!shouldFallBack(error)) {
+          throw error;
+        }
+        const label = (source: PlanFallback['source']): PlanFallback => ({
+          source,
+          failedProviderId: provider.id,
+          failedProviderLabel: provider.label,
+          reason: getGenerationErrorDetails(error).title,
+        });
+
+        const cached = await findCachedItinerary(provider.id, preferences);
+        if (cached) {
+          console.warn(`${provider.label} failed; serving the cached itinerary "${cached.label}" instead.`, error);
+          const plan: TravelPlan = { ...cached.value, fallback: label('cache') };
+          options.onProgress?.({ plan, completedDays: plan.days.length, totalDays: preferences.duration });
+          return plan;
+        }
+
+        console.warn(`${provider.label} failed; generating the itinerary with ${fallback.label} instead.`, error);
+        const plan = await fallback.generateItinerary(preferences, options);
+        // A fallback that knows nothing about the destination is no better than the original error
+        if (plan.days.every(day => day.activities.length === 0)) {
+          throw error;
+        }
+        return { ...plan, fallback: label('catalog') };
+      }
+    },
+
+    regenerateDay: (plan, dayNumber, options) => attempt(
+      'regenerate the day',
+      () => provider.regenerateDay(plan, dayNumber, options),
+      () => fallback.regenerateDay(plan, dayNumber, options)
+    ),
+    regenerateActivity: (plan, dayNumber, activityId, options) => attempt(
+      'find a replacement activity',
+      () => provider.regenerateActivity(plan, dayNumber, activityId, options),
+      () => fallback.regenerateActivity(plan, dayNumber, activityId, options)
+    ),
+    refineItinerary: (plan, instruction, options) => attempt(
+      'refine the itinerary',
+      () => provider.refineItinerary(plan, instruction, options),
+      () => fallback.refineItinerary(plan, instruction, options)
+    ),
+
+    // Both already resolve to null instead of failing
+    getWeatherForecast: (destination, startDate, duration, options) => provider.getWeatherForecast(destination, startDate, duration, options),
+    getPlaceDetails: (placeName, destination, options) => provider.getPlaceDetails(placeName, destination, options),
+  };
+};
@@ -0,0 +1,302 @@
+import { ResponseSchema, Schema, SchemaType } from '@google/generative-ai';
+import {
+  AccessibilityNeed,
+  AccessibilityPreferences,
+  ActivityAccessibility,
+  ActivityAvailability,
+  AgePricing,
+  BudgetCap,
+  ExtractedTravelInfo,
+  GeminiActivityResponse,
+  GeminiDayResponse,
+  GeminiItineraryEdit,
+  GeminiMealResponse,
+  GeminiRefinementResponse,
+  GeminiTripOverview,
+  GeminiWeatherResponse,
+  PlaceDetails,
+  TravelParty,
+  TravelPreferences,
+  TripLeg,
+  WeatherForecast,
+  WeatherInfo,
+} from '../types/travel';
+import { ACCESSIBILITY_NEED_VALUES } from './accessibility';
+import { DIETARY_NEED_VALUES } from './dietary';
+import { EDIT_ACTIONS } from './itineraryValidator';
+import { ACCESSIBILITY_NEEDS, ACTIVITY_CATEGORIES, BUDGET_TIERS, CURRENCIES, INTERESTS, MEAL_TYPES, TIME_SLOTS, WEATHER_CONSIDERATIONS, WEEKDAYS } from './taxonomy';
+
+// Response schemas sent to Gemini as `generationConfig.responseSchema`. Each `properties` map is
+// checked against the matching interface in types/travel.ts, so adding a field to a type without
+// describing it here is a compile error.
+
+const text = (description?: string, nullable = false): Schema => ({ type: SchemaType.STRING, description, nullable });
+const number = (description?: string, nullable = false): Schema => ({ type: SchemaType.NUMBER, description, nullable });
+const integer = (description?: string, nullable = false): Schema => ({ type: SchemaType.INTEGER, description, nullable });
+const oneOf = (values: readonly string[], description?: string, nullable = false): Schema => ({
+  type: SchemaType.STRING,
+  format: 'enum',
+  enum: [...values],
+  description,
+  nullable,
+});
+const listOf = (items: Schema, description?: string): Schema => ({ type: SchemaType.ARRAY, items, description });
+const textList = (description?: string): Schema => listOf(text(), description);
+
+const temperatureSchema: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    min: number('Minimum temperature in Celsius'),
+    max: number('Maximum temperature in Celsius'),
+  },
+  required: ['min', 'max'],
+};
+
+const dayWeatherSchema: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    temperature: temperatureSchema,
+    condition: text('Short condition, e.g. "Sunny", "Partly Cloudy", "Rain"'),
+    description: text(),
+    humidity: number('Relative humidity in percent'),
+    precipitation: number('Chance of precipitation in percent'),
+    recommendation: text('Clothing or activity advice for the weather'),
+    date: text('YYYY-MM-DD'),
+  } satisfies Record<keyof GeminiWeatherResponse, Schema>,
+  required: ['temperature', 'condition', 'precipitation', 'recommendation'],
+};
+
+const availabilitySchema: Schema = {
+  type: SchemaType.OBJECT,
+  description: 'Known restrictions on when the activity can be done; omit when there are none',
+  nullable: true,
+  properties: {
+    openDays: listOf(oneOf(WEEKDAYS), 'Days of the week it is open; omit when open every day'),
+    months: listOf(integer(), 'Months it is available or in season (1 = January); omit when all year'),
+    bookingLeadDays: integer('Days in advance tickets or a tour must be booked', true),
+    permitRequired: { type: SchemaType.BOOLEAN, description: 'Whether a permit must be arranged', nullable: true },
+  } satisfies Record<keyof ActivityAvailability, Schema>,
+};
+
+const pricingSchema: Schema = {
+  type: SchemaType.OBJECT,
+  description: 'Per-person prices in USD for children and seniors; omit when everyone pays the same',
+  nullable: true,
+  properties: {
+    child: number('Price for a child, 0 when free', true),
+    senior: number('Price for a senior', true),
+  } satisfies Record<keyof AgePricing, Schema>,
+};
+
+const accessibilityNeed = (need: AccessibilityNeed): Schema => ({
+  type: SchemaType.BOOLEAN,
+  description: `Whether it offers ${ACCESSIBILITY_NEEDS[need].label.toLowerCase()} (${ACCESSIBILITY_NEEDS[need].description.toLowerCase()}); null when not known`,
+  nullable: true,
+});
+
+const accessibilitySchema: Schema = {
+  type: SchemaType.OBJECT,
+  description: 'What is known about access for travellers with mobility, hearing or visual needs',
+  nullable: true,
+  properties: {
+    stepFree: accessibilityNeed('stepFree'),
+    stroller: accessibilityNeed('stroller'),
+    hearingAids: accessibilityNeed('hearingAids'),
+    visualAids: accessibilityNeed('visualAids'),
+    walkingKm: number('Walking the activity itself involves, in km', true),
+  } satisfies Record<keyof ActivityAccessibility, Schema>,
+};
+
+export const activitySchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    id: text('Unique id for the activity within the itinerary'),
+    name: text(),
+    description: text('Why the activity is recommended for these preferences'),
+    duration: text('Human readable duration, e.g. "2 hours"'),
+    category: oneOf(ACTIVITY_CATEGORIES),
+    estimatedCost: number('Cost per adult in USD, 0 when free'),
+    location: text('Exact address or major landmark'),
+    timeSlot: oneOf(TIME_SLOTS),
+    weatherConsideration: oneOf(WEATHER_CONSIDERATIONS),
+    rating: number('Estimated rating out of 5'),
+    photos: textList('Short descriptions of representative images'),
+    availability: availabilitySchema,
+    pricing: pricingSchema,
+    minAge: integer('Youngest age the activity is suitable for; omit when suitable for all ages', true),
+    accessibility: accessibilitySchema,
+    dietOptions: listOf(oneOf(DIETARY_NEED_VALUES), 'For dining: diets it caters for'),
+  } satisfies Record<keyof GeminiActivityResponse, Schema>,
+  required: ['id', 'name', 'description', 'duration', 'category', 'estimatedCost', 'location', 'timeSlot', 'weatherConsideration'] satisfies (keyof GeminiActivityResponse)[],
+};
+
+const mealSchema: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    meal: oneOf(Object.keys(MEAL_TYPES)),
+    name: text('Restaurant, cafe or food stall'),
+    location: text('Neighbourhood or street, close to the activities around the meal'),
+    cuisine: text(undefined, true),
+    estimatedCost: number('Per adult, in USD'),
+    dietOptions: listOf(oneOf(DIETARY_NEED_VALUES), 'Diets it caters for'),
+  } satisfies Record<keyof GeminiMealResponse, Schema>,
+  required: ['meal', 'name', 'location', 'estimatedCost'] satisfies (keyof GeminiMealResponse)[],
+};
+
+export const daySchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    day: integer('1-based day number'),
+    date: text('Actual calendar date for this day, YYYY-MM-DD'),
+    notes: text('Daily overview or welcome note'),
+    weather: dayWeatherSchema,
+    activities: listOf(activitySchema),
+    meals: listOf(mealSchema, 'Where to have breakfast, lunch and dinner; leave out meals a dining activity covers'),
+    dailyTravelTips: textList('Tips specific to this day or area'),
+  } satisfies Record<keyof GeminiDayResponse, Schema>,
+  required: ['day', 'date', 'activities'] satisfies (keyof GeminiDayResponse)[],
+};
+
+export const refinementSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    summary: text('One or two friendly sentences telling the traveller what was changed'),
+    edits: listOf({
+      type: SchemaType.OBJECT,
+      properties: {
+        action: oneOf(EDIT_ACTIONS),
+        day: integer('1-based day number the edit applies to'),
+        activityId: text('Id of the activity to replace or remove; omit for "add"'),
+        activity: { ...activitySchema, description: 'The new activity for "add" and "replace"; omit for "remove"' },
+      } satisfies Record<keyof GeminiItineraryEdit, Schema>,
+      required: ['action', 'day'] satisfies (keyof GeminiItineraryEdit)[],
+    }, 'Changes to apply, in order; empty when nothing should change'),
+  } satisfies Record<keyof GeminiRefinementResponse, Schema>,
+  required: ['summary', 'edits'] satisfies (keyof GeminiRefinementResponse)[],
+};
+
+export const tripOverviewSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    id: text(),
+    destination: text(),
+    duration: integer('Number of days'),
+    weatherSummary: text('Weather overview for the whole trip'),
+    travelTips: textList(),
+    emergencyInfo: {
+      type: SchemaType.OBJECT,
+      properties: {
+        contacts: textList('Local emergency, police and ambulance numbers'),
+        hospitals: textList('Recommended hospitals with addresses'),
+        embassies: textList('Relevant embassy addresses'),
+      },
+      required: ['contacts', 'hospitals', 'embassies'],
+    },
+  } satisfies Record<keyof GeminiTripOverview, Schema>,
+  required: ['destination', 'duration', 'weatherSummary', 'travelTips', 'emergencyInfo'] satisfies (keyof GeminiTripOverview)[],
+};
+
+export const extractedInfoSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    destination: text('City and country, e.g. "Paris, France"', true),
+    duration: integer('Number of days', true),
+    startDate: text('YYYY-MM-DD', true),
+    budget: oneOf(BUDGET_TIERS.map(tier => tier.value), undefined, true),
+    budgetCap: {
+      type: SchemaType.OBJECT,
+      description: 'Only when a total amount is stated, e.g. "under $2000" or "1500 euros"',
+      nullable: true,
+      properties: {
+        amount: number('Total for the whole trip and group'),
+        currency: oneOf(Object.keys(CURRENCIES)),
+      } satisfies Record<keyof BudgetCap, Schema>,
+      required: ['amount', 'currency'],
+    },
+    interests: textList(`Use these labels where they fit: ${Object.keys(INTERESTS).join(', ')}. Keep other interests as stated`),
+    groupSize: integer('Number of travellers', true),
+    party: {
+      type: SchemaType.OBJECT,
+      description: 'Only when the request says who is travelling by age, e.g. "2 adults and 2 kids"',
+      nullable: true,
+      properties: {
+        adults: integer('Travellers aged 18-64'),
+        children: integer('Travellers under 18'),
+        seniors: integer('Travellers aged 65 or over'),
+        childAges: listOf(integer(), 'Ages of the children that are stated; leave empty otherwise'),
+      } satisfies Record<keyof TravelParty, Schema>,
+      required: ['adults', 'children', 'seniors'],
+    },
+    accessibility: {
+      type: SchemaType.OBJECT,
+      description: 'Only when the request mentions accessibility, e.g. "wheelchair accessible", "with a stroller" or "can\'t walk far"',
+      nullable: true,
+      properties: {
+        needs: listOf(oneOf(ACCESSIBILITY_NEED_VALUES), 'Needs every activity must meet'),
+        maxWalkingKm: number('Most walking per day in km, when a limit is stated; 2 for "limited walking"', true),
+      } satisfies Record<keyof AccessibilityPreferences, Schema>,
+      required: ['needs'],
+    },
+    dietary: listOf(oneOf(DIETARY_NEED_VALUES), 'Diets stated in the request, e.g. "vegetarian" or "halal"; leave empty otherwise'),
+    travelStyle: oneOf(['relaxed', 'moderate', 'packed'] satisfies TravelPreferences['travelStyle'][], undefined, true),
+    accommodation: oneOf(['hostel', 'hotel', 'resort', 'airbnb'] satisfies TravelPreferences['accommodation'][], undefined, true),
+    specificRequests: textList('e.g. "romantic dinner", "sea view"; accessibility needs and diets have their own fields'),
+    legs: listOf(
+      {
+        type: SchemaType.OBJECT,
+        properties: {
+          destination: text('City and country'),
+          nights: integer('Number of days spent in this city'),
+          accommodation: oneOf(['hostel', 'hotel', 'resort', 'airbnb'] satisfies TravelPreferences['accommodation'][], undefined, true),
+        } satisfies Record<keyof TripLeg, Schema>,
+        required: ['destination', 'nights'],
+      },
+      'Only for a trip through several cities: each city in travel order; leave empty otherwise'
+    ),
+  } satisfies Record<keyof ExtractedTravelInfo, Schema>,
+  required: ['interests', 'specificRequests'],
+};
+
+export const weatherForecastSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    location: text(),
+    forecast: listOf({
+      type: SchemaType.OBJECT,
+      properties: {
+        date: text('YYYY-MM-DD'),
+        temperature: temperatureSchema,
+        condition: oneOf(['sunny', 'cloudy', 'rainy', 'snowy', 'partly cloudy']),
+        description: text(),
+        humidity: number('Relative humidity in percent'),
+        precipitation: number('Chance of precipitation in percent'),
+        recommendation: text('Clothing or activity advice for the weather'),
+      } satisfies Record<keyof WeatherInfo, Schema>,
+      required: ['date', 'temperature', 'condition', 'description', 'humidity', 'precipitation', 'recommendation'] satisfies (keyof WeatherInfo)[],
+    }),
+  } satisfies Record<keyof WeatherForecast, Schema>,
+  required: ['location', 'forecast'],
+};
+
+export const placeDetailsSchema: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    name: text(),
+    description: text(),
+    location: text('Specific address or well known area'),
+    coordinates: {
+      type: SchemaType.OBJECT,
+      properties: { lat: number(), lng: number() },
+      required: ['lat', 'lng'],
+      description: 'Approximate if exact coordinates are unknown',
+    },
+    rating: number('Estimated rating out of 5'),
+    photos: textList('Short descriptions of representative photos'),
+    openingHours: text('e.g. "9 AM - 6 PM daily"'),
+    entryFee: number('Cost in USD, 0 for free'),
+    bestTimeToVisit: text(),
+    tips: textList(),
+    nearbyAttractions: textList(),
+  } satisfies Record<keyof PlaceDetails, Schema>,
+  required: ['name', 'description', 'location'] satisfies (keyof PlaceDetails)[],
+};
@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { GenerateContentRequest, GenerateContentResult } from '@google/generative-ai';
+import { GeminiModelClient, GeminiTravelAgent } from './geminiService';
+import { daySchema, placeDetailsSchema, tripOverviewSchema } from './geminiSchemas';
+import { TravelPreferences } from '../types/travel';
+
+const preferences: TravelPreferences = {
+  destination: 'Paris',
+  duration: 1,
+  budget: 'mid-range',
+  interests: ['Art & Museums'],
+  travelStyle: 'moderate',
+  groupSize: 2,
+  accommodation: 'hotel',
+};
+
+const overview = {
+  destination: 'Paris',
+  duration: 1,
+  weatherSummary: 'Mild and mostly dry.',
+  travelTips: ['Book museum tickets ahead.'],
+  emergencyInfo: { contacts: ['112'], hospitals: [], embassies: [] },
+};
+
+const activity = {
+  name: 'Musée d’Orsay',
+  description: 'Impressionist masterpieces in a former railway station.',
+  duration: '3 hours',
+  category: 'culture',
+  estimatedCost: 16,
+  location: 'Rue de la Légion d’Honneur',
+  timeSlot: 'morning',
+  weatherConsideration: 'indoor',
+};
+
+const day = { day: 1, date: '2026-05-04', activities: [activity] };
+
+/**
+ * A stand-in for the SDK model that answers with the given JSON documents in turn and records
+ * every request it receives.
+ */
+const createStubModel = (...answers: unknown[]) => {
+  const requests: GenerateContentRequest[] = [];
+  const model: GeminiModelClient = {
+    generateContent: vi.fn(async (request: GenerateContentRequest | string | unknown[]) => {
+      requests.push(request as GenerateContentRequest);
+      const answer = answers.shift();
+      if (answer === undefined) {
+        throw new Error('The stub model has no answer left.');
+      }
+      return { response: { text: () => JSON.stringify(answer) } } as GenerateContentResult;
+    }),
+  };
+  return { model, requests };
+};
+
+describe('GeminiTravelAgent with a stubbed model', () => {
+  it('asks for JSON matching the overview and day schemas', async () => {
+    const { model, requests } = createStubModel(overview, day);
+    const plan = await new GeminiTravelAgent(model).generateItinerary(preferences);
+
+    expect(requests.map(request => request.generationConfig?.responseMimeType)).toEqual(['application/json', 'application/json']);
+    expect(requests.map(request => request.generationConfig?.responseSchema)).toEqual([tripOverviewSchema, daySchema]);
+    expect(plan.days).toHaveLength(1);
+    expect(plan.days[0].activities.map(planned => planned.name)).toEqual(['Musée d’Orsay']);
+  });
+
+  it('sends validation issues back to the model and uses the repaired answer', async () => {
+    const { model, requests } = createStubModel(overview, { ...day, activities: [{ ...activity, timeSlot: 'noon' }] }, day);
+    const plan = await new GeminiTravelAgent(model).generateItinerary(preferences);
+
+    expect(requests).toHaveLength(3);
+    const repairPrompt = requests[2].contents[requests[2].contents.length - 1].parts[0].text;
+    expect(repairPrompt).toContain('- $.activities[0].timeSlot: must be one of morning, afternoon, evening');
+    expect(plan.days[0].activities[0].timeSlot).toBe('morning');
+  });
+
+  it('rejects a refinement without edits with the model’s explanation', async () => {
+    const explanation = 'That is about flights, not this itinerary, so I changed nothing.';
+    const { model } = createStubModel(overview, day, { summary: explanation, edits: [] });
+    const agent = new GeminiTravelAgent(model);
+    const plan = await agent.generateItinerary(preferences);
+
+    await expect(agent.refineItinerary(plan, 'Book me a flight home')).rejects.toThrow(explanation);
+  });
+
+  it('returns null for place details that still fail validation after the repairs', async () => {
+    const invalid = { name: 'Louvre', location: 'Rue de Rivoli', rating: 7 };
+    const { model, requests } = createStubModel(invalid, invalid, invalid);
+
+    await expect(new GeminiTravelAgent(model).getPlaceDetails('Louvre', 'Paris')).resolves.toBeNull();
+    expect(requests.map(request => request.generationConfig?.responseSchema)).toEqual([placeDetailsSchema, placeDetailsSchema, placeDetailsSchema]);
+  });
+});
+
+describe('weather on a multi-city trip', () => {
+  const tokyoToKyoto: TravelPreferences = {
+    ...preferences,
+    destination: 'Tokyo → Kyoto',
+    duration: 2,
+    startDate: '2026-04-06',
+    legs: [{ destination: 'Tokyo', nights: 1 }, { destination: 'Kyoto', nights: 1 }],
+  };
+
+  const forecast = (location: string, date: string, condition: string) => ({
+    location,
+    forecast: [{ date, temperature: { min: 9, max: 17 }, condition, description: condition, humidity: 70, precipitation: 30, recommendation: 'Bring an umbrella.' }],
+  });
+
+  it('asks for each city’s forecast and plans each day with its own', async () => {
+    const { model, requests } = createStubModel(
+      forecast('Tokyo', '2026-04-06', 'Drizzle'),
+      forecast('Kyoto', '2026-04-07', 'Sunny'),
+      overview,
+      day,
+      { ...day, day: 2 }
+    );
+    await new GeminiTravelAgent(model).generateItinerary(tokyoToKyoto);
+    const prompt = (index: number) => requests[index].contents[0].parts[0].text ?? '';
+
+    expect(prompt(0)).toContain('forecast for Tokyo starting from 2026-04-06');
+    expect(prompt(1)).toContain('forecast for Kyoto starting from 2026-04-07');
+    expect(prompt(3)).toContain('"condition":"Drizzle"');
+    expect(prompt(4)).toContain('"condition":"Sunny"');
+  });
+
+  it('keeps each city’s fetched forecast on its days, as the weather re-check does', async () => {
+    const { model } = createStubModel(
+      forecast('Tokyo', '2026-04-06', 'Drizzle'),
+      forecast('Kyoto', '2026-04-07', 'Sunny'),
+      overview,
+      day,
+      { ...day, day: 2 }
+    );
+    const plan = await new GeminiTravelAgent(model).generateItinerary(tokyoToKyoto);
+
+    expect(plan.days.map(planned => planned.weather?.condition)).toEqual(['Drizzle', 'Sunny']);
+  });
+});
+
+describe('day prompts in a time zone behind UTC', () => {
+  const originalTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = 'America/New_York';
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  it('name the weekday of the planned date', async () => {
+    const forecast = { location: 'Paris', forecast: [] };
+    const { model, requests } = createStubModel(forecast, overview, { ...day, date: '2025-03-05' });
+    await new GeminiTravelAgent(model).generateItinerary({ ...preferences, startDate: '2025-03-05' });
+
+    expect(requests[2].contents[0].parts[0].text).toContain('open on Wednesday, 2025-03-05');
+  });
+});
@@ -1,406 +1,622 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { TravelPreferences, TravelPlan, NaturalLanguageQuery, GeminiResponse, Activity, DayPlan } from '../types/travel'; // Ensure DayPlan and Activity are imported
+import { Content, GenerativeModel, GoogleGenerativeAI, HarmBlockThreshold, HarmCategory, ResponseSchema } from '@google/generative-ai';
+import {
+  TravelPreferences,
+  TravelPlan,
+  NaturalLanguageQuery,
+  GeminiActivityResponse,
+  GeminiDayResponse,
+  GeminiMealResponse,
+  GeminiTripOverview,
+  GeminiRefinementResponse,
+  Activity,
+  DayPlan,
+  Meal,
+  WeatherForecast,
+  WeatherInfo,
+  PlaceDetails,
+} from '../types/travel';
+import { GenerationOptions, ItineraryProvider, ItineraryRefinement, RequestOptions } from '../types/provider';
+import {
+  ItineraryValidationError,
+  ValidationIssue,
+  ValidationResult,
+  parseAndValidate,
+  validateGeminiActivity,
+  validateGeminiDay,
+  validateGeminiOverview,
+  validateGeminiRefinement,
+  validatePlaceDetails,
+  validateWeatherForecast,
+} from './itineraryValidator';
+import { activitySchema, daySchema, extractedInfoSchema, refinementSchema, placeDetailsSchema, tripOverviewSchema, weatherForecastSchema } from './geminiSchemas';
+import { applyItineraryEdits, arrangeDay, createEmptyPlan, findActivity, findDay, formatCalendarDate, formatDayDate, getTripDate, withTotals } from './itineraryUtils';
+import { isAbortError, isKnownGenerationError } from './generationErrors';
+import { ModelRequestError, requestModel } from './modelRequest';
+import { getScheduleOptions } from './scheduler';
+import { fitPlanToBudget, formatMoney, getBudgetCapUsd } from './budgetCap';
+import { describeParty, getParty, getYoungestAge } from './party';
+import { hasAccessibilityNeeds } from './accessibility';
+import { describeDietary } from './dietary';
+import { ACCESSIBILITY_NEEDS, TRAVEL_STYLES } from './taxonomy';
+import { describeTransfer, getDayLeg, getDayTransfer, getTripLegs, isMultiCity } from './tripLegs';
+import { fetchLegForecasts, rebalanceForWeather, withDayWeather } from './weatherRebalance';
+
+// How activity prices are given, repeated in every prompt that asks for activities
+const COSTS_NOTE = "All costs are in USD: 'estimatedCost' per adult, and 'pricing' for children and seniors where they pay differently.";
+
+// How many times an invalid itinerary is sent back to the model with its errors before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
 
 // Initialize Gemini AI (you'll need to add your API key to environment variables)
 const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || 'demo-key');
 
-export class GeminiTravelAgent {
-  // *** THIS LINE HAS BEEN UPDATED ***
+/**
+ * The slice of the SDK model the agent relies on. Passing a local stub here lets the agent run
+ * without a key and lets callers inspect the requests (including the response schema) it sends.
+ */
+export type GeminiModelClient = Pick<GenerativeModel, 'generateContent'>;
+
+export class GeminiTravelAgent implements ItineraryProvider {
+  readonly id = 'gemini';
+  readonly label = 'Gemini AI';
+  readonly requiresNetwork = true;
+
   // Using 'gemini-1.5-flash' as it's generally available and a good balance of speed/cost.
-  private model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
   // If you prefer, you can also try 'gemini-2.0-flash' for the latest flash model.
+  constructor(private model: GeminiModelClient = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' })) {}
 
   private safetySettings = [ // Added basic safety settings
     {
-      category: 'HARM_CATEGORY_HARASSMENT',
-      threshold: 'BLOCK_NONE',
+      category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+      threshold: HarmBlockThreshold.BLOCK_NONE,
     },
     {
-      category: 'HARM_CATEGORY_HATE_SPEECH',
-      threshold: 'BLOCK_NONE',
+      category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+      threshold: HarmBlockThreshold.BLOCK_NONE,
     },
     {
-      category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-      threshold: 'BLOCK_NONE',
+      category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+      threshold: HarmBlockThreshold.BLOCK_NONE,
     },
     {
-      category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-      threshold: 'BLOCK_NONE',
+      category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+      threshold: HarmBlockThreshold.BLOCK_NONE,
     },
   ];
 
-  async parseNaturalLanguageQuery(query: string): Promise<NaturalLanguageQuery> {
+  async parseNaturalLanguageQuery(query: string, options: RequestOptions = {}): Promise<NaturalLanguageQuery> {
+    const today = formatCalendarDate(new Date());
     const prompt = `
-    Analyze the following travel request and extract the key preferences into a structured JSON object.
-    Be precise with data types (e.g., numbers for duration and groupSize, array of strings for interests and specificRequests).
-    If a value cannot be inferred, use 'null' for strings/numbers or an empty array for lists.
+    Analyze the following travel request and extract the key preferences.
+    Today's date is ${today}; resolve relative dates such as "next month" against it.
+    If a value cannot be inferred, leave it null (or an empty list for interests and specificRequests).
 
     Query: "${query}"
-    
-    Expected JSON format:
-    {
-      "destination": "string | null", // e.g., "Paris, France"
-      "duration": "number | null", // number of days, e.g., 5
-      "startDate": "YYYY-MM-DD | null", // formatted date, e.g., "2024-08-15"
-      "budget": "budget | mid-range | luxury | null", // one of these specific strings
-      "interests": "string[]", // e.g., ["Culture & History", "Food & Dining"]
-      "groupSize": "number | null", // e.g., 2
-      "specificRequests": "string[]" // e.g., ["vegetarian options", "wheelchair accessible"]
-    }
-    
-    Example:
-    Query: "Plan a 7-day trip to Rome for a couple, starting next month, mid-range budget, interested in history and local food."
-    Response:
-    {
-      "destination": "Rome, Italy",
-      "duration": 7,
-      "startDate": "2025-08-01", // Assuming 'next month' from current date (July 2025)
-      "budget": "mid-range",
-      "interests": ["Culture & History", "Food & Dining"],
-      "groupSize": 2,
-      "specificRequests": []
-    }
-
-    Query: "${query}"
-    Response:
     `;
 
     try {
-      const result = await this.model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        safetySettings: this.safetySettings,
-      });
-      const responseText = result.response.text();
-      
-      // Attempt to clean and parse JSON
-      const cleanedText = this.cleanJsonString(responseText);
-      const extractedInfo = JSON.parse(cleanedText);
+      const responseText = await this.generateJson([{ role: 'user', parts: [{ text: prompt }] }], extractedInfoSchema, options.signal);
+      const extractedInfo = this.dropNulls(JSON.parse(responseText)) as NaturalLanguageQuery['extractedInfo'];
+      // Legs and the accessibility needs carry nulls of their own
+      if (extractedInfo?.legs) {
+        extractedInfo.legs = extractedInfo.legs.map(({ accommodation, ...leg }) => (accommodation ? { ...leg, accommodation } : leg));
+      }
+      if (extractedInfo?.accessibility) {
+        const { needs, maxWalkingKm } = extractedInfo.accessibility;
+        extractedInfo.accessibility = typeof maxWalkingKm === 'number' ? { needs, maxWalkingKm } : { needs };
+      }
 
       return {
         query,
-        extractedInfo: extractedInfo // Assuming extractedInfo matches TravelPreferences structure partially
-      } as NaturalLanguageQuery; // Cast to NaturalLanguageQuery type
+        extractedInfo
+      };
     } catch (error) {
+      // The service itself failing is worth telling the traveller about; asking them questions would not help
+      if (error instanceof ModelRequestError || isAbortError(error)) {
+        throw error;
+      }
       console.error('Error parsing natural language query:', error);
-      // Return a default structure or re-throw
+      // Malformed JSON: return an empty extraction so callers fall back to their own defaults
       return { 
         query, 
         extractedInfo: {
-          destination: null,
-          duration: null,
-          startDate: null,
-          budget: null,
           interests: [],
-          groupSize: null,
-          travelStyle: null, // Add travelStyle to extractedInfo
-          accommodation: null, // Add accommodation to extractedInfo
           specificRequests: []
         }
       };
     }
   }
 
-  async generateItinerary(preferences: TravelPreferences): Promise<TravelPlan> {
-    // 1. Get Weather Forecast (before building the main prompt)
-    let weatherData = null;
+  async generateItinerary(preferences: TravelPreferences, options: GenerationOptions = {}): Promise<TravelPlan> {
+    const { onProgress, signal } = options;
+
+    // 1. Get Weather Forecast (before building the prompts), one per city on multi-city trips
+    let dayWeather: (WeatherInfo | undefined)[] = [];
     if (preferences.startDate && preferences.destination) {
       try {
-        weatherData = await this.getWeatherForecast(preferences.destination, preferences.startDate, preferences.duration);
-        console.log('Fetched weather data:', weatherData);
+        dayWeather = await fetchLegForecasts(preferences, (destination, startDate, duration) =>
+          this.getWeatherForecast(destination, startDate, duration, { signal }));
+        console.log('Fetched weather data:', dayWeather);
       } catch (weatherError) {
+        if (isAbortError(weatherError)) {
+          throw weatherError;
+        }
         console.warn('Could not fetch weather forecast:', weatherError);
         // Continue without weather if API fails
       }
     }
 
-    const prompt = this.buildItineraryPrompt(preferences, weatherData);
-    
     try {
-      console.log('Sending itinerary generation prompt to Gemini...');
-      const result = await this.model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        safetySettings: this.safetySettings,
-      });
-      const responseText = result.response.text();
-      console.log('Gemini raw response:', responseText);
-      
-      const cleanedText = this.cleanJsonString(responseText);
-      const geminiResponse: GeminiResponse = JSON.parse(cleanedText);
-      
-      return this.processGeminiResponse(geminiResponse, preferences);
+      // 2. Trip-level overview first, so the results page has something to show right away
+      console.log('Sending trip overview prompt to Gemini...');
+      const overview = await this.generateValidated(
+        this.buildOverviewPrompt(preferences, dayWeather),
+        tripOverviewSchema,
+        validateGeminiOverview,
+        signal
+      );
+      let plan = this.processOverview(overview, preferences);
+      onProgress?.({ plan, completedDays: 0, totalDays: preferences.duration });
+
+      // 3. Then one request per day, each seeing what earlier days already cover
+      for (let index = 0; index < preferences.duration; index++) {
+        signal?.throwIfAborted();
+        console.log(`Generating day ${index + 1} of ${preferences.duration}...`);
+        const day = await this.generateValidated(
+          this.buildDayPrompt(preferences, plan, index, dayWeather[index]),
+          daySchema,
+          raw => validateGeminiDay(raw, preferences),
+          signal
+        );
+        const days = [...plan.days, this.processDay(day, index, plan.id!, preferences)];
+        plan = withTotals(plan, days);
+        onProgress?.({ plan, completedDays: days.length, totalDays: preferences.duration });
+      }
+
+      // Outdoor activities the model still put on rainy or extreme days are moved to better ones,
+      // judged by the fetched forecasts rather than the model's copy so "Re-check Weather" agrees.
+      // The model does not always keep to the cap either; trim or substitute until the plan fits
+      return fitPlanToBudget(rebalanceForWeather(withDayWeather(plan, dayWeather)));
     } catch (error) {
-      console.error('Error generating itinerary:', error);
-      if (error instanceof SyntaxError) {
-        throw new Error('Failed to parse itinerary. The AI response was not valid JSON. Please try again or refine your preferences.');
+      if (isKnownGenerationError(error)) {
+        throw error;
       }
+      console.error('Error generating itinerary:', error);
       throw new Error('Failed to generate itinerary. An unexpected error occurred. Please try again.');
     }
   }
 
-  private buildItineraryPrompt(preferences: TravelPreferences, weatherData: any | null): string {
+  async regenerateDay(plan: TravelPlan, dayNumber: number, options: RequestOptions = {}): Promise<DayPlan> {
+    const existingDay = findDay(plan, dayNumber);
+    const otherDays = plan.days.filter(day => day.day !== dayNumber);
+    // Activities only: a day's totalCost also counts its meals, which the model is not asked to price here
+    const activitiesCost = (planned: DayPlan) => planned.activities.reduce((total, activity) => total + activity.estimatedCost, 0);
+    const otherDaysCost = otherDays.reduce((total, day) => total + activitiesCost(day), 0);
+    const averageDayCost = otherDays.length > 0 ? Math.round(otherDaysCost / otherDays.length) : activitiesCost(existingDay);
+
+    try {
+      console.log(`Regenerating day ${dayNumber}...`);
+      const day = await this.generateValidated(
+        `
+        ${this.buildDayPrompt(plan.preferences, { ...plan, days: otherDays }, dayNumber - 1, undefined)}
+
+        This replaces an existing plan for the day the traveller did not like. Suggest different activities than: ${existingDay.activities.map(activity => activity.name).join('; ')}.
+        Activities on other days cost about ${averageDayCost} USD per adult in total; stay close to that.
+        `,
+        daySchema,
+        raw => validateGeminiDay(raw, plan.preferences),
+        options.signal
+      );
+      const regenerated = this.processDay(day, dayNumber - 1, `${plan.id}-regen${Date.now()}`, plan.preferences);
+      // The original day may carry a real forecast; the regenerated one never does
+      return { ...regenerated, date: existingDay.date, weather: existingDay.weather ?? regenerated.weather };
+    } catch (error) {
+      if (isKnownGenerationError(error)) {
+        throw error;
+      }
+      console.error('Error regenerating day:', error);
+      throw new Error('Failed to regenerate this day. Please try again.');
+    }
+  }
+
+  async regenerateActivity(plan: TravelPlan, dayNumber: number, activityId: string, options: RequestOptions = {}): Promise<Activity> {
+    const day = findDay(plan, dayNumber);
+    const current = findActivity(day, activityId);
+    const plannedActivities = plan.days.flatMap(planned => planned.activities.map(activity => activity.name));
+    const weatherContext = day.weather ? `Weather that day: ${day.weather.condition}, ${day.weather.temperature.min}-${day.weather.temperature.max}°C.` : '';
+
+    try {
+      console.log(`Regenerating activity ${activityId}...`);
+      const activity = await this.generateValidated(
+        `
+        As an expert travel planner, suggest one replacement activity for day ${dayNumber} of a trip itinerary, in ${getDayLeg(plan.preferences, dayNumber - 1).leg.destination}.
+        ${this.buildTripContext(plan.preferences)}
+
+        The traveller wants to replace "${current.name}" (${current.category}, ${current.timeSlot}, ${current.estimatedCost} USD per adult).
+        Use the same time slot ('${current.timeSlot}') and a similar or lower cost. ${weatherContext}
+        Do not suggest anything already in the itinerary: ${plannedActivities.join('; ')}.
+        ${COSTS_NOTE}
+        `,
+        activitySchema,
+        raw => validateGeminiActivity(raw, plan.preferences),
+        options.signal
+      );
+      return this.processActivity(activity, `${plan.id}-day${dayNumber}-regen${Date.now()}`);
+    } catch (error) {
+      if (isKnownGenerationError(error)) {
+        throw error;
+      }
+      console.error('Error regenerating activity:', error);
+      throw new Error('Failed to find a replacement activity. Please try again.');
+    }
+  }
+
+  async refineItinerary(plan: TravelPlan, instruction: string, options: RequestOptions = {}): Promise<ItineraryRefinement> {
+    // A compact view of the plan is enough for the model to reference days and activity ids
+    const currentPlan = plan.days.map(day => ({
+      day: day.day,
+      date: day.date,
+      city: day.destination,
+      weather: day.weather?.condition,
+      activities: day.activities.map(activity => ({
+        id: activity.id,
+        name: activity.name,
+        category: activity.category,
+        timeSlot: activity.timeSlot,
+        estimatedCost: activity.estimatedCost,
+        weatherConsideration: activity.weatherConsideration
+      }))
+    }));
+
+    let refinement: GeminiRefinementResponse;
+    try {
+      console.log('Sending refinement request to Gemini...');
+      refinement = await this.generateValidated(
+        `
+        As an expert travel planner, you are editing an existing itinerary together with the traveller.
+        ${this.buildTripContext(plan.preferences)}
+
+        Current itinerary: ${JSON.stringify(currentPlan)}
+
+        The traveller says: "${instruction}"
+
+        Express the requested change as a list of edits: "add" a new activity to a day, "replace" an existing activity (by its id) with a new one, or "remove" an activity (by its id).
+        Keep everything the traveller did not ask to change. Do not repeat activities that are already planned. ${COSTS_NOTE}
+        If the request is not about changing this itinerary, return no edits and explain why in the summary.
+        `,
+        refinementSchema,
+        raw => validateGeminiRefinement(raw, plan),
+        options.signal
+      );
+    } catch (error) {
+      if (isKnownGenerationError(error)) {
+        throw error;
+      }
+      console.error('Error refining itinerary:', error);
+      throw new Error('Failed to apply that change. Please try rephrasing it.');
+    }
+
+    // An instruction that leads to no change is rejected, as by the catalog provider; the model's summary says why
+    if (refinement.edits.length === 0) {
+      throw new Error(refinement.summary);
+    }
+    const stamp = Date.now();
+    const { plan: refined, changes } = applyItineraryEdits(plan, refinement.edits.map((edit, index) => ({
+      ...edit,
+      activity: edit.activity && this.processActivity(edit.activity, `${plan.id}-day${edit.day}-edit${stamp}-${index + 1}`)
+    })));
+    return { plan: refined, summary: refinement.summary, changes };
+  }
+
+  /**
+   * Requests JSON for the given schema and validates it; on violations the errors are sent back
+   * to the model for up to MAX_REPAIR_ATTEMPTS repairs before an ItineraryValidationError is thrown.
+   */
+  private async generateValidated<T>(
+    prompt: string,
+    responseSchema: ResponseSchema,
+    validate: (raw: unknown) => ValidationResult<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const conversation: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+    let issues: ValidationIssue[] = [];
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        console.log(`Asking Gemini to repair its response (attempt ${attempt})...`);
+      }
+      const responseText = await this.generateJson(conversation, responseSchema, signal);
+
+      // The schema guarantees the overall shape; the validator still checks values the schema cannot express
+      const validation = parseAndValidate(responseText, validate);
+      if (validation.ok) {
+        return validation.value;
+      }
+
+      issues = validation.issues;
+      console.warn('Gemini response failed validation:', issues);
+      // Keep the full exchange so the model sees what it produced and what was wrong with it
+      conversation.push(
+        { role: 'model', parts: [{ text: responseText }] },
+        { role: 'user', parts: [{ text: this.buildRepairPrompt(issues) }] }
+      );
+    }
+
+    throw new ItineraryValidationError(issues, MAX_REPAIR_ATTEMPTS + 1);
+  }
+
+  private buildRepairPrompt(issues: ValidationIssue[]): string {
+    return `
+    Your previous response is not valid. Fix exactly these problems and return the complete corrected response:
+    ${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n    ')}
+    `;
+  }
+
+  private buildTripContext(preferences: TravelPreferences): string {
     const interestsString = preferences.interests.length > 0 ? preferences.interests.join(', ') : 'general sightseeing and relaxation';
     const specificRequestsString = preferences.specificRequests ? `Special Requests: ${preferences.specificRequests}.` : '';
     const accommodationString = preferences.accommodation ? `Accommodation preference: ${preferences.accommodation}.` : '';
 
-    let weatherContext = '';
-    if (weatherData && weatherData.forecast && weatherData.forecast.length > 0) {
-        weatherContext = `
-        Here's a weather forecast for your trip. Please incorporate weather-appropriate activities and recommendations into the daily plan:
-        ${JSON.stringify(weatherData.forecast.map((day: any) => ({
-            date: day.date,
-            condition: day.condition,
-            temperature: day.temperature,
-            recommendation: day.recommendation
-        })), null, 2)}
-        `;
-    }
-
     // Use current date if startDate is not provided, but explicitly for the prompt.
-    const effectiveStartDate = preferences.startDate || new Date().toISOString().split('T')[0];
+    const effectiveStartDate = preferences.startDate || formatCalendarDate(new Date());
+    const { dayStart, dayEnd, bufferMinutes } = getScheduleOptions(preferences);
+    const budgetCapUsd = getBudgetCapUsd(preferences);
+    const budgetCapString = preferences.budgetCap && budgetCapUsd !== undefined
+      ? `- **Budget Cap:** ${formatMoney(preferences.budgetCap.amount, preferences.budgetCap.currency)} (about ${Math.round(budgetCapUsd)} USD) in total for the whole group, covering accommodation, meals, local transport, activities and transfers between cities; the trip must not cost more`
+      : '';
+    const party = getParty(preferences);
+    const childrenString = party.children > 0
+      ? `- **Children:** the youngest is ${getYoungestAge(party) === 0 ? 'of unknown age, so assume a toddler' : `${getYoungestAge(party)} years old`}; only suggest activities suitable for them, prefer family-friendly ones, and fill in 'minAge' for activities with an age limit`
+      : '';
+    const accessibility = preferences.accessibility;
+    const accessibilityString = hasAccessibilityNeeds(accessibility)
+      ? `- **Accessibility:** ${[
+          ...accessibility.needs.map(need => `${ACCESSIBILITY_NEEDS[need].label} (${ACCESSIBILITY_NEEDS[need].description.toLowerCase()})`),
+          ...(accessibility.maxWalkingKm !== undefined ? [`at most ${accessibility.maxWalkingKm} km of walking a day, including walks between activities`] : []),
+        ].join('; ')}; only suggest activities that meet these needs, and fill in 'accessibility' for every activity`
+      : '';
+    const dietaryString = preferences.dietary?.length
+      ? `- **Diet:** ${describeDietary(preferences.dietary)}; every meal and dining activity must cater for it, and list the diets it caters for in 'dietOptions'`
+      : '';
+    const style = TRAVEL_STYLES[preferences.travelStyle] ?? TRAVEL_STYLES.moderate;
+    const legsString = isMultiCity(preferences)
+      ? `- **Cities, in order:** ${getTripLegs(preferences).map(leg => `${leg.destination} (${leg.nights} days${leg.accommodation ? `, ${leg.accommodation}` : ''})`).join(' → ')}`
+      : '';
 
     return `
-    As an expert travel planner, generate a highly detailed and practical travel itinerary.
-    
     Based on the following preferences:
     - **Destination:** ${preferences.destination}
+    ${legsString}
     - **Duration:** ${preferences.duration} days
     - **Start Date:** ${effectiveStartDate} (actual dates should be calculated from this)
     - **Budget:** ${preferences.budget}
-    - **Group Size:** ${preferences.groupSize} people
-    - **Travel Style:** ${preferences.travelStyle} (e.g., relaxed, moderate, packed)
+    ${budgetCapString}
+    - **Group Size:** ${preferences.groupSize} people${preferences.party ? ` (${describeParty(preferences.party)})` : ''}
+    ${childrenString}
+    ${accessibilityString}
+    ${dietaryString}
+    - **Travel Style:** ${preferences.travelStyle} (${style.description.toLowerCase()}): about ${style.activitiesPerDay} activities and at most ${style.maxLoad} hours of them a day, fewer with long walks, early starts or strenuous activities such as treks, adventures and long day trips; follow a strenuous day with a lighter one
     - **Main Interests:** ${interestsString}
+    - **Daily Hours:** activities between ${dayStart} and ${dayEnd}, with about ${bufferMinutes} minutes to get from one to the next; give each activity a realistic duration such as "2 hours" or "3-4 hours"
     - ${accommodationString}
     - ${specificRequestsString}
+    `;
+  }
+
+  private buildOverviewPrompt(preferences: TravelPreferences, dayWeather: (WeatherInfo | undefined)[]): string {
+    const forecast = dayWeather.flatMap((weather, dayIndex) => (weather ? [{
+      date: weather.date,
+      ...(isMultiCity(preferences) && { city: getDayLeg(preferences, dayIndex).leg.destination }),
+      condition: weather.condition,
+      temperature: weather.temperature,
+    }] : []));
+    const weatherContext = forecast.length > 0
+      ? `Summarize this forecast for the trip: ${JSON.stringify(forecast)}`
+      : 'Summarize the typical weather for the destination and season.';
+
+    return `
+    As an expert travel planner, prepare the overview for a trip itinerary. The daily plans are requested separately.
+    ${this.buildTripContext(preferences)}
 
     ${weatherContext}
+    Include general travel tips, local emergency contacts, hospitals and relevant embassies for ${getTripLegs(preferences).map(leg => leg.destination).join(', ')}.
+    `;
+  }
 
-    Please provide a comprehensive itinerary in the following strict JSON format.
-    Ensure all fields are present, even if empty.
-    
-    **CRITICAL:** The entire output must be a valid JSON object, with no preamble, postamble, or conversational text.
-    Every activity MUST have a unique 'id'.
-    All costs should be in USD.
+  private buildDayPrompt(preferences: TravelPreferences, plan: TravelPlan, dayIndex: number, forecast: WeatherInfo | undefined): string {
+    const dayNumber = dayIndex + 1;
+    const tripDate = getTripDate(preferences, dayIndex);
+    const date = formatCalendarDate(tripDate);
+    const weekday = tripDate.toLocaleDateString('en-US', { weekday: 'long' });
+    const plannedActivities = plan.days.flatMap(day => day.activities.map(activity => activity.name));
+
+    const weatherContext = forecast
+      ? `Forecast for this day, plan weather-appropriate activities: ${JSON.stringify({
+          condition: forecast.condition,
+          temperature: forecast.temperature,
+          precipitation: forecast.precipitation,
+          recommendation: forecast.recommendation
+        })}`
+      : '';
+    const transfer = getDayTransfer(preferences, dayIndex);
+    const dayContext = dayIndex === 0
+      ? 'This is the arrival day; keep it lighter and close to the accommodation.'
+      : transfer
+        ? `This is a travel day: ${describeTransfer(transfer)}, leaving in the morning. Plan only afternoon and evening activities in ${transfer.to}, close to the accommodation.`
+        : dayIndex === preferences.duration - 1
+          ? 'This is the last day; leave time for packing and departure.'
+          : '';
+    const previousPace = plan.days.find(day => day.day === dayIndex)?.pace;
+    const paceContext = previousPace?.intensity === 'strenuous'
+      ? `Day ${dayIndex} is strenuous, with about ${previousPace.activityHours} hours of activities and ${previousPace.walkingKm} km of walking; keep this day lighter, without strenuous activities.`
+      : '';
+    const cityContext = isMultiCity(preferences)
+      ? `This day is spent in ${getDayLeg(preferences, dayIndex).leg.destination}; only plan activities there.`
+      : '';
 
-    JSON Format:
-    \`\`\`json
-    {
-      "id": "generated_plan_id",
-      "destination": "${preferences.destination}",
-      "duration": ${preferences.duration},
-      "totalBudget": 0, // This will be calculated on the client-side based on activities
-      "weatherSummary": "General weather overview for the entire trip based on provided forecast data.",
-      "travelTips": ["General tip 1", "General tip 2", "Travel tip related to destination/preferences"],
-      "emergencyInfo": {
-        "contacts": ["Local emergency number", "Police", "Ambulance"],
-        "hospitals": ["Recommended hospital 1 address", "Recommended hospital 2 address"],
-        "embassies": ["Your country's embassy address in ${preferences.destination} (if applicable)"]
-      },
-      "days": [
-        {
-          "day": 1,
-          "date": "YYYY-MM-DD", // Actual calculated date for this day
-          "notes": "Daily overview or welcome note.",
-          "weather": {
-            "temperature": {"min": 0, "max": 0}, // celsius or fahrenheit, specify unit
-            "condition": "string", // e.g., "Sunny", "Partly Cloudy", "Rain"
-            "description": "string",
-            "humidity": 0, // percentage
-            "precipitation": 0, // percentage
-            "recommendation": "string" // e.g., "Wear light clothes", "Carry an umbrella"
-          },
-          "activities": [
-            {
-              "id": "unique_activity_id_1",
-              "name": "Activity Name",
-              "description": "Detailed description of the activity, why it's recommended based on preferences.",
-              "duration": "e.g., 2 hours",
-              "category": "culture | adventure | dining | relaxation | sightseeing | shopping | nature | nightlife | wellness",
-              "estimatedCost": 0, // Cost per person in USD
-              "location": "Exact address or major landmark",
-              "timeSlot": "morning | afternoon | evening | full-day",
-              "weatherConsideration": "indoor | outdoor | flexible",
-              "rating": 0, // Estimated rating out of 5
-              "photos": ["short_description_for_an_image"] // Describe a representative image
-            },
-            // ... more activities for Day 1
-          ],
-          "dailyCost": 0, // Calculated from activities for this day
-          "dailyTravelTips": ["Tip specific to this day/area."]
-        }
-        // ... more days up to preferences.duration
-      ]
-    }
-    \`\`\`
-    
-    Make sure the generated itinerary is realistic, considers logical flow between activities, and truly reflects the specified preferences and budget. Prioritize activities that align with interests. Ensure "totalBudget" is sum of all activity costs (per person) * group size.
+    return `
+    As an expert travel planner, generate day ${dayNumber} of ${preferences.duration} (${date}) of a trip itinerary.
+    ${this.buildTripContext(preferences)}
+
+    ${cityContext}
+    ${dayContext}
+    ${paceContext}
+    ${weatherContext}
+    ${plannedActivities.length > 0 ? `Already planned on earlier days (do not repeat these): ${plannedActivities.join('; ')}.` : ''}
+
+    Use day number ${dayNumber} and date ${date}. Every activity MUST have a unique 'id'. ${COSTS_NOTE}
+    In 'meals', suggest where to have breakfast, lunch and dinner: a place near the activities before or after each meal, within the budget tier, with its cost per adult in USD. Leave out a meal a dining activity already covers.
+    Only plan activities that are open on ${weekday}, ${date} and in season that month. For activities with opening days, seasons, advance booking or permits, fill in 'availability'.
+    Make sure the day is realistic, considers logical flow between activities, and truly reflects the specified preferences and budget. Prioritize activities that align with interests.
     `;
   }
 
-  private processGeminiResponse(geminiResponse: GeminiResponse, preferences: TravelPreferences): TravelPlan {
-    const processedPlan: TravelPlan = {
-      id: geminiResponse.id || Date.now().toString(),
-      destination: geminiResponse.destination || preferences.destination,
-      duration: geminiResponse.duration || preferences.duration,
-      totalBudget: 0, // Will be calculated after processing activities
-      days: [],
-      preferences, // Store original preferences for reference
-      createdAt: new Date().toISOString(),
-      weatherSummary: geminiResponse.weatherSummary || 'Weather information not available or generated.',
-      travelTips: geminiResponse.travelTips || [],
-      emergencyInfo: geminiResponse.emergencyInfo || { contacts: [], hospitals: [], embassies: [] }
+  private processOverview(overview: GeminiTripOverview, preferences: TravelPreferences): TravelPlan {
+    return {
+      ...createEmptyPlan(preferences),
+      id: overview.id || Date.now().toString(),
+      destination: overview.destination || preferences.destination,
+      duration: preferences.duration,
+      weatherSummary: overview.weatherSummary || 'Weather information not available or generated.',
+      travelTips: overview.travelTips || [],
+      emergencyInfo: overview.emergencyInfo || { contacts: [], hospitals: [], embassies: [] }
     };
+  }
 
-    let calculatedTotalBudget = 0;
-
-    // Ensure each day has proper structure and calculate costs
-    if (geminiResponse.days && Array.isArray(geminiResponse.days)) {
-      processedPlan.days = geminiResponse.days.map((day: any, index: number): DayPlan => {
-        let dailyCost = 0;
-        const activities: Activity[] = (day.activities || []).map((activity: any): Activity => {
-          const estimatedCost = typeof activity.estimatedCost === 'number' ? activity.estimatedCost : 0;
-          dailyCost += estimatedCost; // Accumulate daily cost
-
-          return {
-            id: activity.id || `${processedPlan.id}-day${day.day || index + 1}-act${activity.name.replace(/\s/g, '') || Date.now()}`,
-            name: activity.name || 'Unnamed Activity',
-            description: activity.description || 'No description provided.',
-            duration: activity.duration || 'N/A',
-            category: activity.category || 'sightseeing', // Default category
-            estimatedCost: estimatedCost,
-            location: activity.location || 'Unknown Location',
-            timeSlot: activity.timeSlot || 'full-day',
-            weatherConsideration: activity.weatherConsideration || 'flexible',
-            rating: typeof activity.rating === 'number' ? activity.rating : null,
-            photos: activity.photos || []
-          };
-        });
-
-        // Add group size multiplier for daily cost before adding to total budget
-        calculatedTotalBudget += dailyCost * (preferences.groupSize || 1); 
-
-        // Calculate actual date based on startDate
-        const baseDate = preferences.startDate ? new Date(preferences.startDate) : new Date();
-        const currentDate = new Date(baseDate);
-        currentDate.setDate(baseDate.getDate() + index);
-
-        return {
-          day: day.day || index + 1,
-          date: day.date || this.formatDate(currentDate), // Use generated date or fall back
-          weather: day.weather || null,
-          activities: activities,
-          notes: day.notes || null,
-          dailyCost: dailyCost, // Cost per person for the day
-          dailyTravelTips: day.dailyTravelTips || []
-        };
-      });
-    }
+  // The day has already been validated, so only optional fields need defaults here
+  private processDay(day: GeminiDayResponse, index: number, planId: string, preferences: TravelPreferences): DayPlan {
+    const dayNumber = index + 1;
+    const activities = day.activities.map((activity, activityIndex) => this.processActivity(
+      activity,
+      activity.id ? `${planId}-day${dayNumber}-${activity.id}` : `${planId}-day${dayNumber}-act${activityIndex + 1}`
+    ));
+
+    const date = formatDayDate(getTripDate(preferences, index));
+    const transfer = getDayTransfer(preferences, index);
+
+    return arrangeDay({
+      ...(isMultiCity(preferences) && { destination: getDayLeg(preferences, index).leg.destination }),
+      ...(transfer && { transfer }),
+      day: dayNumber,
+      date,
+      weather: day.weather && {
+        date,
+        temperature: day.weather.temperature,
+        condition: day.weather.condition,
+        description: day.weather.description || '',
+        humidity: day.weather.humidity ?? 0,
+        precipitation: day.weather.precipitation ?? 0,
+        recommendation: day.weather.recommendation || ''
+      },
+      activities: activities,
+      ...(day.meals?.length && { meals: day.meals.map(meal => this.processMeal(meal)) }),
+      notes: day.notes,
+      totalCost: activities.reduce((total, activity) => total + activity.estimatedCost, 0), // Cost per person for the day
+      travelTips: day.dailyTravelTips || []
+    }, preferences);
+  }
 
-    processedPlan.totalBudget = calculatedTotalBudget; // Set the aggregated total budget
+  private processActivity(activity: GeminiActivityResponse, id: string): Activity {
+    return {
+      id,
+      name: activity.name,
+      description: activity.description,
+      duration: activity.duration,
+      category: activity.category,
+      estimatedCost: activity.estimatedCost,
+      location: activity.location,
+      timeSlot: activity.timeSlot,
+      weatherConsideration: activity.weatherConsideration || 'flexible',
+      rating: activity.rating,
+      photos: activity.photos || [],
+      ...(activity.availability && { availability: activity.availability }),
+      ...(activity.pricing && { pricing: activity.pricing }),
+      ...(activity.minAge !== undefined && { minAge: activity.minAge }),
+      ...(activity.accessibility && { accessibility: activity.accessibility }),
+      ...(activity.dietOptions && { dietOptions: activity.dietOptions })
+    };
+  }
 
-    return processedPlan;
+  // Times are left to arrangeDay, which plans the meals around the day's schedule
+  private processMeal(meal: GeminiMealResponse): Meal {
+    return {
+      meal: meal.meal,
+      estimatedCost: meal.estimatedCost,
+      suggestion: {
+        name: meal.name,
+        location: meal.location,
+        ...(meal.cuisine && { cuisine: meal.cuisine }),
+        ...(meal.dietOptions && { dietOptions: meal.dietOptions })
+      }
+    };
   }
 
-  // Helper to clean potential markdown or extra text from Gemini's JSON response
-  private cleanJsonString(jsonString: string): string {
-    // Remove markdown code block fences if present
-    let cleaned = jsonString.replace(/```json\n/g, '').replace(/\n```/g, '');
-    // Trim whitespace
-    cleaned = cleaned.trim();
-    // In case Gemini adds any conversational text outside the JSON
-    // Try to find the first '{' and last '}'
-    const firstBrace = cleaned.indexOf('{');
-    const lastBrace = cleaned.lastIndexOf('}');
-    if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-        cleaned = cleaned.substring(firstBrace, lastBrace + 1);
-    }
-    return cleaned;
+  /**
+   * Sends a request in JSON mode with the given response schema and returns the raw JSON text.
+   * Goes through requestModel, so transient failures are retried and every failure surfaces as a
+   * typed ModelRequestError (or an AbortError when `signal` fired).
+   */
+  private async generateJson(contents: Content[], responseSchema: ResponseSchema, signal?: AbortSignal): Promise<string> {
+    return requestModel(async attemptSignal => {
+      const result = await this.model.generateContent({
+        contents,
+        safetySettings: this.safetySettings,
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema,
+        },
+      }, { signal: attemptSignal });
+      // Throws GoogleGenerativeAIResponseError (classified as a safety block) when the answer was blocked
+      const text = result.response.text();
+      if (!text.trim()) {
+        throw new ModelRequestError('empty-response', 'The AI service returned an empty response.', { retryable: true });
+      }
+      return text;
+    }, { signal });
   }
 
+  // Nullable schema fields come back as null; the app's types model "unknown" as an absent key
+  private dropNulls(value: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(value).filter(([, fieldValue]) => fieldValue !== null));
+  }
 
-  // The existing getWeatherForecast and getPlaceDetails methods are fine as they are,
-  // but remember they are separate calls. For a single-call comprehensive itinerary,
-  // you instruct Gemini to *include* this data in the main itinerary response.
-  // These separate methods would be for other features (e.g., a dedicated weather tab, or "details" on click).
+  // These separate calls back features such as the forecast fed into the itinerary prompt
+  // and place details on click; the itinerary response itself carries per-day weather.
 
-  async getWeatherForecast(destination: string, startDate: string, duration: number): Promise<any> {
+  async getWeatherForecast(destination: string, startDate: string, duration: number, options: RequestOptions = {}): Promise<WeatherForecast | null> {
     const prompt = `
     Provide a ${duration}-day weather forecast for ${destination} starting from ${startDate}.
     Assume typical weather patterns for the location and season if real-time data is not available.
-    
-    Return JSON format only:
-    {
-      "location": "${destination}",
-      "forecast": [
-        {
-          "date": "YYYY-MM-DD",
-          "temperature": {"min": temp_min, "max": temp_max, "unit": "Celsius"},
-          "condition": "sunny|cloudy|rainy|snowy|partly cloudy",
-          "description": "detailed_description_of_weather",
-          "humidity": 0, // percentage
-          "precipitation": 0, // percentage chance
-          "recommendation": "weather_based_clothing_or_activity_recommendation"
-        }
-        // ... more days
-      ]
-    }
+    Temperatures are in Celsius; humidity and precipitation are percentages.
     `;
 
     try {
-      const result = await this.model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        safetySettings: this.safetySettings,
-      });
-      const responseText = result.response.text();
-      const cleanedText = this.cleanJsonString(responseText);
-      return JSON.parse(cleanedText);
+      return await this.generateValidated(prompt, weatherForecastSchema, validateWeatherForecast, options.signal);
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Error getting weather forecast:', error);
       return null;
     }
   }
 
-  async getPlaceDetails(placeName: string, destination: string): Promise<any> {
+  async getPlaceDetails(placeName: string, destination: string, options: RequestOptions = {}): Promise<PlaceDetails | null> {
     const prompt = `
     Provide detailed and factual information about "${placeName}" in ${destination}.
-    
-    Return JSON format only:
-    {
-      "name": "${placeName}",
-      "description": "detailed_description_of_the_place",
-      "location": "specific_address_or_well_known_area",
-      "coordinates": {"lat": 0, "lng": 0}, // approximate if exact is hard
-      "rating": 0, // estimated rating out of 5, e.g., 4.5
-      "photos": ["short_description_of_a_representative_photo_1", "short_description_of_a_representative_photo_2"],
-      "openingHours": "e.g., 9 AM - 6 PM daily or check website for details",
-      "entryFee": 0, // cost in USD, 0 for free
-      "bestTimeToVisit": "e.g., early morning, late afternoon, during weekdays",
-      "tips": ["tip for visitors 1", "tip for visitors 2"],
-      "nearbyAttractions": ["Name of nearby attraction 1", "Name of nearby attraction 2"]
-    }
+    Approximate the coordinates if exact ones are not known. Entry fees are in USD.
     `;
 
     try {
-      const result = await this.model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        safetySettings: this.safetySettings,
-      });
-      const responseText = result.response.text();
-      const cleanedText = this.cleanJsonString(responseText);
-      return JSON.parse(cleanedText);
+      return await this.generateValidated(prompt, placeDetailsSchema, validatePlaceDetails, options.signal);
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Error getting place details:', error);
       return null;
     }
   }
-
-  private formatDate(date: Date): string {
-    return date.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  }
 }
 
 export const geminiAgent = new GeminiTravelAgent();
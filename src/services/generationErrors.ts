@@ -0,0 +1,93 @@
+import { GoogleGenerativeAIAbortError } from '@google/generative-ai';
+import { ItineraryValidationError } from './itineraryValidator';
+import { ModelErrorKind, ModelRequestError } from './modelRequest';
+
+/** True for the error a fetch or generator rejects with after its AbortSignal fired. */
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException && error.name === 'AbortError') || error instanceof GoogleGenerativeAIAbortError;
+
+/**
+ * True for failures that already say what went wrong (typed model errors, invalid output,
+ * cancellation). Providers rethrow these as they are instead of wrapping them in a generic Error.
+ */
+export const isKnownGenerationError = (error: unknown): boolean =>
+  error instanceof ModelRequestError || error instanceof ItineraryValidationError || isAbortError(error);
+
+export type GenerationErrorKind = ModelErrorKind | 'invalid-output' | 'unknown';
+
+export interface GenerationErrorDetails {
+  kind: GenerationErrorKind;
+  /** Short headline, e.g. "Rate limit reached". */
+  title: string;
+  /** What happened and what the traveller can do about it. */
+  message: string;
+}
+
+const modelErrorDetails: Record<ModelErrorKind, Omit<GenerationErrorDetails, 'kind'>> = {
+  quota: {
+    title: 'Rate limit reached',
+    message: 'The AI service is receiving too many requests or the API quota is used up. Please wait a minute and try again, or switch to the offline catalog.',
+  },
+  safety: {
+    title: 'Blocked by content filters',
+    message: 'The AI declined to answer this request. Please rephrase your special requests and try again.',
+  },
+  network: {
+    title: 'Connection problem',
+    message: 'Could not reach the AI service. Please check your internet connection and try again.',
+  },
+  timeout: {
+    title: 'Request timed out',
+    message: 'The AI service took too long to answer, even after retrying. Please try again in a moment.',
+  },
+  server: {
+    title: 'AI service unavailable',
+    message: 'The AI service is having problems right now. Please try again in a few minutes.',
+  },
+  'empty-response': {
+    title: 'No answer received',
+    message: 'The AI service answered without any content, even after retrying. Please try again.',
+  },
+  rejected: {
+    title: 'Request rejected',
+    message: 'The AI service rejected the request. Please check the API key configuration or switch to the offline catalog.',
+  },
+};
+
+/**
+ * Classifies a failed request into a kind with a title and message the UI can show distinctly.
+ */
+export const getGenerationErrorDetails = (error: unknown): GenerationErrorDetails => {
+  if (error instanceof ModelRequestError) {
+    return { kind: error.kind, ...modelErrorDetails[error.kind] };
+  }
+  if (error instanceof ItineraryValidationError) {
+    return {
+      kind: 'invalid-output',
+      title: 'Incomplete itinerary',
+      message: 'The AI kept returning an incomplete itinerary, even after trying to fix it. Please try again or simplify your special requests.',
+    };
+  }
+  return {
+    kind: 'unknown',
+    title: 'Something went wrong',
+    message: 'Oops! There was an issue generating your itinerary. Please check your internet connection or try adjusting your preferences and try again.',
+  };
+};
+
+/**
+ * User-facing explanation for a chat edit that could not be applied. Providers reject refinements
+ * with messages written for the traveller, so those are shown as they are.
+ */
+export const describeRefinementError = (error: unknown): string => {
+  if (error instanceof ModelRequestError) {
+    return getGenerationErrorDetails(error).message;
+  }
+  if (error instanceof ItineraryValidationError) {
+    return 'The AI could not turn that into a valid change to your itinerary. Please try rephrasing it.';
+  }
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return 'Sorry, I could not apply that change. Please try again.';
+};
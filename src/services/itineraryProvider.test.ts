@@ -0,0 +1,39 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ItineraryProvider } from '../types/provider';
+import { TravelPreferences } from '../types/travel';
+
+const preferences: TravelPreferences = {
+  destination: 'Paris',
+  duration: 2,
+  budget: 'mid-range',
+  interests: ['Art & Museums'],
+  travelStyle: 'moderate',
+  groupSize: 2,
+  accommodation: 'hotel',
+};
+
+describe('itinerary provider without a Gemini key', () => {
+  let provider: ItineraryProvider;
+
+  beforeAll(async () => {
+    vi.stubEnv('VITE_GEMINI_API_KEY', '');
+    vi.stubEnv('VITE_ITINERARY_PROVIDER', '');
+    const { getItineraryProvider, isGeminiConfigured } = await import('./itineraryProvider');
+    expect(isGeminiConfigured()).toBe(false);
+    provider = getItineraryProvider();
+  });
+
+  it('selects the offline catalog', () => {
+    expect(provider.id).toBe('catalog');
+    expect(provider.requiresNetwork).toBe(false);
+  });
+
+  it('plans a trip from the catalog', async () => {
+    const plan = await provider.generateItinerary(preferences, { seed: 1 });
+
+    expect(plan.days.map(day => day.day)).toEqual([1, 2]);
+    expect(plan.days.every(day => day.activities.length > 0)).toBe(true);
+    expect(plan.days.flatMap(day => day.activities.map(activity => activity.id)).every(id => id.startsWith('paris-'))).toBe(true);
+    expect(plan.seed).toBe(1);
+  });
+});
@@ -0,0 +1,82 @@
+import { ItineraryProvider } from '../types/provider';
+import { geminiAgent } from './geminiService';
+import { catalogAgent } from './aiService';
+import { withCache } from './cachedProvider';
+import { withFallback } from './fallbackProvider';
+
+const STORAGE_KEY = 'travelai.itineraryProvider';
+
+// Registered providers, keyed by their id. Gemini and the offline catalog ship by default.
+const providers = new Map<string, ItineraryProvider>([
+  [geminiAgent.id, geminiAgent],
+  [catalogAgent.id, catalogAgent],
+]);
+
+export const isGeminiConfigured = (): boolean => Boolean(import.meta.env.VITE_GEMINI_API_KEY);
+
+const readStoredProviderId = (): string | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  } catch {
+    return null; // Storage can be disabled (private mode, sandboxed iframes)
+  }
+};
+
+/**
+ * Picks the provider to start with: a previous user choice, then VITE_ITINERARY_PROVIDER,
+ * then Gemini when an API key is configured, otherwise the offline catalog.
+ */
+const resolveInitialProviderId = (): string => {
+  const candidates = [readStoredProviderId(), import.meta.env.VITE_ITINERARY_PROVIDER];
+  const explicit = candidates.find((id): id is string => !!id && providers.has(id));
+  if (explicit) {
+    return explicit;
+  }
+  return isGeminiConfigured() ? geminiAgent.id : catalogAgent.id;
+};
+
+let activeProviderId = resolveInitialProviderId();
+
+export const registerItineraryProvider = (provider: ItineraryProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+export const listItineraryProviders = (): ItineraryProvider[] => Array.from(providers.values());
+
+export const getActiveProviderId = (): string => activeProviderId;
+
+// Network providers are wrapped once with the response cache to save API calls, and with the offline
+// catalog as a fallback for when they fail; offline ones are cheap to rerun and have nothing to fall back to
+const wrappedProviders = new WeakMap<ItineraryProvider, ItineraryProvider>();
+
+const wrapIfNetworked = (provider: ItineraryProvider): ItineraryProvider => {
+  if (!provider.requiresNetwork) {
+    return provider;
+  }
+  let wrapped = wrappedProviders.get(provider);
+  if (!wrapped) {
+    wrapped = withFallback(withCache(provider), catalogAgent);
+    wrappedProviders.set(provider, wrapped);
+  }
+  return wrapped;
+};
+
+/**
+ * Returns the currently selected provider. Call this at request time rather than caching
+ * the result so a runtime switch takes effect on the next request.
+ */
+export const getItineraryProvider = (): ItineraryProvider => {
+  return wrapIfNetworked(providers.get(activeProviderId) ?? catalogAgent);
+};
+
+export const setActiveProvider = (id: string): void => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown itinerary provider "${id}".`);
+  }
+  activeProviderId = id;
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // Persisting the choice is best effort
+  }
+};
@@ -0,0 +1,172 @@
+import { Activity, DayPlan, ItineraryEdit, TravelPlan, TravelPreferences } from '../types/travel';
+import { checkDayAccessibility } from './accessibility';
+import { checkDayAvailability } from './availability';
+import { estimateTripCosts } from './costModel';
+import { planDayMeals } from './meals';
+import { checkTripPace } from './pacing';
+import { routeDay } from './routing';
+import { formatClockTime, getScheduleOptions, parseClockTime, scheduleDay } from './scheduler';
+import { TIME_SLOTS } from './taxonomy';
+
+/**
+ * An itinerary with no days yet, used as the starting point while days are generated.
+ */
+export const createEmptyPlan = (preferences: TravelPreferences): TravelPlan => ({
+  id: Date.now().toString(),
+  destination: preferences.destination,
+  duration: preferences.duration,
+  totalBudget: 0,
+  days: [],
+  preferences,
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Formats a date the way day headers display it, e.g. "Monday, March 3, 2025".
+ */
+export const formatDayDate = (date: Date): string =>
+  date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+/**
+ * Reads a "YYYY-MM-DD" date as local midnight of that day. `new Date("2025-03-05")` would be UTC
+ * midnight, which is still March 4 in time zones west of UTC.
+ */
+export const parseCalendarDate = (text: string): Date => {
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(text);
+};
+
+/** The local calendar date as "YYYY-MM-DD". */
+export const formatCalendarDate = (date: Date): string =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-');
+
+/**
+ * Calendar date of the given zero-based trip day, counted from the preferred start date (or today),
+ * at local midnight so its weekday and month are those of the calendar day.
+ */
+export const getTripDate = (preferences: TravelPreferences, dayIndex: number): Date => {
+  const baseDate = preferences.startDate ? parseCalendarDate(preferences.startDate) : new Date();
+  return new Date(baseDate.getFullYear(), baseDate.getMonth(), baseDate.getDate() + dayIndex);
+};
+
+/**
+ * Calendar date of the given zero-based trip day when the trip has a start date. Undated trips
+ * have no real dates, so date-based rules such as opening days are not checked against them.
+ */
+export const getPlannedDate = (preferences: TravelPreferences, dayIndex: number): Date | undefined =>
+  preferences.startDate ? getTripDate(preferences, dayIndex) : undefined;
+
+/**
+ * Looks up a day by its 1-based number, throwing when the plan has no such day.
+ */
+export const findDay = (plan: TravelPlan, dayNumber: number): DayPlan => {
+  const day = plan.days.find(candidate => candidate.day === dayNumber);
+  if (!day) {
+    throw new Error(`Day ${dayNumber} is not part of this itinerary.`);
+  }
+  return day;
+};
+
+/**
+ * Looks up an activity within a day, throwing when it is not there.
+ */
+export const findActivity = (day: DayPlan, activityId: string): Activity => {
+  const activity = day.activities.find(candidate => candidate.id === activityId);
+  if (!activity) {
+    throw new Error(`Activity ${activityId} is not part of day ${day.day}.`);
+  }
+  return activity;
+};
+
+/**
+ * Orders the day's activities for the least travel between them, schedules them within the
+ * traveller's daily hours, plans meals around them and checks them against their availability
+ * rules on the day's date and the traveller's accessibility needs. On a transfer day activities
+ * start once the transfer has arrived. Every generated or edited day goes through this.
+ */
+export const arrangeDay = (day: DayPlan, preferences: TravelPreferences): DayPlan => {
+  const options = getScheduleOptions(preferences);
+  const arrival = day.transfer?.durationMinutes !== undefined
+    ? formatClockTime(parseClockTime(options.dayStart)! + day.transfer.durationMinutes)
+    : undefined;
+  const destination = day.destination ?? preferences.destination;
+  const scheduled = scheduleDay(routeDay(day, destination), arrival ? { ...options, dayStart: arrival } : options);
+  const checked = checkDayAvailability(planDayMeals(scheduled, preferences, destination), getPlannedDate(preferences, day.day - 1));
+  return checkDayAccessibility(checked, preferences.accessibility);
+};
+
+/**
+ * Returns a copy of the plan with the given days, their pace checked against each other, and its
+ * cost breakdown recalculated from them; the budget is the breakdown's group total.
+ */
+export const withTotals = (plan: TravelPlan, days: DayPlan[]): TravelPlan => {
+  const paced = checkTripPace(days, plan.preferences);
+  const costBreakdown = estimateTripCosts(paced, plan.preferences);
+  return { ...plan, days: paced, totalBudget: costBreakdown.totalPerGroup, costBreakdown };
+};
+
+/**
+ * Returns a copy of the plan with the day of the same number swapped for `day`; the day is
+ * re-arranged and the trip budget recalculated.
+ */
+export const replaceDay = (plan: TravelPlan, day: DayPlan): TravelPlan => {
+  const arranged = arrangeDay(day, plan.preferences);
+  return withTotals(plan, plan.days.map(existing => (existing.day === day.day ? arranged : existing)));
+};
+
+const withDayActivities = (plan: TravelPlan, dayNumber: number, activities: Activity[]): TravelPlan =>
+  withTotals(plan, plan.days.map(day => (day.day === dayNumber
+    ? arrangeDay(
+        { ...day, activities, totalCost: activities.reduce((total, activity) => total + activity.estimatedCost, 0) },
+        plan.preferences
+      )
+    : day)));
+
+/**
+ * Returns a copy of the plan with one activity swapped; the day is re-arranged and its cost and
+ * the trip budget are recalculated.
+ */
+export const replaceActivity = (plan: TravelPlan, dayNumber: number, activityId: string, activity: Activity): TravelPlan =>
+  withDayActivities(plan, dayNumber, findDay(plan, dayNumber).activities.map(existing => (existing.id === activityId ? activity : existing)));
+
+/**
+ * Applies edits in order and describes each one for the chat. Added activities are slotted in by
+ * time of day; an edit naming an unknown day or activity throws.
+ */
+export const applyItineraryEdits = (plan: TravelPlan, edits: ItineraryEdit[]): { plan: TravelPlan; changes: string[] } => {
+  let updated = plan;
+  const changes: string[] = [];
+
+  for (const edit of edits) {
+    const day = findDay(updated, edit.day);
+    if (edit.action === 'add') {
+      if (!edit.activity) {
+        throw new Error(`Day ${edit.day}: no activity was given to add.`);
+      }
+      const activities = [...day.activities, edit.activity]
+        .sort((a, b) => TIME_SLOTS.indexOf(a.timeSlot) - TIME_SLOTS.indexOf(b.timeSlot));
+      updated = withDayActivities(updated, edit.day, activities);
+      changes.push(`Day ${edit.day}: added "${edit.activity.name}"`);
+      continue;
+    }
+
+    const existing = findActivity(day, edit.activityId ?? '');
+    if (edit.action === 'remove') {
+      updated = withDayActivities(updated, edit.day, day.activities.filter(activity => activity.id !== existing.id));
+      changes.push(`Day ${edit.day}: removed "${existing.name}"`);
+    } else {
+      if (!edit.activity) {
+        throw new Error(`Day ${edit.day}: no replacement was given for "${existing.name}".`);
+      }
+      updated = replaceActivity(updated, edit.day, existing.id, edit.activity);
+      changes.push(`Day ${edit.day}: replaced "${existing.name}" with "${edit.activity.name}"`);
+    }
+  }
+
+  return { plan: updated, changes };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { validateGeminiDay } from './itineraryValidator';
+
+const activity = {
+  name: 'Musée d’Orsay',
+  description: 'Impressionist masterpieces in a former railway station.',
+  duration: '3 hours',
+  category: 'culture',
+  estimatedCost: 16,
+  location: 'Rue de la Légion d’Honneur',
+  timeSlot: 'morning',
+  weatherConsideration: 'indoor',
+};
+
+const day = { day: 1, date: '2026-05-04', activities: [activity] };
+
+describe('validateGeminiDay', () => {
+  it('accepts a day that matches the schema', () => {
+    expect(validateGeminiDay(day)).toMatchObject({ ok: true, value: { day: 1, activities: [{ name: 'Musée d’Orsay' }] } });
+  });
+
+  it('reports every violation with its path', () => {
+    const result = validateGeminiDay({ day: 0, activities: [{ ...activity, estimatedCost: -5, category: undefined }] });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues.map(issue => issue.path)).toEqual([
+      '$.day',
+      '$.activities[0].category',
+      '$.activities[0].estimatedCost',
+    ]);
+  });
+
+  it('rejects dining that does not cater for the traveller’s diet', () => {
+    const dinner = { ...activity, name: 'Steak frites', category: 'dining', timeSlot: 'evening', dietOptions: [] };
+    const result = validateGeminiDay({ ...day, activities: [dinner] }, { dietary: ['vegetarian'] });
+
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,603 @@
+import {
+  Activity,
+  ActivityAccessibility,
+  ActivityAvailability,
+  AgePricing,
+  DietaryNeed,
+  GeminiActivityResponse,
+  GeminiDayResponse,
+  GeminiItineraryEdit,
+  GeminiMealResponse,
+  GeminiRefinementResponse,
+  GeminiTripOverview,
+  GeminiWeatherResponse,
+  MealType,
+  PlaceDetails,
+  TravelPlan,
+  TravelPreferences,
+  WeatherForecast,
+  WeatherInfo,
+  Weekday,
+} from '../types/travel';
+import { ACCESSIBILITY_NEED_VALUES, findUnmetNeeds } from './accessibility';
+import { DIETARY_NEED_VALUES, catersFor, suitsDiet } from './dietary';
+import {
+  ACCESSIBILITY_NEEDS,
+  ACTIVITY_CATEGORIES,
+  DIETARY_NEEDS,
+  MEAL_TYPES,
+  TIME_SLOTS,
+  WEATHER_CONSIDERATIONS,
+  WEEKDAYS,
+  normalizeCategory,
+} from './taxonomy';
+
+export const EDIT_ACTIONS: GeminiItineraryEdit['action'][] = ['add', 'replace', 'remove'];
+
+/** What generated activities and meals are checked against, beyond their shape. */
+export type TravellerNeeds = Pick<TravelPreferences, 'accessibility' | 'dietary'>;
+
+/** A single field-level violation, e.g. `days[2].activities[0].category: must be one of ...`. */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Raised when the model keeps producing an itinerary that does not match the expected shape,
+ * even after the bounded repair attempts. Carries the last set of violations for display/logging.
+ */
+export class ItineraryValidationError extends Error {
+  readonly issues: ValidationIssue[];
+  readonly attempts: number;
+
+  constructor(issues: ValidationIssue[], attempts: number) {
+    super(`The AI returned an invalid itinerary after ${attempts} attempt(s): ${formatValidationIssues(issues, 3)}`);
+    this.name = 'ItineraryValidationError';
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
+export const formatValidationIssues = (issues: ValidationIssue[], limit = issues.length): string => {
+  const shown = issues.slice(0, limit).map(issue => `${issue.path}: ${issue.message}`);
+  const hidden = issues.length - shown.length;
+  return hidden > 0 ? `${shown.join('; ')} (+${hidden} more)` : shown.join('; ');
+};
+
+export type Json = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Small field readers, shared with the catalog loader: each records an issue and returns undefined
+// when the value is unusable.
+
+export const readString = (source: Json, key: string, path: string, issues: ValidationIssue[], required: boolean): string | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    if (required) issues.push({ path: `${path}.${key}`, message: 'is required' });
+    return undefined;
+  }
+  if (typeof value !== 'string' || (required && value.trim() === '')) {
+    issues.push({ path: `${path}.${key}`, message: 'must be a non-empty string' });
+    return undefined;
+  }
+  return value;
+};
+
+export const readNumber = (
+  source: Json,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  required: boolean,
+  range: { min?: number; max?: number } = {}
+): number | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    if (required) issues.push({ path: `${path}.${key}`, message: 'is required' });
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({ path: `${path}.${key}`, message: 'must be a number' });
+    return undefined;
+  }
+  if ((range.min !== undefined && value < range.min) || (range.max !== undefined && value > range.max)) {
+    issues.push({ path: `${path}.${key}`, message: `must be between ${range.min ?? '-∞'} and ${range.max ?? '∞'}` });
+    return undefined;
+  }
+  return value;
+};
+
+export const readEnum = <T extends string>(
+  source: Json,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  allowed: readonly T[],
+  required: boolean
+): T | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    if (required) issues.push({ path: `${path}.${key}`, message: `is required (one of ${allowed.join(', ')})` });
+    return undefined;
+  }
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    issues.push({ path: `${path}.${key}`, message: `must be one of ${allowed.join(', ')} (got ${JSON.stringify(value)})` });
+    return undefined;
+  }
+  return value as T;
+};
+
+/** The given fields without the optional ones that were absent, so no undefined keys are carried into plans. */
+export const definedFields = <T extends object>(fields: T): Partial<T> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+export const readCoordinates = (raw: Json, key: string, path: string, issues: ValidationIssue[]): Activity['coordinates'] => {
+  const value = raw[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!isObject(value)) {
+    issues.push({ path: `${path}.${key}`, message: 'must be an object with numeric lat and lng' });
+    return undefined;
+  }
+  const lat = readNumber(value, 'lat', `${path}.${key}`, issues, true, { min: -90, max: 90 });
+  const lng = readNumber(value, 'lng', `${path}.${key}`, issues, true, { min: -180, max: 180 });
+  return lat !== undefined && lng !== undefined ? { lat, lng } : undefined;
+};
+
+/** Reads a category, accepting legacy labels such as "art" or "beach" and mapping them onto the taxonomy. */
+export const readCategory = (source: Json, path: string, issues: ValidationIssue[]): Activity['category'] | undefined => {
+  const value = source.category;
+  const category = typeof value === 'string' ? normalizeCategory(value) : undefined;
+  if (!category) {
+    issues.push({
+      path: `${path}.category`,
+      message: value === undefined || value === null
+        ? `is required (one of ${ACTIVITY_CATEGORIES.join(', ')})`
+        : `must be one of ${ACTIVITY_CATEGORIES.join(', ')} (got ${JSON.stringify(value)})`,
+    });
+  }
+  return category;
+};
+
+export const readStringArray = (source: Json, key: string, path: string, issues: ValidationIssue[]): string[] | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    issues.push({ path: `${path}.${key}`, message: 'must be an array of strings' });
+    return undefined;
+  }
+  return value as string[];
+};
+
+/** Reads an activity's `availability` rules; undefined when there are none. */
+export const readAvailability = (source: Json, path: string, issues: ValidationIssue[]): ActivityAvailability | undefined => {
+  const value = source.availability;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const rulesPath = `${path}.availability`;
+  if (!isObject(value)) {
+    issues.push({ path: rulesPath, message: 'must be an object' });
+    return undefined;
+  }
+
+  const availability: ActivityAvailability = {};
+  const openDays = readStringArray(value, 'openDays', rulesPath, issues);
+  if (openDays && (openDays.length === 0 || openDays.some(day => !WEEKDAYS.includes(day as Weekday)))) {
+    issues.push({ path: `${rulesPath}.openDays`, message: `must be a non-empty list of ${WEEKDAYS.join(', ')}` });
+  } else if (openDays) {
+    availability.openDays = openDays as Weekday[];
+  }
+  const months = value.months;
+  if (months !== undefined && months !== null) {
+    if (!Array.isArray(months) || months.length === 0 || months.some(month => !Number.isInteger(month) || month < 1 || month > 12)) {
+      issues.push({ path: `${rulesPath}.months`, message: 'must be a non-empty list of month numbers (1-12)' });
+    } else {
+      availability.months = months as number[];
+    }
+  }
+  const bookingLeadDays = readNumber(value, 'bookingLeadDays', rulesPath, issues, false, { min: 0 });
+  if (bookingLeadDays !== undefined) {
+    availability.bookingLeadDays = bookingLeadDays;
+  }
+  const permitRequired = value.permitRequired;
+  if (permitRequired !== undefined && permitRequired !== null) {
+    if (typeof permitRequired !== 'boolean') {
+      issues.push({ path: `${rulesPath}.permitRequired`, message: 'must be true or false' });
+    } else if (permitRequired) {
+      availability.permitRequired = true;
+    }
+  }
+  return Object.keys(availability).length > 0 ? availability : undefined;
+};
+
+/** Reads an activity's child and senior `pricing`; undefined when neither is given. */
+export const readPricing = (source: Json, path: string, issues: ValidationIssue[]): AgePricing | undefined => {
+  const value = source.pricing;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const pricingPath = `${path}.pricing`;
+  if (!isObject(value)) {
+    issues.push({ path: pricingPath, message: 'must be an object with numeric child and senior prices' });
+    return undefined;
+  }
+  const pricing: AgePricing = {};
+  const child = readNumber(value, 'child', pricingPath, issues, false, { min: 0 });
+  if (child !== undefined) {
+    pricing.child = child;
+  }
+  const senior = readNumber(value, 'senior', pricingPath, issues, false, { min: 0 });
+  if (senior !== undefined) {
+    pricing.senior = senior;
+  }
+  return Object.keys(pricing).length > 0 ? pricing : undefined;
+};
+
+/** Reads what is known about an activity's `accessibility`; undefined when nothing is. */
+export const readAccessibility = (source: Json, path: string, issues: ValidationIssue[]): ActivityAccessibility | undefined => {
+  const value = source.accessibility;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const accessibilityPath = `${path}.accessibility`;
+  if (!isObject(value)) {
+    issues.push({ path: accessibilityPath, message: 'must be an object' });
+    return undefined;
+  }
+  const accessibility: ActivityAccessibility = {};
+  for (const need of ACCESSIBILITY_NEED_VALUES) {
+    const known = value[need];
+    if (known === undefined || known === null) {
+      continue;
+    }
+    if (typeof known !== 'boolean') {
+      issues.push({ path: `${accessibilityPath}.${need}`, message: 'must be true or false' });
+    } else {
+      accessibility[need] = known;
+    }
+  }
+  const walkingKm = readNumber(value, 'walkingKm', accessibilityPath, issues, false, { min: 0 });
+  if (walkingKm !== undefined) {
+    accessibility.walkingKm = walkingKm;
+  }
+  return Object.keys(accessibility).length > 0 ? accessibility : undefined;
+};
+
+/** Reads a list of diets such as `dietOptions`; undefined when absent. */
+export const readDiets = (source: Json, key: string, path: string, issues: ValidationIssue[]): DietaryNeed[] | undefined => {
+  const diets = readStringArray(source, key, path, issues);
+  if (diets?.some(diet => !DIETARY_NEED_VALUES.includes(diet as DietaryNeed))) {
+    issues.push({ path: `${path}.${key}`, message: `must be a list of ${DIETARY_NEED_VALUES.join(', ')}` });
+    return undefined;
+  }
+  return diets as DietaryNeed[] | undefined;
+};
+
+const describeMissingDiets = (dietOptions: DietaryNeed[] | undefined, needs: TravellerNeeds): string =>
+  (needs.dietary ?? []).filter(need => !catersFor(dietOptions, [need])).map(need => DIETARY_NEEDS[need].label.toLowerCase()).join(' and ');
+
+// Activities the model itself describes as failing the traveller's needs are sent back for repair
+const checkActivityNeeds = (
+  activity: GeminiActivityResponse | undefined,
+  path: string,
+  issues: ValidationIssue[],
+  needs: TravellerNeeds | undefined
+): void => {
+  if (!activity || !needs) {
+    return;
+  }
+  const { accessibility } = needs;
+  if (!suitsDiet(activity, needs.dietary)) {
+    issues.push({
+      path: `${path}.dietOptions`,
+      message: `must include ${describeMissingDiets(activity.dietOptions, needs)}, which the traveller eats; suggest a different place`,
+    });
+  }
+  findUnmetNeeds(activity, accessibility).forEach(need => issues.push({
+    path: `${path}.accessibility.${need}`,
+    message: `is false, but the traveller needs ${ACCESSIBILITY_NEEDS[need].label.toLowerCase()}; suggest a different activity`,
+  }));
+  const walkingKm = activity.accessibility?.walkingKm;
+  if (walkingKm !== undefined && accessibility?.maxWalkingKm !== undefined && walkingKm > accessibility.maxWalkingKm) {
+    issues.push({
+      path: `${path}.accessibility.walkingKm`,
+      message: `must be at most ${accessibility.maxWalkingKm}, the traveller's daily walking limit; suggest a different activity`,
+    });
+  }
+};
+
+const MEAL_TYPE_VALUES = Object.keys(MEAL_TYPES) as MealType[];
+
+const validateMeal = (raw: unknown, path: string, issues: ValidationIssue[], needs: TravellerNeeds | undefined): GeminiMealResponse | undefined => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const before = issues.length;
+  const meal = {
+    meal: readEnum(raw, 'meal', path, issues, MEAL_TYPE_VALUES, true),
+    name: readString(raw, 'name', path, issues, true),
+    location: readString(raw, 'location', path, issues, true),
+    cuisine: readString(raw, 'cuisine', path, issues, false),
+    estimatedCost: readNumber(raw, 'estimatedCost', path, issues, true, { min: 0 }),
+    dietOptions: readDiets(raw, 'dietOptions', path, issues),
+  };
+  if (issues.length === before && needs && !catersFor(meal.dietOptions, needs.dietary)) {
+    issues.push({
+      path: `${path}.dietOptions`,
+      message: `must include ${describeMissingDiets(meal.dietOptions, needs)}, which the traveller eats; suggest a different place`,
+    });
+  }
+  return issues.length === before ? (meal as GeminiMealResponse) : undefined;
+};
+
+const validateWeather = (raw: unknown, path: string, issues: ValidationIssue[]): GeminiWeatherResponse | undefined => {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const temperature = raw.temperature;
+  let min: number | undefined;
+  let max: number | undefined;
+  if (!isObject(temperature)) {
+    issues.push({ path: `${path}.temperature`, message: 'must be an object with numeric min and max' });
+  } else {
+    min = readNumber(temperature, 'min', `${path}.temperature`, issues, true);
+    max = readNumber(temperature, 'max', `${path}.temperature`, issues, true);
+    if (min !== undefined && max !== undefined && min > max) {
+      issues.push({ path: `${path}.temperature`, message: 'min must not exceed max' });
+    }
+  }
+  const condition = readString(raw, 'condition', path, issues, true);
+  const weather: GeminiWeatherResponse = {
+    temperature: { min: min ?? 0, max: max ?? 0 },
+    condition: condition ?? '',
+    description: readString(raw, 'description', path, issues, false),
+    humidity: readNumber(raw, 'humidity', path, issues, false, { min: 0, max: 100 }),
+    precipitation: readNumber(raw, 'precipitation', path, issues, false, { min: 0, max: 100 }),
+    recommendation: readString(raw, 'recommendation', path, issues, false),
+  };
+  return weather;
+};
+
+const validateActivity = (raw: unknown, path: string, issues: ValidationIssue[]): GeminiActivityResponse | undefined => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const before = issues.length;
+  const activity = {
+    id: readString(raw, 'id', path, issues, false),
+    name: readString(raw, 'name', path, issues, true),
+    description: readString(raw, 'description', path, issues, true),
+    duration: readString(raw, 'duration', path, issues, true),
+    category: readCategory(raw, path, issues),
+    estimatedCost: readNumber(raw, 'estimatedCost', path, issues, true, { min: 0 }),
+    location: readString(raw, 'location', path, issues, true),
+    timeSlot: readEnum(raw, 'timeSlot', path, issues, TIME_SLOTS, true),
+    weatherConsideration: readEnum(raw, 'weatherConsideration', path, issues, WEATHER_CONSIDERATIONS, false),
+    rating: readNumber(raw, 'rating', path, issues, false, { min: 0, max: 5 }),
+    photos: readStringArray(raw, 'photos', path, issues),
+    availability: readAvailability(raw, path, issues),
+    pricing: readPricing(raw, path, issues),
+    minAge: readNumber(raw, 'minAge', path, issues, false, { min: 0, max: 99 }),
+    accessibility: readAccessibility(raw, path, issues),
+    dietOptions: readDiets(raw, 'dietOptions', path, issues),
+  };
+  // Required fields are only guaranteed when no new issue was recorded for this activity
+  return issues.length === before ? (activity as GeminiActivityResponse) : undefined;
+};
+
+const validateDay = (raw: unknown, path: string, issues: ValidationIssue[], needs?: TravellerNeeds): GeminiDayResponse | undefined => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const day = readNumber(raw, 'day', path, issues, true, { min: 1 });
+  const activities: GeminiActivityResponse[] = [];
+  if (!Array.isArray(raw.activities) || raw.activities.length === 0) {
+    issues.push({ path: `${path}.activities`, message: 'must be a non-empty array' });
+  } else {
+    raw.activities.forEach((activity, index) => {
+      const validated = validateActivity(activity, `${path}.activities[${index}]`, issues);
+      checkActivityNeeds(validated, `${path}.activities[${index}]`, issues, needs);
+      if (validated) activities.push(validated);
+    });
+  }
+  const meals: GeminiMealResponse[] = [];
+  if (raw.meals !== undefined && raw.meals !== null) {
+    if (!Array.isArray(raw.meals)) {
+      issues.push({ path: `${path}.meals`, message: 'must be an array' });
+    } else {
+      raw.meals.forEach((meal, index) => {
+        const validated = validateMeal(meal, `${path}.meals[${index}]`, issues, needs);
+        if (validated) meals.push(validated);
+      });
+    }
+  }
+  return {
+    day: day ?? 0,
+    date: readString(raw, 'date', path, issues, false),
+    notes: readString(raw, 'notes', path, issues, false),
+    weather: validateWeather(raw.weather, `${path}.weather`, issues),
+    activities,
+    meals,
+    dailyTravelTips: readStringArray(raw, 'dailyTravelTips', path, issues),
+  };
+};
+
+const validateEmergencyInfo = (raw: unknown, path: string, issues: ValidationIssue[]): TravelPlan['emergencyInfo'] => {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  return {
+    contacts: readStringArray(raw, 'contacts', path, issues) ?? [],
+    hospitals: readStringArray(raw, 'hospitals', path, issues) ?? [],
+    embassies: readStringArray(raw, 'embassies', path, issues) ?? [],
+  };
+};
+
+const readOverview = (raw: Json, issues: ValidationIssue[]): GeminiTripOverview => ({
+  id: readString(raw, 'id', '$', issues, false),
+  destination: readString(raw, 'destination', '$', issues, true) ?? '',
+  duration: readNumber(raw, 'duration', '$', issues, true, { min: 1 }) ?? 0,
+  weatherSummary: readString(raw, 'weatherSummary', '$', issues, false),
+  travelTips: readStringArray(raw, 'travelTips', '$', issues),
+  emergencyInfo: validateEmergencyInfo(raw.emergencyInfo, '$.emergencyInfo', issues),
+});
+
+/** Validates the trip-level fields generated ahead of the individual days. */
+export const validateGeminiOverview = (raw: unknown): ValidationResult<GeminiTripOverview> => {
+  if (!isObject(raw)) {
+    return { ok: false, issues: [{ path: '$', message: 'must be a JSON object' }] };
+  }
+  const issues: ValidationIssue[] = [];
+  const overview = readOverview(raw, issues);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: overview };
+};
+
+/** Validates a single generated day, including that no activity or meal fails the traveller's `needs`. */
+export const validateGeminiDay = (raw: unknown, needs?: TravellerNeeds): ValidationResult<GeminiDayResponse> => {
+  const issues: ValidationIssue[] = [];
+  const day = validateDay(raw, '$', issues, needs);
+  return issues.length > 0 || !day ? { ok: false, issues } : { ok: true, value: day };
+};
+
+/** Validates a single replacement activity, including that it does not fail the traveller's `needs`. */
+export const validateGeminiActivity = (raw: unknown, needs?: TravellerNeeds): ValidationResult<GeminiActivityResponse> => {
+  const issues: ValidationIssue[] = [];
+  const activity = validateActivity(raw, '$', issues);
+  checkActivityNeeds(activity, '$', issues, needs);
+  return issues.length > 0 || !activity ? { ok: false, issues } : { ok: true, value: activity };
+};
+
+/** Validates a standalone forecast; unlike a day's weather, every field of each forecast day is required. */
+export const validateWeatherForecast = (raw: unknown): ValidationResult<WeatherForecast> => {
+  if (!isObject(raw)) {
+    return { ok: false, issues: [{ path: '$', message: 'must be a JSON object' }] };
+  }
+  const issues: ValidationIssue[] = [];
+  const location = readString(raw, 'location', '$', issues, true);
+  const forecast: WeatherInfo[] = [];
+  if (!Array.isArray(raw.forecast)) {
+    issues.push({ path: '$.forecast', message: 'must be an array' });
+  } else {
+    raw.forecast.forEach((day, index) => {
+      const path = `$.forecast[${index}]`;
+      if (!isObject(day)) {
+        issues.push({ path, message: 'must be an object' });
+        return;
+      }
+      const before = issues.length;
+      const info = {
+        ...validateWeather(day, path, issues),
+        date: readString(day, 'date', path, issues, true),
+        description: readString(day, 'description', path, issues, true),
+        humidity: readNumber(day, 'humidity', path, issues, true, { min: 0, max: 100 }),
+        precipitation: readNumber(day, 'precipitation', path, issues, true, { min: 0, max: 100 }),
+        recommendation: readString(day, 'recommendation', path, issues, true),
+      };
+      if (issues.length === before) forecast.push(info as WeatherInfo);
+    });
+  }
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: { location: location!, forecast } };
+};
+
+/** Validates the details looked up for a single place. */
+export const validatePlaceDetails = (raw: unknown): ValidationResult<PlaceDetails> => {
+  if (!isObject(raw)) {
+    return { ok: false, issues: [{ path: '$', message: 'must be a JSON object' }] };
+  }
+  const issues: ValidationIssue[] = [];
+  const details = {
+    name: readString(raw, 'name', '$', issues, true),
+    description: readString(raw, 'description', '$', issues, true),
+    location: readString(raw, 'location', '$', issues, true),
+    coordinates: readCoordinates(raw, 'coordinates', '$', issues),
+    rating: readNumber(raw, 'rating', '$', issues, false, { min: 0, max: 5 }),
+    photos: readStringArray(raw, 'photos', '$', issues),
+    openingHours: readString(raw, 'openingHours', '$', issues, false),
+    entryFee: readNumber(raw, 'entryFee', '$', issues, false, { min: 0 }),
+    bestTimeToVisit: readString(raw, 'bestTimeToVisit', '$', issues, false),
+    tips: readStringArray(raw, 'tips', '$', issues),
+    nearbyAttractions: readStringArray(raw, 'nearbyAttractions', '$', issues),
+  };
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: details as PlaceDetails };
+};
+
+const validateEdit = (raw: unknown, path: string, issues: ValidationIssue[], plan: TravelPlan): GeminiItineraryEdit | undefined => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'must be an object' });
+    return undefined;
+  }
+  const before = issues.length;
+  const action = readEnum(raw, 'action', path, issues, EDIT_ACTIONS, true);
+  const dayNumber = readNumber(raw, 'day', path, issues, true, { min: 1 });
+  const activityId = readString(raw, 'activityId', path, issues, action === 'replace' || action === 'remove');
+  const activity = action === 'remove' ? undefined : validateActivity(raw.activity, `${path}.activity`, issues);
+  checkActivityNeeds(activity, `${path}.activity`, issues, plan.preferences);
+
+  // Edits must point at something that exists in the plan being refined
+  const day = plan.days.find(candidate => candidate.day === dayNumber);
+  if (dayNumber !== undefined && !day) {
+    issues.push({ path: `${path}.day`, message: `must be one of the planned days (1-${plan.days.length})` });
+  }
+  if (day && activityId && action !== 'add' && !day.activities.some(candidate => candidate.id === activityId)) {
+    issues.push({ path: `${path}.activityId`, message: `must be the id of an activity on day ${day.day}` });
+  }
+  return issues.length === before ? { action: action!, day: dayNumber!, activityId, activity } : undefined;
+};
+
+/**
+ * Validates the edits proposed for a chat refinement, including that every referenced day and
+ * activity exists in `plan` and that new activities do not fail the traveller's accessibility or diet.
+ */
+export const validateGeminiRefinement = (raw: unknown, plan: TravelPlan): ValidationResult<GeminiRefinementResponse> => {
+  if (!isObject(raw)) {
+    return { ok: false, issues: [{ path: '$', message: 'must be a JSON object' }] };
+  }
+  const issues: ValidationIssue[] = [];
+  const summary = readString(raw, 'summary', '$', issues, true);
+  const edits: GeminiItineraryEdit[] = [];
+  if (!Array.isArray(raw.edits)) {
+    issues.push({ path: '$.edits', message: 'must be an array' });
+  } else {
+    raw.edits.forEach((edit, index) => {
+      const validated = validateEdit(edit, `$.edits[${index}]`, issues, plan);
+      if (validated) edits.push(validated);
+    });
+  }
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: { summary: summary!, edits } };
+};
+
+/**
+ * Parses raw model text and validates it in one step, turning JSON syntax errors into issues
+ * so they can be fed back to the model like any other violation.
+ */
+export const parseAndValidate = <T>(text: string, validate: (raw: unknown) => ValidationResult<T>): ValidationResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, issues: [{ path: '$', message: `is not valid JSON (${(error as Error).message})` }] };
+  }
+  return validate(parsed);
+};
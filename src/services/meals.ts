@@ -0,0 +1,119 @@
+import { Restaurant } from '../types/catalog';
+import { Activity, DayPlan, Meal, MealSuggestion, MealType, TravelPreferences } from '../types/travel';
+import { findDestinationCatalog, findLocationCoordinates } from './catalogLoader';
+import { MEALS_PER_DAY } from './costModel';
+import { catersFor } from './dietary';
+import { distanceKm } from './routing';
+import { formatClockTime, getScheduleOptions, parseClockTime } from './scheduler';
+import { MEAL_TYPES } from './taxonomy';
+
+type Coordinates = NonNullable<Activity['coordinates']>;
+
+/** Meals in the order they are eaten. */
+export const MEAL_TYPE_VALUES = Object.keys(MEAL_TYPES) as MealType[];
+
+/** Per adult, in USD: the meal's part of the budget tier's daily meal allowance. */
+export const getMealAllowance = (meal: MealType, budget: TravelPreferences['budget']): number =>
+  Math.round((MEALS_PER_DAY[budget] ?? MEALS_PER_DAY['mid-range']) * MEAL_TYPES[meal].share);
+
+interface Busy {
+  activity: Activity;
+  start: number;
+  end: number;
+}
+
+// The first free time in the meal's window that fits it, leaving `bufferMinutes` to and from the
+// activities around it; when there is none, the window's latest start, alongside the activity then
+const findMealStart = (meal: MealType, busy: Busy[], bufferMinutes: number): number => {
+  const { earliest, latest, minutes } = MEAL_TYPES[meal];
+  let start = parseClockTime(earliest)!;
+  for (const interval of busy) {
+    if (start + minutes + bufferMinutes <= interval.start) {
+      break;
+    }
+    start = Math.max(start, interval.end + bufferMinutes);
+  }
+  return Math.min(start, parseClockTime(latest)!);
+};
+
+const toSuggestion = ({ name, location, cuisine, dietOptions, coordinates }: Restaurant): MealSuggestion => ({
+  name,
+  location,
+  ...(cuisine && { cuisine }),
+  ...(dietOptions && { dietOptions }),
+  ...(coordinates && { coordinates }),
+});
+
+// Closest unused restaurant serving the meal that caters for the diet and fits the allowance
+const pickRestaurant = (
+  restaurants: Restaurant[],
+  meal: MealType,
+  near: Coordinates | undefined,
+  destination: string,
+  preferences: TravelPreferences,
+  takenNames: Set<string>
+): Restaurant | undefined => {
+  const allowance = getMealAllowance(meal, preferences.budget);
+  const distance = (restaurant: Restaurant): number => {
+    const point = restaurant.coordinates ?? findLocationCoordinates(destination, restaurant.location);
+    return near && point ? distanceKm(near, point) : Infinity;
+  };
+  return restaurants
+    .filter(restaurant =>
+      restaurant.meals.includes(meal) &&
+      !takenNames.has(restaurant.name) &&
+      restaurant.estimatedCost <= allowance &&
+      catersFor(restaurant.dietOptions, preferences.dietary)
+    )
+    .reduce<Restaurant | undefined>((best, candidate) => (!best || distance(candidate) < distance(best) ? candidate : best), undefined);
+};
+
+/**
+ * Plans breakfast, lunch and dinner around the day's scheduled activities and adds them to the
+ * day's `totalCost`. A dining activity overlapping a meal's window stands in for the meal. Other
+ * meals start in the first free time of their window, or at its latest start when the
+ * activities leave none. A place suggested earlier, e.g. by Gemini, is kept; otherwise the catalog
+ * restaurant closest to the activity before the meal is suggested, if one serves it, caters for
+ * the traveller's diet and fits the budget tier's meal allowance. Meals without a place are
+ * costed at the allowance.
+ */
+export const planDayMeals = (day: DayPlan, preferences: TravelPreferences, destination: string): DayPlan => {
+  const { bufferMinutes } = getScheduleOptions(preferences);
+  const busy: Busy[] = day.activities
+    .flatMap(activity => {
+      const start = parseClockTime(activity.startTime);
+      const end = parseClockTime(activity.endTime);
+      return start !== undefined && end !== undefined ? [{ activity, start, end }] : [];
+    })
+    .sort((a, b) => a.start - b.start);
+  const restaurants = findDestinationCatalog(destination)?.restaurants ?? [];
+  const takenNames = new Set(day.meals?.flatMap(meal => (meal.suggestion ? [meal.suggestion.name] : [])));
+
+  const meals = MEAL_TYPE_VALUES.map((meal): Meal => {
+    const { earliest, latest, minutes } = MEAL_TYPES[meal];
+    const windowStart = parseClockTime(earliest)!;
+    const windowEnd = parseClockTime(latest)! + minutes;
+    const dining = busy.find(({ activity, start, end }) => activity.category === 'dining' && start < windowEnd && end > windowStart);
+    if (dining) {
+      return { meal, startTime: dining.activity.startTime, endTime: dining.activity.endTime, estimatedCost: 0, activityId: dining.activity.id };
+    }
+
+    const start = findMealStart(meal, busy, bufferMinutes);
+    const timed = { meal, startTime: formatClockTime(start), endTime: formatClockTime(start + minutes) };
+    const earlier = day.meals?.find(existing => existing.meal === meal && existing.suggestion);
+    if (earlier) {
+      return { ...timed, estimatedCost: earlier.estimatedCost, suggestion: earlier.suggestion };
+    }
+    const nearby = busy.filter(interval => interval.end <= start).pop() ?? busy.find(interval => interval.start >= start);
+    const near = nearby && (nearby.activity.coordinates ?? findLocationCoordinates(destination, nearby.activity.location));
+    const restaurant = pickRestaurant(restaurants, meal, near, destination, preferences, takenNames);
+    if (!restaurant) {
+      return { ...timed, estimatedCost: getMealAllowance(meal, preferences.budget) };
+    }
+    takenNames.add(restaurant.name);
+    return { ...timed, estimatedCost: restaurant.estimatedCost, suggestion: toSuggestion(restaurant) };
+  });
+
+  const activitiesCost = day.activities.reduce((total, activity) => total + activity.estimatedCost, 0);
+  return { ...day, meals, totalCost: activitiesCost + meals.reduce((total, meal) => total + meal.estimatedCost, 0) };
+};
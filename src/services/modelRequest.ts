@@ -0,0 +1,142 @@
+import { GoogleGenerativeAIError, GoogleGenerativeAIFetchError, GoogleGenerativeAIResponseError } from '@google/generative-ai';
+
+/**
+ * Why a model call failed:
+ * - `quota`: rate limit or quota exhausted (HTTP 429)
+ * - `safety`: the prompt or answer was blocked by content filters
+ * - `network`: the request never reached the API or the connection dropped
+ * - `timeout`: no answer within the per-call time limit
+ * - `server`: the API failed on its side (HTTP 5xx)
+ * - `empty-response`: the API answered without any content
+ * - `rejected`: the API refused the request (bad key, invalid request, unknown model)
+ */
+export type ModelErrorKind = 'quota' | 'safety' | 'network' | 'timeout' | 'server' | 'empty-response' | 'rejected';
+
+export class ModelRequestError extends Error {
+  readonly kind: ModelErrorKind;
+  /** Whether trying the same request again may succeed. */
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: ModelErrorKind, message: string, options: { retryable?: boolean; status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ModelRequestError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+export interface ModelRequestOptions {
+  /** Cancels the request, including any pending retry; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Time limit for each attempt. */
+  timeoutMs?: number;
+  /** Retries after the first attempt, for retryable failures only. */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles (with jitter) for each further one. */
+  baseDelayMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1_000;
+
+/**
+ * Maps SDK and fetch failures onto a ModelRequestError with a kind the UI can explain.
+ */
+export const classifyModelError = (error: unknown): ModelRequestError => {
+  if (error instanceof ModelRequestError) {
+    return error;
+  }
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const status = error.status;
+    if (status === 429) {
+      return new ModelRequestError('quota', 'The AI service rate limit or quota was reached.', { retryable: true, status, cause: error });
+    }
+    if (status === 408) {
+      return new ModelRequestError('timeout', 'The AI service timed out.', { retryable: true, status, cause: error });
+    }
+    if (status !== undefined && status >= 500) {
+      return new ModelRequestError('server', `The AI service failed (HTTP ${status}).`, { retryable: true, status, cause: error });
+    }
+    return new ModelRequestError('rejected', `The AI service rejected the request (HTTP ${status ?? 'unknown'}).`, { status, cause: error });
+  }
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return new ModelRequestError('safety', 'The AI response was blocked by content filters.', { cause: error });
+  }
+  // fetch rejects with a TypeError when the network is down; the SDK wraps it in a plain GoogleGenerativeAIError
+  if (error instanceof TypeError || (error instanceof GoogleGenerativeAIError && /fetch/i.test(error.message))) {
+    return new ModelRequestError('network', 'Could not reach the AI service.', { retryable: true, cause: error });
+  }
+  return new ModelRequestError('rejected', error instanceof Error ? error.message : 'The AI request failed.', { cause: error });
+};
+
+const sleep = (milliseconds: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs one model call with a per-attempt timeout, retrying transient failures (rate limits, 5xx,
+ * network errors, timeouts, empty responses) with jittered exponential backoff. `operation`
+ * receives a signal that fires on timeout or when the caller aborts; it should pass it to the SDK
+ * and throw a ModelRequestError itself for failures it detects in the response.
+ */
+export const requestModel = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: ModelRequestOptions = {}
+): Promise<T> => {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+
+    const attemptController = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      attemptController.abort();
+    }, timeoutMs);
+    const forwardAbort = () => attemptController.abort(signal?.reason);
+    signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    try {
+      return await operation(attemptController.signal);
+    } catch (error) {
+      // A cancellation by the caller always wins over whatever error the aborted call produced
+      signal?.throwIfAborted();
+      const failure = timedOut
+        ? new ModelRequestError('timeout', `The AI service did not answer within ${Math.round(timeoutMs / 1000)} seconds.`, { retryable: true, cause: error })
+        : classifyModelError(error);
+
+      if (!failure.retryable || attempt >= maxRetries) {
+        throw failure;
+      }
+      // Equal jitter: half the exponential delay plus up to the other half at random, so parallel
+      // clients do not retry in lockstep
+      const ceiling = baseDelayMs * 2 ** attempt;
+      const delay = Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+      console.warn(`Model request failed (${failure.kind}); retry ${attempt + 1} of ${maxRetries} in ${delay} ms.`, error);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+};
@@ -0,0 +1,86 @@
+import { Activity, DayIntensity, DayPace, DayPlan, TravelPreferences } from '../types/travel';
+import { getDayWalkingKm } from './accessibility';
+import { parseClockTime, parseDurationMinutes } from './scheduler';
+import { DAY_INTENSITIES, TRAVEL_STYLES, isStrenuousActivity } from './taxonomy';
+
+// Load points on top of the one per hour of activities
+const WALKING_POINTS_PER_KM = 0.5;
+const TRANSFER_POINTS_PER_HOUR = 0.5;
+const STRENUOUS_ACTIVITY_POINTS = 2;
+const EARLY_START_POINTS = 1;
+
+// A first activity starting before 08:30 makes an early start
+const EARLY_START = 8 * 60 + 30;
+
+/** Intensities from lightest to hardest. */
+export const DAY_INTENSITY_VALUES = Object.keys(DAY_INTENSITIES) as DayIntensity[];
+
+const roundToTenth = (value: number): number => Math.round(value * 10) / 10;
+
+// Scheduled length when the activity has times, otherwise its stated duration
+const getActivityMinutes = (activity: Activity): number => {
+  const start = parseClockTime(activity.startTime);
+  const end = parseClockTime(activity.endTime);
+  return start !== undefined && end !== undefined && end > start ? end - start : parseDurationMinutes(activity.duration) ?? 0;
+};
+
+const getFirstStart = (day: DayPlan): number | undefined =>
+  day.activities.map(activity => parseClockTime(activity.startTime)).find(start => start !== undefined);
+
+/** Hours of activities planned for the day. */
+export const getActivityHours = (day: DayPlan): number =>
+  roundToTenth(day.activities.reduce((total, activity) => total + getActivityMinutes(activity), 0) / 60);
+
+/**
+ * Scores how tiring the day is: a point per hour of activities, half a point per km walked and
+ * per hour of transfer, two for each strenuous activity and one for an early start.
+ */
+export const getDayLoad = (day: DayPlan): number => {
+  const firstStart = getFirstStart(day);
+  return roundToTenth(
+    getActivityHours(day) +
+    getDayWalkingKm(day) * WALKING_POINTS_PER_KM +
+    ((day.transfer?.durationMinutes ?? 0) / 60) * TRANSFER_POINTS_PER_HOUR +
+    day.activities.filter(isStrenuousActivity).length * STRENUOUS_ACTIVITY_POINTS +
+    (firstStart !== undefined && firstStart < EARLY_START ? EARLY_START_POINTS : 0)
+  );
+};
+
+export const getDayIntensity = (load: number): DayIntensity =>
+  DAY_INTENSITY_VALUES.filter(intensity => load >= DAY_INTENSITIES[intensity].minLoad).pop() ?? 'light';
+
+const isStrenuousDay = (day: DayPlan | undefined): day is DayPlan => !!day && getDayIntensity(getDayLoad(day)) === 'strenuous';
+
+/** The most load the travel style allows on the day after `previousDay`; less when that one was strenuous. */
+export const getPaceLimit = (preferences: TravelPreferences, previousDay: DayPlan | undefined): number => {
+  const style = TRAVEL_STYLES[preferences.travelStyle] ?? TRAVEL_STYLES.moderate;
+  return isStrenuousDay(previousDay) ? style.maxLoadAfterStrenuous : style.maxLoad;
+};
+
+/** "Strenuous: about 7.5 h of activities and 3 km of walking" */
+export const describePace = (pace: DayPace): string =>
+  `${DAY_INTENSITIES[pace.intensity].label}: about ${pace.activityHours} h of activities and ${pace.walkingKm} km of walking`;
+
+const checkDayPace = (day: DayPlan, preferences: TravelPreferences, previousDay: DayPlan | undefined): DayPlan => {
+  const load = getDayLoad(day);
+  const limit = getPaceLimit(preferences, previousDay);
+  const pace: DayPace = { load, intensity: getDayIntensity(load), activityHours: getActivityHours(day), walkingKm: getDayWalkingKm(day), limit };
+  if (load > limit) {
+    const firstStart = getFirstStart(day);
+    pace.warnings = [
+      isStrenuousDay(previousDay)
+        ? `Comes right after strenuous day ${previousDay.day}; a lighter day helps you recover. Consider moving or removing an activity.`
+        : `Busier than a ${TRAVEL_STYLES[preferences.travelStyle]?.label.toLowerCase() ?? 'moderate'} pace allows${firstStart !== undefined && firstStart < EARLY_START ? ', with an early start' : ''}. Consider moving or removing an activity.`,
+    ];
+  }
+  return { ...day, pace };
+};
+
+/**
+ * Scores each day's load and records it in `pace`, with a warning when the day is heavier than
+ * the travel style allows. The day after a strenuous one is held to a lower limit, so two heavy
+ * days in a row, such as a pass day trip followed by a valley adventure, are flagged. Days are
+ * taken in the order given.
+ */
+export const checkTripPace = (days: DayPlan[], preferences: TravelPreferences): DayPlan[] =>
+  days.map((day, index) => checkDayPace(day, preferences, days[index - 1]));
@@ -0,0 +1,111 @@
+import { Activity, AgeBand, TravelParty, TravelPreferences } from '../types/travel';
+import { AGE_BANDS } from './taxonomy';
+
+/** Age bands in listing order: adults, children, seniors. */
+export const PARTY_BANDS = Object.keys(AGE_BANDS) as AgeBand[];
+
+const COUNT_KEYS: Record<AgeBand, 'adults' | 'children' | 'seniors'> = { adult: 'adults', child: 'children', senior: 'seniors' };
+
+// Tags that make an activity a good pick when children come along
+const FAMILY_TAGS = ['family', 'family-friendly', 'kids'];
+
+const COUNT = '(\\d+|an?|one|two|three|four|five|six)';
+const countWords: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+// Every "<count> <noun>" mention in the text, e.g. "2 kids" or "a toddler"
+const countMentions = (text: string, nouns: string): number[] =>
+  Array.from(text.matchAll(new RegExp(`\\b${COUNT}\\s+(?:${nouns})\\b`, 'g')), match => countWords[match[1]] ?? parseInt(match[1], 10));
+
+const sum = (counts: number[]): number => counts.reduce((total, count) => total + count, 0);
+
+/** How many travellers of the band the party has. */
+export const countBand = (party: TravelParty, band: AgeBand): number => party[COUNT_KEYS[band]];
+
+/** A copy of the party with `count` travellers of the band; ages of children past the count are dropped. */
+export const withBandCount = (party: TravelParty, band: AgeBand, count: number): TravelParty => {
+  const updated = { ...party, [COUNT_KEYS[band]]: count };
+  if (updated.childAges) {
+    updated.childAges = updated.childAges.slice(0, updated.children);
+  }
+  return updated;
+};
+
+export const getPartySize = (party: TravelParty): number => sum(PARTY_BANDS.map(band => countBand(party, band)));
+
+/**
+ * Reads the party from text such as "2 adults and 2 kids aged 4 and 7", "a couple with a
+ * toddler" or "3 seniors". Toddlers and babies without a stated age are taken as 2 and 1. When
+ * children are mentioned without any adult or senior, the writer is counted as one adult.
+ * Undefined when no age band is mentioned.
+ */
+export const parseParty = (text: string): TravelParty | undefined => {
+  const lowerText = text.toLowerCase();
+  const statedAges = [
+    ...Array.from(lowerText.matchAll(/\b(?:aged?|ages)\s+(\d{1,2}(?:\s*(?:,|and|&)\s*\d{1,2})*)/g), match => match[1].match(/\d+/g)!.map(Number)).flat(),
+    ...Array.from(lowerText.matchAll(/\b(\d{1,2})[-\s]years?[-\s]olds?\b/g), match => parseInt(match[1], 10)),
+  ].filter(age => age < 18);
+  const toddlers = sum(countMentions(lowerText, 'toddlers?'));
+  const babies = sum(countMentions(lowerText, 'bab(?:y|ies)|infants?'));
+  const children = Math.max(sum(countMentions(lowerText, 'kids?|child|children|sons?|daughters?|teens?|teenagers?')) + toddlers + babies, statedAges.length);
+  const seniors = sum(countMentions(lowerText, 'seniors?|grandparents?|retirees?|pensioners?|elderly (?:parents?|people)'));
+  const adults = sum(countMentions(lowerText, 'adults?|grown-?ups?')) + (/\ba couple\b(?!\s+of)/.test(lowerText) ? 2 : 0);
+  if (adults + children + seniors === 0) {
+    return undefined;
+  }
+
+  const party: TravelParty = { adults: adults || (children > 0 && seniors === 0 ? 1 : 0), children, seniors };
+  const childAges = [...statedAges, ...Array(statedAges.length > 0 ? 0 : toddlers).fill(2), ...Array(statedAges.length > 0 ? 0 : babies).fill(1)];
+  if (childAges.length > 0) {
+    party.childAges = childAges.slice(0, children);
+  }
+  return party;
+};
+
+/** The trip's party; without one, `groupSize` adults. */
+export const getParty = (preferences: Pick<TravelPreferences, 'groupSize' | 'party'>): TravelParty =>
+  preferences.party ?? { adults: preferences.groupSize || 1, children: 0, seniors: 0 };
+
+/** Makes `groupSize` agree with the party; anything without a non-empty party is returned unchanged. */
+export const withPartyTotals = <T extends { groupSize?: number; party?: TravelParty }>(value: T): T =>
+  value.party && getPartySize(value.party) > 0 ? { ...value, groupSize: getPartySize(value.party) } : value;
+
+/** "2 adults, 2 children (ages 4 and 7), 1 senior" */
+export const describeParty = (party: TravelParty): string =>
+  PARTY_BANDS.filter(band => countBand(party, band) > 0)
+    .map(band => {
+      const count = countBand(party, band);
+      const label = `${count} ${count === 1 ? AGE_BANDS[band].singular : AGE_BANDS[band].plural}`;
+      const ages = band === 'child' && party.childAges?.length ? party.childAges : undefined;
+      return ages ? `${label} (${ages.length === 1 ? 'age' : 'ages'} ${ages.slice(0, -1).join(', ')}${ages.length > 1 ? ' and ' : ''}${ages[ages.length - 1]})` : label;
+    })
+    .join(', ');
+
+/** Age of the party's youngest member; 0 when some child's age is not known, 18 without children. */
+export const getYoungestAge = (party: TravelParty): number => {
+  if (party.children === 0) {
+    return 18;
+  }
+  const ages = party.childAges ?? [];
+  return ages.length < party.children ? 0 : Math.min(...ages);
+};
+
+/** Whether every member of the party is old enough for the activity. */
+export const isSuitableForParty = (activity: Activity, party: TravelParty): boolean =>
+  activity.minAge === undefined || getYoungestAge(party) >= activity.minAge;
+
+export const isFamilyFriendly = (activity: Activity): boolean =>
+  activity.tags?.some(tag => FAMILY_TAGS.includes(tag.toLowerCase())) ?? false;
+
+/** Per-person price of the activity for one traveller of the band. */
+export const getActivityPrice = (activity: Activity, band: AgeBand): number =>
+  band === 'adult' ? activity.estimatedCost : activity.pricing?.[band] ?? activity.estimatedCost;
+
+/** "child $4, senior $8" for the prices that differ from `estimatedCost`; empty when none do. */
+export const describeAgePricing = (activity: Activity): string =>
+  PARTY_BANDS.filter(band => band !== 'adult' && getActivityPrice(activity, band) !== activity.estimatedCost)
+    .map(band => `${AGE_BANDS[band].singular} $${getActivityPrice(activity, band)}`)
+    .join(', ');
+
+/** What the whole party pays for the activity. */
+export const getPartyActivityCost = (activity: Activity, party: TravelParty): number =>
+  sum(PARTY_BANDS.map(band => countBand(party, band) * getActivityPrice(activity, band)));
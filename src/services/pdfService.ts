@@ -1,6 +1,19 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas'; // Keep if you intend to use the HTML export method
 import { TravelPlan } from '../types/travel';
+import { describeTravelLeg } from './routing';
+import { describeTransfer } from './tripLegs';
+import { isOverBudget } from './budgetCap';
+import { COST_CATEGORIES, COST_CATEGORY_LABELS, getCostBreakdown } from './costModel';
+import { describeAgePricing, describeParty } from './party';
+import { describeAccessibility, hasAccessibilityNeeds } from './accessibility';
+import { describeDietary } from './dietary';
+import { describePace } from './pacing';
+import { MEAL_TYPES } from './taxonomy';
+import { AGE_BANDS } from './taxonomy';
+
+// The built-in PDF fonts have no arrow glyph for multi-city routes such as "Tokyo → Kyoto"
+const withoutArrows = (text: string): string => text.replace(/\s*→\s*/g, ' to ');
 
 export class PDFExportService {
   /**
@@ -44,15 +57,41 @@ export class PDFExportService {
     // --- Header / Title ---
     pdf.setFontSize(24);
     pdf.setFont('helvetica', 'bold');
-    pdf.text(`Travel Itinerary: ${itinerary.destination}`, pageWidth / 2, yPosition, { align: 'center' });
+    pdf.text(`Travel Itinerary: ${withoutArrows(itinerary.destination)}`, pageWidth / 2, yPosition, { align: 'center' });
     yPosition += 15;
 
     // --- Trip Overview ---
     yPosition = addTextWithPageBreak('Trip Overview', 16, 'bold', marginX, 10); // Update yPosition
     yPosition = addTextWithPageBreak(`Duration: ${itinerary.duration} days`, 12, 'normal', marginX, 6);
-    yPosition = addTextWithPageBreak(`Total Budget: $${itinerary.totalBudget.toLocaleString()}`, 12, 'normal', marginX, 6); // Format currency
+    const costs = getCostBreakdown(itinerary);
+    yPosition = addTextWithPageBreak(`Estimated Trip Cost: $${costs.totalPerGroup.toLocaleString()} ($${costs.totalPerPerson.toLocaleString()} per person)`, 12, 'normal', marginX, 6); // Format currency
+    COST_CATEGORIES.filter(category => costs.perGroup[category] > 0).forEach((category) => {
+      yPosition = addTextWithPageBreak(`${COST_CATEGORY_LABELS[category]}: $${costs.perPerson[category].toLocaleString()} per person, $${costs.perGroup[category].toLocaleString()} for the group`, 10, 'normal', marginX + 5, 5, contentWidth - 5);
+    });
+    if (costs.perMember.length > 1) {
+      costs.perMember.forEach((member) => {
+        yPosition = addTextWithPageBreak(`Each ${AGE_BANDS[member.band].singular} (x${member.count}): $${member.perPerson.toLocaleString()}`, 10, 'normal', marginX + 5, 5, contentWidth - 5);
+      });
+    }
+    // Currency codes rather than symbols: the built-in fonts lack some of them, such as the rupee sign
+    if (itinerary.preferences.budgetCap) {
+      const { amount, currency } = itinerary.preferences.budgetCap;
+      yPosition = addTextWithPageBreak(`Budget Cap: ${amount.toLocaleString()} ${currency} (${isOverBudget(itinerary) ? 'the plan exceeds it' : 'the plan stays within it'})`, 12, 'normal', marginX, 6);
+    }
+    itinerary.budgetAdjustments?.forEach((adjustment) => {
+      yPosition = addTextWithPageBreak(`Adjusted for the budget: ${adjustment}`, 9, 'italic', marginX, 4, contentWidth);
+    });
+    itinerary.weatherAdjustments?.forEach((adjustment) => {
+      yPosition = addTextWithPageBreak(`Adjusted for the weather: ${adjustment}`, 9, 'italic', marginX, 4, contentWidth);
+    });
     yPosition = addTextWithPageBreak(`Travel Style: ${itinerary.preferences.travelStyle}`, 12, 'normal', marginX, 6);
-    yPosition = addTextWithPageBreak(`Group Size: ${itinerary.preferences.groupSize} people`, 12, 'normal', marginX, 6);
+    yPosition = addTextWithPageBreak(`Group Size: ${itinerary.preferences.groupSize} people${itinerary.preferences.party ? ` (${describeParty(itinerary.preferences.party)})` : ''}`, 12, 'normal', marginX, 6);
+    if (itinerary.preferences.dietary?.length) {
+      yPosition = addTextWithPageBreak(`Diet: ${describeDietary(itinerary.preferences.dietary)}`, 12, 'normal', marginX, 6);
+    }
+    if (hasAccessibilityNeeds(itinerary.preferences.accessibility)) {
+      yPosition = addTextWithPageBreak(`Accessibility: ${describeAccessibility(itinerary.preferences.accessibility)}`, 12, 'normal', marginX, 6, contentWidth);
+    }
     
     // Add interests
     if (itinerary.preferences.interests && itinerary.preferences.interests.length > 0) {
@@ -77,7 +116,7 @@ export class PDFExportService {
     }
 
     // --- Daily Itinerary ---
-    itinerary.days.forEach((day, dayIndex) => {
+    itinerary.days.forEach((day) => {
       // Ensure enough space for day header + first activity, or add new page
       if (yPosition > pageHeight - 50) { // Increased threshold for day header
         addNewPage();
@@ -86,9 +125,15 @@ export class PDFExportService {
       // Day Header
       pdf.setFontSize(16);
       pdf.setFont('helvetica', 'bold');
-      pdf.text(`Day ${day.day} - ${day.date}`, marginX, yPosition);
+      pdf.text(`Day ${day.day} - ${day.date}${day.destination ? ` - ${day.destination}` : ''}`, marginX, yPosition);
       yPosition += 8;
 
+      // Getting from the previous city on the first day of a later leg
+      if (day.transfer) {
+        yPosition = addTextWithPageBreak(`Travel day: ${withoutArrows(describeTransfer(day.transfer))}`, 10, 'bold', marginX, 5, contentWidth);
+        yPosition += 3;
+      }
+
       // Daily Weather Info
       if (day.weather && day.weather.condition) {
         pdf.setFontSize(10);
@@ -110,6 +155,29 @@ export class PDFExportService {
         yPosition += 5;
       }
 
+      // How demanding the day is, and whether it is busier than the travel style allows
+      if (day.pace) {
+        yPosition = addTextWithPageBreak(`Pace: ${describePace(day.pace)}`, 9, 'normal', marginX, 4, contentWidth);
+      }
+      day.pace?.warnings?.forEach((warning) => {
+        yPosition = addTextWithPageBreak(`Pace: ${warning}`, 9, 'italic', marginX, 4, contentWidth);
+      });
+      // Timing conflicts found by the scheduler
+      day.scheduleIssues?.forEach((issue) => {
+        yPosition = addTextWithPageBreak(`Timing: ${issue.message}`, 9, 'italic', marginX, 4, contentWidth);
+      });
+      // Availability rules broken on this day's date, and permits to arrange
+      day.availabilityWarnings?.forEach((warning) => {
+        yPosition = addTextWithPageBreak(`Availability: ${warning.message}`, 9, 'italic', marginX, 4, contentWidth);
+      });
+      // Accessibility needs the day's activities or walking may not meet
+      day.accessibilityWarnings?.forEach((warning) => {
+        yPosition = addTextWithPageBreak(`Accessibility: ${warning.message}`, 9, 'italic', marginX, 4, contentWidth);
+      });
+      if (day.pace || day.scheduleIssues?.length || day.availabilityWarnings?.length || day.accessibilityWarnings?.length) {
+        yPosition += 3;
+      }
+
       // Activities
       day.activities.forEach((activity) => {
         // Check for space before adding activity details
@@ -120,7 +188,14 @@ export class PDFExportService {
         // Activity Time Slot & Name
         pdf.setFontSize(12);
         pdf.setFont('helvetica', 'bold');
-        pdf.text(`${activity.timeSlot ? activity.timeSlot.toUpperCase() + ': ' : ''}${activity.name}`, marginX + 5, yPosition);
+        // How to get here from the previous activity
+        if (activity.travelFromPrevious) {
+          yPosition = addTextWithPageBreak(`Getting there: ${describeTravelLeg(activity.travelFromPrevious)}`, 9, 'italic', marginX + 5, 5, contentWidth - 10);
+        }
+
+        // Scheduled times when the plan has them (plain hyphen: the built-in fonts lack an en dash), else the slot
+        const times = activity.startTime && activity.endTime ? `${activity.startTime}-${activity.endTime}` : activity.timeSlot?.toUpperCase();
+        pdf.text(`${times ? times + ': ' : ''}${activity.name}`, marginX + 5, yPosition);
         yPosition += 6;
 
         // Activity details
@@ -131,29 +206,51 @@ export class PDFExportService {
         
         pdf.text(`Location: ${activity.location}`, marginX + 5, yPosition);
         yPosition += 4;
-        pdf.text(`Duration: ${activity.duration} | Cost: $${activity.estimatedCost.toLocaleString()}`, marginX + 5, yPosition);
+        const agePricing = describeAgePricing(activity);
+        const costLine = `Duration: ${activity.duration} | Cost: $${activity.estimatedCost.toLocaleString()}${agePricing ? ` (${agePricing})` : ''}${activity.minAge !== undefined ? ` | Ages ${activity.minAge}+` : ''}`;
+        pdf.text(costLine, marginX + 5, yPosition);
         
         // Add rating if available
         if (activity.rating) {
-            pdf.text(` | Rating: ${activity.rating}/5`, marginX + 5 + pdf.getStringUnitWidth(`Duration: ${activity.duration} | Cost: $${activity.estimatedCost.toLocaleString()}`) * 10, yPosition); // Append to previous line
+            pdf.text(` | Rating: ${activity.rating}/5`, marginX + 5 + pdf.getStringUnitWidth(costLine) * 10, yPosition); // Append to previous line
         }
         yPosition += 8; // Space after activity block
+
+        // Break after a strenuous activity
+        day.restBlocks?.filter(rest => rest.afterActivityId === activity.id).forEach((rest) => {
+          yPosition = addTextWithPageBreak(`Rest ${rest.startTime}-${rest.endTime}`, 9, 'italic', marginX + 5, 6, contentWidth - 10);
+        });
+      });
+
+      // Meals, with the place suggested for each or the dining activity that covers it
+      day.meals?.forEach((meal) => {
+        const label = `${MEAL_TYPES[meal.meal].label}${meal.startTime ? ` ${meal.startTime}` : ''}`;
+        const coveredBy = meal.activityId && day.activities.find(activity => activity.id === meal.activityId);
+        const place = coveredBy
+          ? `during ${coveredBy.name}`
+          : meal.suggestion
+            ? `${meal.suggestion.name}, ${meal.suggestion.location}${meal.suggestion.cuisine ? ` (${meal.suggestion.cuisine})` : ''} - about $${meal.estimatedCost} per adult`
+            : `a place near your activities - about $${meal.estimatedCost} per adult`;
+        yPosition = addTextWithPageBreak(`${label}: ${place}`, 9, 'normal', marginX + 5, 4, contentWidth - 10);
       });
+      if (day.meals?.length) {
+        yPosition += 4;
+      }
 
-      // Daily Total Cost (per person)
-      if (day.dailyCost > 0) {
+      // Daily Total Cost (per adult, meals included)
+      if (day.totalCost > 0) {
         pdf.setFontSize(10);
         pdf.setFont('helvetica', 'bold');
-        pdf.text(`Daily Cost (per person): $${day.dailyCost.toLocaleString()}`, marginX, yPosition);
+        pdf.text(`Daily Cost (per adult, with meals): $${day.totalCost.toLocaleString()}`, marginX, yPosition);
         yPosition += 8;
       }
 
       // Daily Travel Tips
-      if (day.dailyTravelTips && day.dailyTravelTips.length > 0) {
+      if (day.travelTips && day.travelTips.length > 0) {
         pdf.setFontSize(10);
         pdf.setFont('helvetica', 'italic');
         yPosition = addTextWithPageBreak('Daily Tips:', 10, 'italic', marginX, 5); // Added a small header
-        day.dailyTravelTips.forEach(tip => {
+        day.travelTips.forEach(tip => {
             yPosition = addTextWithPageBreak(`• ${tip}`, 10, 'normal', marginX + 5, 4, contentWidth - 5);
         });
         yPosition += 5;
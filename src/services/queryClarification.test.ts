@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { PREFERENCE_DEFAULTS, applyClarificationAnswer, fillWithDefaults, findMissingFields } from './queryClarification';
+import { ExtractedTravelInfo } from '../types/travel';
+
+const complete: ExtractedTravelInfo = { destination: 'Paris', duration: 4, groupSize: 2, budget: 'mid-range' };
+
+describe('findMissingFields', () => {
+  it('asks for nothing when the request is complete', () => {
+    expect(findMissingFields(complete)).toEqual([]);
+  });
+
+  it('asks for missing fields in order', () => {
+    expect(findMissingFields({})).toEqual(['destination', 'duration', 'groupSize', 'budget']);
+  });
+
+  it('asks again about an implausible duration or group size', () => {
+    expect(findMissingFields({ ...complete, duration: 90 })).toEqual(['duration']);
+    expect(findMissingFields({ ...complete, groupSize: 45 })).toEqual(['groupSize']);
+  });
+
+  it('accepts a budget cap in place of a tier', () => {
+    expect(findMissingFields({ ...complete, budget: undefined, budgetCap: { amount: 2000, currency: 'USD' } })).toEqual([]);
+  });
+});
+
+describe('applyClarificationAnswer', () => {
+  it('reads durations in words', () => {
+    expect(applyClarificationAnswer('duration', 'a week', {})).toEqual({ duration: 7 });
+    expect(applyClarificationAnswer('duration', 'Just the weekend', {})).toEqual({ duration: 2 });
+    expect(applyClarificationAnswer('duration', 'five days', {})).toEqual({ duration: 5 });
+  });
+
+  it('reads a party and takes the group size from it', () => {
+    expect(applyClarificationAnswer('groupSize', '2 adults and 2 kids', {})).toMatchObject({
+      groupSize: 4,
+      party: { adults: 2, children: 2, seniors: 0 },
+    });
+  });
+
+  it('returns null for answers it cannot read or that stay implausible', () => {
+    expect(applyClarificationAnswer('duration', 'not sure yet', {})).toBeNull();
+    expect(applyClarificationAnswer('duration', '60 days', {})).toBeNull();
+    expect(applyClarificationAnswer('groupSize', 'lots of us', {})).toBeNull();
+    expect(applyClarificationAnswer('budget', 'hmm', {})).toBeNull();
+  });
+});
+
+describe('fillWithDefaults', () => {
+  it('fills missing fields but never the destination', () => {
+    expect(fillWithDefaults({})).toEqual({
+      duration: PREFERENCE_DEFAULTS.duration,
+      groupSize: PREFERENCE_DEFAULTS.groupSize,
+      budget: PREFERENCE_DEFAULTS.budget,
+    });
+    expect(findMissingFields(fillWithDefaults({}))).toEqual(['destination']);
+  });
+
+  it('keeps what the traveller stated', () => {
+    expect(fillWithDefaults(complete)).toEqual(complete);
+  });
+
+  it('drops an implausible party along with its group size', () => {
+    const filled = fillWithDefaults({ ...complete, groupSize: 30, party: { adults: 30, children: 0, seniors: 0 } });
+
+    expect(filled.party).toBeUndefined();
+    expect(filled.groupSize).toBe(PREFERENCE_DEFAULTS.groupSize);
+  });
+});
@@ -0,0 +1,220 @@
+import { ExtractedTravelInfo, PreferenceDraft, TravelPreferences } from '../types/travel';
+import { hasAccessibilityNeeds } from './accessibility';
+import { getPartySize, parseParty, withPartyTotals } from './party';
+import { mapInterestsToOptions, normalizeBudgetTier } from './taxonomy';
+import { isMultiCity, withLegTotals } from './tripLegs';
+
+// Fields a trip cannot sensibly be planned without; everything else has a harmless default
+export type ClarifiableField = 'destination' | 'duration' | 'groupSize' | 'budget';
+
+export interface ClarificationQuestion {
+  field: ClarifiableField;
+  question: string;
+  quickReplies: string[];
+}
+
+/** Values used only when the traveller explicitly asks for defaults. There is no default destination. */
+export const PREFERENCE_DEFAULTS = {
+  duration: 3,
+  groupSize: 2,
+  budget: 'mid-range',
+  travelStyle: 'moderate',
+  accommodation: 'hotel',
+} satisfies Partial<TravelPreferences>;
+
+// Quick reply that fills every remaining field (except the destination) with its default
+export const USE_DEFAULTS_REPLY = 'Use defaults';
+// Quick reply that hands the request over to the planning form instead of answering in the chat
+export const REVIEW_IN_FORM_REPLY = 'Review in form';
+
+const MAX_DURATION = 30;
+const MAX_GROUP_SIZE = 20;
+
+const numberWords: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const readCount = (text: string): number | undefined => {
+  const digits = text.match(/\d+/);
+  if (digits) {
+    return parseInt(digits[0], 10);
+  }
+  const word = Object.keys(numberWords).find(candidate => new RegExp(`\\b${candidate}\\b`).test(text));
+  return word ? numberWords[word] : undefined;
+};
+
+export const isUseDefaultsAnswer = (answer: string): boolean =>
+  /\b(?:use (?:the )?defaults?|defaults? (?:is|are) fine|you (?:decide|choose|pick)|doesn'?t matter|don'?t care|whatever|surprise me)\b/i
+    .test(answer);
+
+/**
+ * Required fields that are missing or implausible (e.g. a 90-day trip), in the order they are asked.
+ * A multi-city trip's destination and duration come from its legs, and the group size from the party.
+ */
+export const findMissingFields = (extracted: ExtractedTravelInfo): ClarifiableField[] => {
+  const info = withPartyTotals(withLegTotals(extracted));
+  const missing: ClarifiableField[] = [];
+  if (!info.destination?.trim()) missing.push('destination');
+  if (!info.duration || info.duration < 1 || info.duration > MAX_DURATION) missing.push('duration');
+  if (!info.groupSize || info.groupSize < 1 || info.groupSize > MAX_GROUP_SIZE) missing.push('groupSize');
+  // A stated total budget is enough; the tier then only sets the style and defaults
+  if (!normalizeBudgetTier(info.budget) && !info.budgetCap) missing.push('budget');
+  return missing;
+};
+
+export const getClarificationQuestion = (field: ClarifiableField, info: ExtractedTravelInfo): ClarificationQuestion => {
+  switch (field) {
+    case 'destination':
+      return {
+        field,
+        question: 'Where would you like to go? A city and country works best.',
+        quickReplies: ['Paris, France', 'Tokyo, Japan', 'Goa, India', 'Manali, India', REVIEW_IN_FORM_REPLY],
+      };
+    case 'duration':
+      return {
+        field,
+        question: info.duration
+          ? `Just to check: ${info.duration} days sounds unusual. How many days should I plan (up to ${MAX_DURATION})?`
+          : `How many days will you spend in ${info.destination || 'your destination'}?`,
+        quickReplies: ['3 days', '5 days', '7 days', USE_DEFAULTS_REPLY, REVIEW_IN_FORM_REPLY],
+      };
+    case 'groupSize':
+      return {
+        field,
+        question: info.groupSize
+          ? `Just to check: is it really ${info.groupSize} travellers? How many people are going?`
+          : 'How many people are travelling?',
+        quickReplies: ['Just me', '2 people', '2 adults and 2 kids', USE_DEFAULTS_REPLY, REVIEW_IN_FORM_REPLY],
+      };
+    case 'budget':
+      return {
+        field,
+        question: 'What kind of budget do you have in mind?',
+        quickReplies: ['Budget', 'Mid-range', 'Luxury', USE_DEFAULTS_REPLY, REVIEW_IN_FORM_REPLY],
+      };
+  }
+};
+
+/**
+ * Reads an answer to the question about `field` into the extracted info. Returns null when the
+ * answer could not be understood, so the question can be asked again.
+ */
+export const applyClarificationAnswer = (
+  field: ClarifiableField,
+  answer: string,
+  info: ExtractedTravelInfo
+): ExtractedTravelInfo | null => {
+  const lowerAnswer = answer.toLowerCase().trim();
+
+  switch (field) {
+    case 'destination': {
+      // "Paris for a week" -> "Paris"; anything more elaborate is better re-parsed as a new request
+      const destination = answer.split(/\s+(?:for|with)\s+/i)[0].trim();
+      return destination.length > 1 ? { ...info, destination } : null;
+    }
+    case 'duration': {
+      const duration = /\bweekend\b/.test(lowerAnswer) ? 2
+        : /\b(?:a|one) week\b/.test(lowerAnswer) ? 7
+        : /\bweeks?\b/.test(lowerAnswer) ? (readCount(lowerAnswer) ?? 1) * 7
+        : readCount(lowerAnswer);
+      return duration && duration >= 1 && duration <= MAX_DURATION ? { ...info, duration } : null;
+    }
+    case 'groupSize': {
+      const party = parseParty(answer);
+      if (party) {
+        return getPartySize(party) <= MAX_GROUP_SIZE ? withPartyTotals({ ...info, party }) : null;
+      }
+      const groupSize = /\b(?:just me|myself|solo|alone)\b/.test(lowerAnswer) ? 1
+        : /\b(?:couple|two of us|partner|wife|husband)\b/.test(lowerAnswer) ? 2
+        : readCount(lowerAnswer);
+      return groupSize && groupSize >= 1 && groupSize <= MAX_GROUP_SIZE ? { ...info, groupSize } : null;
+    }
+    case 'budget': {
+      const budget = normalizeBudgetTier(lowerAnswer);
+      return budget ? { ...info, budget } : null;
+    }
+  }
+};
+
+/**
+ * Fills every missing field that has a default; the destination is left for the traveller. An
+ * implausible party is dropped along with its group size.
+ */
+export const fillWithDefaults = (info: ExtractedTravelInfo): ExtractedTravelInfo => {
+  const missing = findMissingFields(info);
+  const filled: ExtractedTravelInfo = {
+    ...info,
+    duration: missing.includes('duration') ? PREFERENCE_DEFAULTS.duration : info.duration,
+    groupSize: missing.includes('groupSize') ? PREFERENCE_DEFAULTS.groupSize : info.groupSize,
+    budget: missing.includes('budget') ? PREFERENCE_DEFAULTS.budget : info.budget,
+  };
+  if (missing.includes('groupSize')) {
+    delete filled.party;
+  }
+  return filled;
+};
+
+/**
+ * Turns fully clarified info into generation preferences. Optional fields the parser left out
+ * (travel style, accommodation) take their defaults; legs are kept only for a multi-city trip.
+ */
+export const buildPreferences = (extracted: ExtractedTravelInfo): TravelPreferences => {
+  const info = withPartyTotals(withLegTotals(extracted));
+  const preferences: TravelPreferences = {
+    destination: info.destination || '',
+    duration: info.duration || PREFERENCE_DEFAULTS.duration,
+    budget: normalizeBudgetTier(info.budget) || PREFERENCE_DEFAULTS.budget,
+    interests: info.interests || [],
+    travelStyle: info.travelStyle || PREFERENCE_DEFAULTS.travelStyle,
+    groupSize: info.groupSize || PREFERENCE_DEFAULTS.groupSize,
+    accommodation: info.accommodation || PREFERENCE_DEFAULTS.accommodation,
+    startDate: info.startDate,
+    specificRequests: info.specificRequests?.join(', ') || '',
+  };
+  if (isMultiCity(info)) {
+    preferences.legs = info.legs;
+  }
+  if (info.budgetCap) {
+    preferences.budgetCap = info.budgetCap;
+  }
+  if (info.party && getPartySize(info.party) > 0) {
+    preferences.party = info.party;
+  }
+  if (hasAccessibilityNeeds(info.accessibility)) {
+    preferences.accessibility = info.accessibility;
+  }
+  if (info.dietary?.length) {
+    preferences.dietary = info.dietary;
+  }
+  return preferences;
+};
+
+/**
+ * Pre-fills the planning form from whatever was understood so far, recording which fields came
+ * from the request so the form can flag the rest as defaults.
+ */
+export const buildPreferenceDraft = (info: ExtractedTravelInfo, query: string): PreferenceDraft => {
+  const { options, unmatched } = mapInterestsToOptions(info.interests || []);
+  const specificRequests = [...(info.specificRequests || []), ...unmatched];
+  // Missing or implausible values become defaults; the destination stays empty for the form to require
+  const preferences = buildPreferences(fillWithDefaults({ ...info, interests: options, specificRequests }));
+
+  const missing = findMissingFields(info);
+  const inferredFields: (keyof TravelPreferences)[] = [];
+  if (!missing.includes('destination')) inferredFields.push('destination');
+  if (!missing.includes('duration')) inferredFields.push('duration');
+  if (!missing.includes('groupSize')) inferredFields.push('groupSize');
+  if (normalizeBudgetTier(info.budget)) inferredFields.push('budget');
+  if (info.travelStyle) inferredFields.push('travelStyle');
+  if (info.accommodation) inferredFields.push('accommodation');
+  if (info.startDate) inferredFields.push('startDate');
+  if (options.length > 0) inferredFields.push('interests');
+  if (specificRequests.length > 0) inferredFields.push('specificRequests');
+  if (isMultiCity(info)) inferredFields.push('legs');
+  if (info.budgetCap) inferredFields.push('budgetCap');
+  if (info.party) inferredFields.push('party');
+  if (hasAccessibilityNeeds(info.accessibility)) inferredFields.push('accessibility');
+  if (info.dietary?.length) inferredFields.push('dietary');
+
+  return { preferences, inferredFields, query };
+};
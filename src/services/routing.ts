@@ -0,0 +1,149 @@
+import { Activity, DayPlan, TravelLeg } from '../types/travel';
+import { findLocationCoordinates } from './catalogLoader';
+import { TIME_SLOTS } from './taxonomy';
+
+type Coordinates = NonNullable<Activity['coordinates']>;
+
+/**
+ * Estimates the trip between two points. Synchronous so a day can be re-routed inside every
+ * edit; a backend built on a routing service would answer from a travel-time matrix fetched
+ * ahead of time.
+ */
+export interface RoutingBackend {
+  id: string;
+  label: string;
+  estimateLeg: (from: Coordinates, to: Coordinates) => TravelLeg;
+}
+
+const EARTH_RADIUS_KM = 6371;
+// Streets are rarely straight; this turns the straight-line distance into a walking/riding one
+const DETOUR_FACTOR = 1.3;
+const WALKING_SPEED_KMH = 4.5;
+// Anything further is assumed to be taken by public transport or taxi
+const MAX_WALKING_KM = 1.5;
+const TRANSIT_SPEED_KMH = 20;
+// Getting to the stop, waiting and the walk at the other end
+const TRANSIT_OVERHEAD_MINUTES = 10;
+// Brute force beyond this many stops in one time slot gets slow; nearest-neighbour takes over
+const MAX_EXACT_STOPS = 6;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/** Great-circle distance between two points, in kilometres. */
+export const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/** Offline estimate from straight-line distance: walking for short hops, transit for the rest. */
+export const straightLineRouting: RoutingBackend = {
+  id: 'straight-line',
+  label: 'Straight-line estimate',
+  estimateLeg(from, to) {
+    const distance = Math.round(distanceKm(from, to) * DETOUR_FACTOR * 10) / 10;
+    if (distance <= MAX_WALKING_KM) {
+      return { mode: 'walk', distanceKm: distance, minutes: Math.max(5, Math.round((distance / WALKING_SPEED_KMH) * 12) * 5) };
+    }
+    return { mode: 'transit', distanceKm: distance, minutes: TRANSIT_OVERHEAD_MINUTES + Math.round((distance / TRANSIT_SPEED_KMH) * 12) * 5 };
+  },
+};
+
+let routingBackend: RoutingBackend = straightLineRouting;
+
+/** Swaps the backend every day is routed with, e.g. for one backed by a routing service. */
+export const setRoutingBackend = (backend: RoutingBackend): void => {
+  routingBackend = backend;
+};
+
+export const getRoutingBackend = (): RoutingBackend => routingBackend;
+
+interface Stop {
+  activity: Activity;
+  point?: Coordinates;
+}
+
+const routeMinutes = (stops: Stop[], start: Coordinates | undefined): number => {
+  let minutes = 0;
+  let previous = start;
+  for (const { point } of stops) {
+    if (previous && point) {
+      minutes += routingBackend.estimateLeg(previous, point).minutes;
+    }
+    previous = point;
+  }
+  return minutes;
+};
+
+const permutations = <T>(items: T[]): T[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, index) => permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest]));
+
+// Quickest order through the stops of one time slot, starting from where the previous slot ended
+const orderStops = (stops: Stop[], start: Coordinates | undefined): Stop[] => {
+  if (stops.length <= 1) {
+    return stops;
+  }
+  if (stops.length <= MAX_EXACT_STOPS) {
+    return permutations(stops).reduce((best, candidate) =>
+      routeMinutes(candidate, start) < routeMinutes(best, start) ? candidate : best
+    );
+  }
+  const remaining = [...stops];
+  const ordered: Stop[] = [];
+  let position = start ?? remaining[0].point;
+  while (remaining.length > 0) {
+    const from = position;
+    const next = from
+      ? remaining.reduce((best, candidate) =>
+          routingBackend.estimateLeg(from, candidate.point!).minutes < routingBackend.estimateLeg(from, best.point!).minutes ? candidate : best
+        )
+      : remaining[0];
+    remaining.splice(remaining.indexOf(next), 1);
+    ordered.push(next);
+    position = next.point;
+  }
+  return ordered;
+};
+
+/**
+ * Orders each time slot's activities for the least travel and records the estimated trip from
+ * one activity to the next. Activities without coordinates are located through the
+ * destination's catalog location table; a slot with an activity that cannot be located keeps
+ * its order, and legs touching such an activity are left out.
+ */
+export const routeDay = (day: DayPlan, destination: string): DayPlan => {
+  const stops: Stop[] = day.activities.map(activity => ({
+    activity,
+    point: activity.coordinates ?? findLocationCoordinates(destination, activity.location),
+  }));
+
+  const ordered: Stop[] = [];
+  for (const slot of TIME_SLOTS) {
+    const slotStops = stops.filter(stop => stop.activity.timeSlot === slot);
+    const start = ordered[ordered.length - 1]?.point;
+    ordered.push(...(slotStops.every(stop => stop.point) ? orderStops(slotStops, start) : slotStops));
+  }
+  // Anything outside the known slots stays at the end, in its original order
+  ordered.push(...stops.filter(stop => !TIME_SLOTS.includes(stop.activity.timeSlot)));
+
+  const activities = ordered.map(({ activity, point }, index) => {
+    // A leg from an earlier order of the day no longer applies
+    const routed: Activity = { ...activity };
+    delete routed.travelFromPrevious;
+    const previous = ordered[index - 1]?.point;
+    if (previous && point) {
+      routed.travelFromPrevious = routingBackend.estimateLeg(previous, point);
+    }
+    return routed;
+  });
+  return { ...day, activities };
+};
+
+/** "12 min walk (0.9 km)" or "About 35 min by transit (8.2 km)". */
+export const describeTravelLeg = (leg: TravelLeg): string =>
+  leg.mode === 'walk'
+    ? `${leg.minutes} min walk (${leg.distanceKm} km)`
+    : `About ${leg.minutes} min by transit (${leg.distanceKm} km)`;
@@ -0,0 +1,147 @@
+import { Activity, DayPlan, RestBlock, ScheduleIssue, TravelPreferences } from '../types/travel';
+import { TRAVEL_STYLES, isStrenuousActivity } from './taxonomy';
+
+export interface ScheduleOptions {
+  /** Earliest start of the first activity, 24-hour "HH:MM". */
+  dayStart: string;
+  /** Latest end of the last activity, 24-hour "HH:MM". */
+  dayEnd: string;
+  /** Minutes left between consecutive activities when the trip between them has not been estimated. */
+  bufferMinutes: number;
+  /** Break left after a strenuous activity when another follows it; 0 for none. */
+  restMinutes: number;
+}
+
+export const DEFAULT_SCHEDULE_OPTIONS: ScheduleOptions = {
+  dayStart: '09:00',
+  dayEnd: '22:00',
+  bufferMinutes: 30,
+  restMinutes: 0,
+};
+
+// Used when a duration cannot be read, e.g. "varies" or "as long as you like"
+const DEFAULT_ACTIVITY_MINUTES = 90;
+
+// Earliest start of each time slot; an activity never starts before its slot
+const SLOT_STARTS: Record<Activity['timeSlot'], number> = {
+  morning: 9 * 60,
+  afternoon: 13 * 60,
+  evening: 18 * 60,
+};
+
+const UNIT_MINUTES: [RegExp, number][] = [
+  [/^(?:h|hrs?|hours?)$/, 60],
+  [/^(?:m|mins?|minutes?)$/, 1],
+];
+
+const toMinutes = (amount: number, unit: string): number | undefined => {
+  const factor = UNIT_MINUTES.find(([pattern]) => pattern.test(unit))?.[1];
+  return factor === undefined ? undefined : amount * factor;
+};
+
+/**
+ * Reads a free-text duration into minutes: "2 hours", "90 minutes", "1 hour 30 minutes",
+ * "2h 30m", "1.5 hrs", "half day" and "full day". A range such as "4-5 hours" counts as its
+ * midpoint. Returns undefined when nothing in the text looks like a duration.
+ */
+export const parseDurationMinutes = (duration: string): number | undefined => {
+  const text = duration.toLowerCase();
+  if (/half[\s-]?day/.test(text)) return 4 * 60;
+  if (/(?:full|whole)[\s-]?day/.test(text)) return 8 * 60;
+
+  const range = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)\s*([a-z]+)/);
+  if (range) {
+    const minutes = toMinutes((parseFloat(range[1]) + parseFloat(range[2])) / 2, range[3]);
+    if (minutes !== undefined) return Math.round(minutes / 5) * 5;
+  }
+
+  let total = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)/g)) {
+    total += toMinutes(parseFloat(amount), unit) ?? 0;
+  }
+  return total > 0 ? Math.round(total / 5) * 5 : undefined;
+};
+
+/** "HH:MM" to minutes after midnight; undefined for anything else. */
+export const parseClockTime = (time: string | undefined): number | undefined => {
+  const match = time?.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : undefined;
+};
+
+/** Minutes after midnight to "HH:MM"; times past midnight wrap onto the next day's clock. */
+export const formatClockTime = (minutes: number): string => {
+  const wrapped = ((minutes % (24 * 60)) + 24 * 60) % (24 * 60);
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+/**
+ * The traveller's day bounds, falling back to the defaults for missing or malformed times, and
+ * the rest their travel style leaves after strenuous activities.
+ */
+export const getScheduleOptions = (preferences: TravelPreferences): ScheduleOptions => {
+  const dayStart = parseClockTime(preferences.dayStart) !== undefined ? preferences.dayStart! : DEFAULT_SCHEDULE_OPTIONS.dayStart;
+  const dayEnd = parseClockTime(preferences.dayEnd) !== undefined ? preferences.dayEnd! : DEFAULT_SCHEDULE_OPTIONS.dayEnd;
+  const restMinutes = TRAVEL_STYLES[preferences.travelStyle]?.restMinutes ?? DEFAULT_SCHEDULE_OPTIONS.restMinutes;
+  return { ...DEFAULT_SCHEDULE_OPTIONS, dayStart, dayEnd, restMinutes };
+};
+
+/**
+ * Gives every activity of the day a start and end time. Activities run in their listed order,
+ * each starting no earlier than its time slot and after the previous one ends plus the trip
+ * between them (`travelFromPrevious`, or `bufferMinutes` when it is unknown). A strenuous activity
+ * followed by another gets `restMinutes` of rest before that trip, listed in `restBlocks`. An
+ * activity pushed into a later slot by the one before it is reported as an overlap, and a day that
+ * runs past `dayEnd` as overfull; both are listed in `scheduleIssues`.
+ */
+export const scheduleDay = (day: DayPlan, options: ScheduleOptions = DEFAULT_SCHEDULE_OPTIONS): DayPlan => {
+  const dayStart = parseClockTime(options.dayStart) ?? SLOT_STARTS.morning;
+  const dayEnd = parseClockTime(options.dayEnd) ?? parseClockTime(DEFAULT_SCHEDULE_OPTIONS.dayEnd)!;
+  const scheduleIssues: ScheduleIssue[] = [];
+  const restBlocks: RestBlock[] = [];
+
+  let previous: { activity: Activity; end: number } | undefined;
+  const activities: Activity[] = [];
+  for (const activity of day.activities) {
+    const slotStart = Math.max(SLOT_STARTS[activity.timeSlot] ?? dayStart, dayStart);
+    const rest = previous && isStrenuousActivity(previous.activity) ? options.restMinutes : 0;
+    if (previous && rest > 0) {
+      restBlocks.push({ afterActivityId: previous.activity.id, startTime: formatClockTime(previous.end), endTime: formatClockTime(previous.end + rest) });
+    }
+    const earliest = previous ? previous.end + rest + (activity.travelFromPrevious?.minutes ?? options.bufferMinutes) : dayStart;
+    const start = Math.max(earliest, slotStart);
+    const end = start + (parseDurationMinutes(activity.duration) ?? DEFAULT_ACTIVITY_MINUTES);
+
+    if (previous && earliest > slotStart && previous.activity.timeSlot !== activity.timeSlot) {
+      scheduleIssues.push({
+        kind: 'overlap',
+        activityId: activity.id,
+        message: `"${previous.activity.name}" runs until ${formatClockTime(previous.end)}, so "${activity.name}" starts late at ${formatClockTime(start)}.`,
+      });
+    }
+    previous = { activity, end };
+    activities.push({ ...activity, startTime: formatClockTime(start), endTime: formatClockTime(end) });
+  }
+
+  if (previous && previous.end > dayEnd) {
+    scheduleIssues.push({
+      kind: 'overfull',
+      message: `The day runs until ${formatClockTime(previous.end)}, ${previous.end - dayEnd} minutes past ${formatClockTime(dayEnd)}. Consider moving or removing an activity.`,
+    });
+  }
+
+  // Issues and rest from an earlier schedule of the day no longer apply
+  const scheduled: DayPlan = { ...day, activities };
+  delete scheduled.scheduleIssues;
+  delete scheduled.restBlocks;
+  if (scheduleIssues.length > 0) {
+    scheduled.scheduleIssues = scheduleIssues;
+  }
+  if (restBlocks.length > 0) {
+    scheduled.restBlocks = restBlocks;
+  }
+  return scheduled;
+};
+
+/** "09:00–11:30" for a scheduled activity, undefined for one without times (e.g. an older saved plan). */
+export const formatActivityTimes = (activity: Activity): string | undefined =>
+  activity.startTime && activity.endTime ? `${activity.startTime}–${activity.endTime}` : undefined;
@@ -0,0 +1,33 @@
+/** Random generator returning floats in [0, 1), like Math.random. */
+export type RandomSource = () => number;
+
+/**
+ * Picks a fresh 32-bit seed for runs that did not ask for a specific one.
+ */
+export const createRandomSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+/**
+ * Deterministic generator (mulberry32): the same seed always yields the same sequence.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Fisher-Yates shuffle into a new array, driven by the given generator.
+ */
+export const shuffle = <T>(items: readonly T[], random: RandomSource): T[] => {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swapIndex]] = [shuffled[swapIndex], shuffled[index]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,287 @@
+import { AccessibilityNeed, Activity, AgeBand, CurrencyCode, DayIntensity, DietaryNeed, MealType, TravelPlan, TravelPreferences, Weekday } from '../types/travel';
+
+// The one vocabulary for activities and preferences. Types, validators, response schemas, the
+// catalog generator and the UI all read these lists instead of keeping their own copies.
+
+export const ACTIVITY_CATEGORIES: Activity['category'][] = [
+  'culture', 'adventure', 'dining', 'relaxation', 'sightseeing', 'shopping', 'nature', 'nightlife',
+];
+
+/** Display label and badge colours for each category. */
+export const CATEGORY_STYLES: Record<Activity['category'], { label: string; className: string }> = {
+  culture: { label: 'Culture', className: 'bg-purple-100 text-purple-700 border-purple-200' },
+  adventure: { label: 'Adventure', className: 'bg-green-100 text-green-700 border-green-200' },
+  dining: { label: 'Dining', className: 'bg-orange-100 text-orange-700 border-orange-200' },
+  relaxation: { label: 'Relaxation', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  sightseeing: { label: 'Sightseeing', className: 'bg-pink-100 text-pink-700 border-pink-200' },
+  shopping: { label: 'Shopping', className: 'bg-indigo-100 text-indigo-700 border-indigo-200' },
+  nature: { label: 'Nature', className: 'bg-emerald-100 text-emerald-700 border-emerald-200' },
+  nightlife: { label: 'Nightlife', className: 'bg-violet-100 text-violet-700 border-violet-200' },
+};
+
+// Category labels found in older catalog files, saved plans and model output, mapped onto the taxonomy
+const LEGACY_CATEGORIES: Record<string, Activity['category']> = {
+  art: 'culture',
+  museum: 'culture',
+  history: 'culture',
+  'local experiences': 'culture',
+  food: 'dining',
+  cuisine: 'dining',
+  restaurant: 'dining',
+  beach: 'relaxation',
+  wellness: 'relaxation',
+  spa: 'relaxation',
+  sports: 'adventure',
+  wildlife: 'nature',
+  outdoors: 'nature',
+  entertainment: 'nightlife',
+  landmark: 'sightseeing',
+  tour: 'sightseeing',
+  market: 'shopping',
+};
+
+/** In the order they happen during a day. */
+export const TIME_SLOTS: Activity['timeSlot'][] = ['morning', 'afternoon', 'evening'];
+
+/** Monday first, as used by availability rules. */
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const WEATHER_CONSIDERATIONS: NonNullable<Activity['weatherConsideration']>[] = ['indoor', 'outdoor', 'flexible'];
+
+export interface BudgetTier {
+  value: TravelPreferences['budget'];
+  label: string;
+  description: string;
+  /** Per-person cost range, in USD, of the activities the catalog generator picks for this tier when no budget cap is set. */
+  activityCost: { min: number; max: number };
+}
+
+export const BUDGET_TIERS: BudgetTier[] = [
+  { value: 'budget', label: 'Budget', description: 'Economical options', activityCost: { min: 0, max: 40 } },
+  { value: 'mid-range', label: 'Mid-Range', description: 'Balanced comfort & cost', activityCost: { min: 10, max: 80 } },
+  { value: 'luxury', label: 'Luxury', description: 'Premium experiences', activityCost: { min: 50, max: 200 } },
+];
+
+export interface CurrencyDefinition {
+  label: string;
+  symbol: string;
+  /** Rough value of one unit in USD, the currency every cost in the app is estimated in. */
+  usdPerUnit: number;
+}
+
+/** Currencies a budget cap can be given in. Rates are fixed approximations for planning only. */
+export const CURRENCIES: Record<CurrencyCode, CurrencyDefinition> = {
+  USD: { label: 'US Dollar', symbol: '$', usdPerUnit: 1 },
+  EUR: { label: 'Euro', symbol: '€', usdPerUnit: 1.08 },
+  GBP: { label: 'British Pound', symbol: '£', usdPerUnit: 1.27 },
+  INR: { label: 'Indian Rupee', symbol: '₹', usdPerUnit: 0.012 },
+  JPY: { label: 'Japanese Yen', symbol: '¥', usdPerUnit: 0.0067 },
+};
+
+export interface AgeBandDefinition {
+  label: string;
+  /** "child" in "1 child". */
+  singular: string;
+  plural: string;
+  /** Ages the band covers, shown in the planning form. */
+  ages: string;
+}
+
+/** Age bands a travel party is counted in, in the order they are listed. */
+export const AGE_BANDS: Record<AgeBand, AgeBandDefinition> = {
+  adult: { label: 'Adults', singular: 'adult', plural: 'adults', ages: '18-64' },
+  child: { label: 'Children', singular: 'child', plural: 'children', ages: '0-17' },
+  senior: { label: 'Seniors', singular: 'senior', plural: 'seniors', ages: '65+' },
+};
+
+export interface AccessibilityNeedDefinition {
+  label: string;
+  /** Shown under the option in the planning form. */
+  description: string;
+}
+
+/** Accessibility needs a traveller can ask for, in the order they are listed. */
+export const ACCESSIBILITY_NEEDS: Record<AccessibilityNeed, AccessibilityNeedDefinition> = {
+  stepFree: { label: 'Step-free access', description: 'No stairs or steps; suits wheelchairs' },
+  stroller: { label: 'Stroller access', description: 'Room for a stroller or pram throughout' },
+  hearingAids: { label: 'Hearing aids', description: 'Hearing loops, captions or sign language' },
+  visualAids: { label: 'Visual aids', description: 'Audio description, tactile or large-print material' },
+};
+
+/** Diets a traveller can ask for, in the order they are listed. */
+export const DIETARY_NEEDS: Record<DietaryNeed, { label: string }> = {
+  vegetarian: { label: 'Vegetarian' },
+  vegan: { label: 'Vegan' },
+  halal: { label: 'Halal' },
+  kosher: { label: 'Kosher' },
+  glutenFree: { label: 'Gluten-free' },
+};
+
+export interface MealTypeDefinition {
+  label: string;
+  /** Window the meal starts in, 24-hour "HH:MM". */
+  earliest: string;
+  latest: string;
+  minutes: number;
+  /** Part of the daily meal allowance it accounts for. */
+  share: number;
+}
+
+/** Meals planned every day, in the order they are eaten. */
+export const MEAL_TYPES: Record<MealType, MealTypeDefinition> = {
+  breakfast: { label: 'Breakfast', earliest: '07:30', latest: '09:30', minutes: 45, share: 0.2 },
+  lunch: { label: 'Lunch', earliest: '12:00', latest: '14:30', minutes: 60, share: 0.35 },
+  dinner: { label: 'Dinner', earliest: '18:30', latest: '21:00', minutes: 90, share: 0.45 },
+};
+
+export interface TravelStyleDefinition {
+  label: string;
+  description: string;
+  /** Activities the catalog generator plans on a full day. */
+  activitiesPerDay: number;
+  /** Most load a day may carry; see services/pacing.ts. */
+  maxLoad: number;
+  /** The limit on the day after a strenuous one, so that day is lighter. */
+  maxLoadAfterStrenuous: number;
+  /** Break left after a strenuous activity when another follows it. */
+  restMinutes: number;
+}
+
+/** Paces a traveller can choose, from slowest to busiest. */
+export const TRAVEL_STYLES: Record<TravelPreferences['travelStyle'], TravelStyleDefinition> = {
+  relaxed: { label: 'Relaxed', description: 'Slow pace, plenty of rest', activitiesPerDay: 2, maxLoad: 7, maxLoadAfterStrenuous: 5, restMinutes: 60 },
+  moderate: { label: 'Moderate', description: 'Balanced activities & downtime', activitiesPerDay: 3, maxLoad: 10, maxLoadAfterStrenuous: 7, restMinutes: 30 },
+  packed: { label: 'Packed', description: 'Action-packed, see everything', activitiesPerDay: 4, maxLoad: 13, maxLoadAfterStrenuous: 10, restMinutes: 0 },
+};
+
+export interface DayIntensityDefinition {
+  label: string;
+  /** Least load of a day this intensity. */
+  minLoad: number;
+  className: string;
+}
+
+/** Intensities from lightest to hardest. */
+export const DAY_INTENSITIES: Record<DayIntensity, DayIntensityDefinition> = {
+  light: { label: 'Light', minLoad: 0, className: 'bg-emerald-100 text-emerald-800' },
+  moderate: { label: 'Moderate', minLoad: 5, className: 'bg-amber-100 text-amber-800' },
+  strenuous: { label: 'Strenuous', minLoad: 9, className: 'bg-rose-100 text-rose-800' },
+};
+
+// Words in an activity's name or tags that make it physically demanding
+const STRENUOUS_KEYWORDS = ['adventure', 'trek', 'hike', 'hiking', 'climb', 'rafting', 'day trip'];
+
+export interface InterestDefinition {
+  /** Activity categories that satisfy the interest on their own. */
+  categories: Activity['category'][];
+  /** Word stems that map free-form interests, activity tags and names onto the interest. */
+  keywords: string[];
+}
+
+/** Interests offered by the planning form, keyed by their label. */
+export const INTERESTS: Record<string, InterestDefinition> = {
+  'Culture & History': { categories: ['culture'], keywords: ['culture', 'history', 'historical', 'heritage'] },
+  'Adventure & Sports': { categories: ['adventure'], keywords: ['adventure', 'sport', 'trek', 'hiking', 'rafting', 'thrill'] },
+  'Food & Dining': { categories: ['dining'], keywords: ['food', 'dining', 'cuisine', 'eat', 'culinary'] },
+  'Nature & Wildlife': { categories: ['nature'], keywords: ['nature', 'wildlife', 'park', 'mountain', 'waterfall'] },
+  'Art & Museums': { categories: [], keywords: ['art', 'museum', 'galler'] },
+  'Nightlife': { categories: ['nightlife'], keywords: ['nightlife', 'bar', 'club'] },
+  'Shopping': { categories: ['shopping'], keywords: ['shopping', 'boutique'] },
+  'Photography': { categories: [], keywords: ['photo', 'views', 'landmark'] },
+  'Beach & Water Sports': { categories: [], keywords: ['beach', 'water sport', 'surf', 'snorkel', 'diving', 'swimming'] },
+  'Local Experiences': { categories: [], keywords: ['local', 'authentic'] },
+  'Wellness & Spa': { categories: ['relaxation'], keywords: ['wellness', 'spa', 'relax', 'yoga', 'hot spring'] },
+  'Architecture': { categories: [], keywords: ['architecture', 'cathedral', 'palace'] },
+  'Religious Sites': { categories: [], keywords: ['religious', 'temple', 'church', 'mosque', 'spiritual'] },
+  'Markets & Bazaars': { categories: [], keywords: ['market', 'bazaar'] },
+};
+
+const matchesKeyword = (text: string, keyword: string): boolean => new RegExp(`\\b${keyword}`).test(text);
+
+/** Maps a category label, including legacy ones such as "art" or "beach", onto the taxonomy. */
+export const normalizeCategory = (value: string): Activity['category'] | undefined => {
+  const key = value.toLowerCase().trim();
+  return ACTIVITY_CATEGORIES.find(category => category === key) ?? LEGACY_CATEGORIES[key];
+};
+
+/** Maps parser output and free-form answers ("cheap", "Budget-friendly", "moderate budget") onto a tier. */
+export const normalizeBudgetTier = (value: string | undefined): TravelPreferences['budget'] | undefined => {
+  const lowerValue = value?.toLowerCase().trim();
+  if (!lowerValue) return undefined;
+  if (/\b(?:luxury|high-end|splurge|premium)\b/.test(lowerValue)) return 'luxury';
+  if (/\b(?:mid(?:-?range)?|moderate|medium|standard)\b/.test(lowerValue)) return 'mid-range';
+  if (/\b(?:budget|cheap|low|backpack(?:er|ing)?|affordable)\b/.test(lowerValue)) return 'budget';
+  return undefined;
+};
+
+/**
+ * Splits free-form interests into the planning form's interests and the leftovers that match none
+ * of them (kept as special requests so nothing the traveller said is lost).
+ */
+export const mapInterestsToOptions = (interests: string[]): { options: string[]; unmatched: string[] } => {
+  const options = new Set<string>();
+  const unmatched: string[] = [];
+  for (const interest of interests) {
+    const lowerInterest = interest.toLowerCase();
+    const matches = Object.entries(INTERESTS)
+      .filter(([option, { keywords }]) =>
+        option.toLowerCase() === lowerInterest || keywords.some(keyword => matchesKeyword(lowerInterest, keyword))
+      )
+      .map(([option]) => option);
+    if (matches.length > 0) {
+      matches.forEach(option => options.add(option));
+    } else {
+      unmatched.push(interest);
+    }
+  }
+  return { options: [...options], unmatched };
+};
+
+/**
+ * Whether an activity satisfies an interest: through its category, or a keyword in its tags or
+ * name. Interests outside the taxonomy are matched literally against tags and category.
+ */
+export const activityMatchesInterest = (activity: Activity, interest: string): boolean => {
+  const text = [activity.name, ...(activity.tags || [])].join(' ').toLowerCase();
+  const definition = INTERESTS[interest] ?? INTERESTS[mapInterestsToOptions([interest]).options[0]];
+  if (!definition) {
+    const lowerInterest = interest.toLowerCase();
+    return text.includes(lowerInterest) || activity.category.includes(lowerInterest);
+  }
+  return definition.categories.includes(activity.category) || definition.keywords.some(keyword => matchesKeyword(text, keyword));
+};
+
+/** Whether the activity is physically demanding: an adventure, or a trek, hike or day trip by its name or tags. */
+export const isStrenuousActivity = (activity: Activity): boolean => {
+  const text = [activity.name, ...(activity.tags || [])].join(' ').toLowerCase();
+  return activity.category === 'adventure' || STRENUOUS_KEYWORDS.some(keyword => matchesKeyword(text, keyword));
+};
+
+/**
+ * The taxonomy category for a raw category label, and the activity's tags with a legacy label
+ * added so interests that matched it still do. Unknown labels become sightseeing.
+ */
+export const categorizeLabel = (label: string, tags: string[] | undefined): { category: Activity['category']; tags: string[] | undefined } => {
+  const category = normalizeCategory(label) ?? 'sightseeing';
+  if (category === label) {
+    return { category, tags };
+  }
+  const legacyTag = label.toLowerCase().trim();
+  return { category, tags: tags?.includes(legacyTag) ? tags : [...(tags || []), legacyTag] };
+};
+
+/** Puts an activity's category onto the taxonomy, keeping a legacy category as a tag. */
+export const normalizeActivity = <T extends Activity>(activity: T): T => {
+  const { category, tags } = categorizeLabel(activity.category, activity.tags);
+  return category === activity.category ? activity : { ...activity, category, tags };
+};
+
+/** Brings a stored plan (e.g. one saved before the taxonomy existed) onto the current vocabulary. */
+export const normalizeTravelPlan = (plan: TravelPlan): TravelPlan => ({
+  ...plan,
+  preferences: {
+    ...plan.preferences,
+    budget: normalizeBudgetTier(plan.preferences?.budget) ?? 'mid-range',
+  },
+  days: (plan.days || []).map(day => ({ ...day, activities: day.activities.map(normalizeActivity) })),
+});
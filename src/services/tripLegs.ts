@@ -0,0 +1,119 @@
+import { Transfer, TravelPreferences, TripLeg } from '../types/travel';
+import { findDestinationCoordinates } from './catalogLoader';
+import { distanceKm } from './routing';
+
+interface TransportMode {
+  mode: NonNullable<Transfer['mode']>;
+  /** Longest trip, in straight-line kilometres, this mode is picked for. */
+  maxKm: number;
+  /** Route length over straight-line distance; roads and rail lines are rarely straight. */
+  detourFactor: number;
+  speedKmh: number;
+  /** Check-in, security, getting to the station or airport. */
+  overheadMinutes: number;
+  baseCost: number;
+  costPerKm: number;
+}
+
+// Rough door-to-door figures, picked by distance; per person, in USD
+const TRANSPORT_MODES: TransportMode[] = [
+  { mode: 'bus', maxKm: 125, detourFactor: 1.2, speedKmh: 50, overheadMinutes: 30, baseCost: 5, costPerKm: 0.08 },
+  { mode: 'train', maxKm: 650, detourFactor: 1.2, speedKmh: 160, overheadMinutes: 30, baseCost: 10, costPerKm: 0.15 },
+  { mode: 'flight', maxKm: Infinity, detourFactor: 1, speedKmh: 800, overheadMinutes: 180, baseCost: 60, costPerKm: 0.1 },
+];
+
+/** Whether the trip visits more than one city. */
+export const isMultiCity = (preferences: Pick<TravelPreferences, 'legs'>): boolean => (preferences.legs?.length ?? 0) > 1;
+
+/** The trip's cities in order; a one-city trip is a single leg covering every day. */
+export const getTripLegs = (preferences: TravelPreferences): TripLeg[] =>
+  isMultiCity(preferences)
+    ? preferences.legs!
+    : [{ destination: preferences.destination, nights: preferences.duration, accommodation: preferences.accommodation }];
+
+/** "Tokyo → Kyoto" */
+export const summarizeLegs = (legs: TripLeg[]): string => legs.map(leg => leg.destination.trim()).join(' → ');
+
+/**
+ * Makes `destination` and `duration` agree with a multi-city trip's legs; anything with fewer
+ * than two legs is returned unchanged.
+ */
+export const withLegTotals = <T extends { destination?: string; duration?: number; legs?: TripLeg[] }>(value: T): T =>
+  isMultiCity(value)
+    ? { ...value, destination: summarizeLegs(value.legs!), duration: value.legs!.reduce((total, leg) => total + leg.nights, 0) }
+    : value;
+
+/** The leg a zero-based trip day belongs to; days past the last leg stay in the last city. */
+export const getDayLeg = (preferences: TravelPreferences, dayIndex: number): { leg: TripLeg; legIndex: number; firstDayIndex: number } => {
+  const legs = getTripLegs(preferences);
+  let firstDayIndex = 0;
+  for (let legIndex = 0; legIndex < legs.length; legIndex++) {
+    if (dayIndex < firstDayIndex + legs[legIndex].nights || legIndex === legs.length - 1) {
+      return { leg: legs[legIndex], legIndex, firstDayIndex };
+    }
+    firstDayIndex += legs[legIndex].nights;
+  }
+  // Only reached for an empty legs list
+  return { leg: legs[0], legIndex: 0, firstDayIndex: 0 };
+};
+
+/**
+ * Preferences for planning one day: on a multi-city trip the day's city and that leg's
+ * accommodation, with the legs dropped; otherwise the trip's preferences as they are.
+ */
+export const getDayPreferences = (preferences: TravelPreferences, dayIndex: number): TravelPreferences => {
+  if (!isMultiCity(preferences)) {
+    return preferences;
+  }
+  const { leg } = getDayLeg(preferences, dayIndex);
+  const dayPreferences: TravelPreferences = { ...preferences, destination: leg.destination, accommodation: leg.accommodation ?? preferences.accommodation };
+  delete dayPreferences.legs;
+  return dayPreferences;
+};
+
+/**
+ * Estimated trip between two cities, from the distance between their catalog locations. Only
+ * `from` and `to` are known when either city is not in the catalog.
+ */
+export const estimateTransfer = (from: string, to: string): Transfer => {
+  const start = findDestinationCoordinates(from);
+  const end = findDestinationCoordinates(to);
+  if (!start || !end) {
+    return { from, to };
+  }
+  const straightKm = distanceKm(start, end);
+  const transport = TRANSPORT_MODES.find(candidate => straightKm <= candidate.maxKm)!;
+  const distance = Math.round(straightKm * transport.detourFactor);
+  return {
+    from,
+    to,
+    mode: transport.mode,
+    distanceKm: distance,
+    durationMinutes: Math.round((transport.overheadMinutes + (distance / transport.speedKmh) * 60) / 15) * 15,
+    estimatedCost: Math.round(transport.baseCost + distance * transport.costPerKm),
+  };
+};
+
+/** The transfer that starts the given zero-based day, if it is the first day of a later leg. */
+export const getDayTransfer = (preferences: TravelPreferences, dayIndex: number): Transfer | undefined => {
+  if (!isMultiCity(preferences)) {
+    return undefined;
+  }
+  const { leg, legIndex, firstDayIndex } = getDayLeg(preferences, dayIndex);
+  return legIndex > 0 && dayIndex === firstDayIndex
+    ? estimateTransfer(preferences.legs![legIndex - 1].destination, leg.destination)
+    : undefined;
+};
+
+/** "Tokyo → Kyoto: about 3 h 15 min by train (445 km), ~$77 per person", or a reminder to check when unknown. */
+export const describeTransfer = (transfer: Transfer): string => {
+  const route = `${transfer.from} → ${transfer.to}`;
+  if (!transfer.mode || transfer.durationMinutes === undefined) {
+    return `${route}: check transport options`;
+  }
+  const hours = Math.floor(transfer.durationMinutes / 60);
+  const minutes = transfer.durationMinutes % 60;
+  const duration = [hours > 0 ? `${hours} h` : '', minutes > 0 ? `${minutes} min` : ''].filter(Boolean).join(' ');
+  const cost = transfer.estimatedCost !== undefined ? `, ~$${transfer.estimatedCost} per person` : '';
+  return `${route}: about ${duration} by ${transfer.mode} (${transfer.distanceKm} km)${cost}`;
+};
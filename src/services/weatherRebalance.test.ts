@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { withLegForecasts } from './weatherRebalance';
+import { createEmptyPlan } from './itineraryUtils';
+import { DayPlan, TravelPlan, TravelPreferences, WeatherForecast, WeatherInfo } from '../types/travel';
+
+const tokyoToKyoto: TravelPreferences = {
+  destination: 'Tokyo → Kyoto',
+  duration: 4,
+  budget: 'mid-range',
+  interests: [],
+  travelStyle: 'moderate',
+  groupSize: 2,
+  accommodation: 'hotel',
+  startDate: '2026-04-06',
+  legs: [{ destination: 'Tokyo', nights: 2 }, { destination: 'Kyoto', nights: 2 }],
+};
+
+const weather = (date: string, condition: string): WeatherInfo => ({
+  date,
+  temperature: { min: 10, max: 18 },
+  condition,
+  description: `${condition} all day.`,
+  humidity: 60,
+  precipitation: 20,
+  recommendation: 'Bring a jacket.',
+});
+
+const plan = (preferences: TravelPreferences): TravelPlan => ({
+  ...createEmptyPlan(preferences),
+  days: Array.from({ length: preferences.duration }, (_, index): DayPlan => ({ day: index + 1, date: '', activities: [], totalCost: 0 })),
+});
+
+describe('withLegForecasts', () => {
+  it('asks for each city’s forecast from its own first day', async () => {
+    const requests: string[] = [];
+    const updated = await withLegForecasts(plan(tokyoToKyoto), async (destination, startDate, duration): Promise<WeatherForecast> => {
+      requests.push(`${destination} ${startDate} ${duration}`);
+      // Three days each, so a forecast running past its leg shows up in the next city
+      return { location: destination, forecast: [0, 1, 2].map(offset => weather(`${startDate}+${offset}`, destination)) };
+    });
+
+    expect(requests).toEqual(['Tokyo 2026-04-06 2', 'Kyoto 2026-04-08 2']);
+    expect(updated.days.map(day => day.weather?.condition)).toEqual(['Tokyo', 'Tokyo', 'Kyoto', 'Kyoto']);
+  });
+
+  it('leaves undated plans as they are', async () => {
+    const undated = plan({ ...tokyoToKyoto, startDate: undefined });
+
+    expect(await withLegForecasts(undated, async () => { throw new Error('No forecast should be asked for.'); })).toBe(undated);
+  });
+});
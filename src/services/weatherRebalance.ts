@@ -0,0 +1,211 @@
+import { Activity, DayPlan, ItineraryEdit, TravelPlan, TravelPreferences, WeatherChange, WeatherForecast, WeatherInfo } from '../types/travel';
+import { isAccessibleFor } from './accessibility';
+import { isAvailableOn } from './availability';
+import { getBudgetCapUsd, scoreActivity } from './budgetCap';
+import { findDestinationCatalog } from './catalogLoader';
+import { suitsDiet } from './dietary';
+import { applyItineraryEdits, findDay, formatCalendarDate, getPlannedDate, getTripDate } from './itineraryUtils';
+import { getParty, getPartyActivityCost, isSuitableForParty } from './party';
+import { getDayPreferences, getTripLegs } from './tripLegs';
+
+// Precipitation, in percent, from which a day is too wet to spend outdoors
+const WET_PRECIPITATION = 60;
+
+// Daily highs, in °C, beyond which a day is too hot or too cold to spend outdoors
+const HOT_MAX_TEMPERATURE = 35;
+const COLD_MAX_TEMPERATURE = 0;
+
+/** Why the weather keeps outdoor activities off the day, e.g. "80% precipitation"; empty when it is fine or not known. */
+export const getWeatherConcerns = (weather: WeatherInfo | undefined): string[] => {
+  if (!weather) {
+    return [];
+  }
+  const concerns: string[] = [];
+  if (weather.precipitation >= WET_PRECIPITATION) {
+    concerns.push(`${weather.precipitation}% precipitation`);
+  }
+  const high = weather.temperature?.max;
+  if (high !== undefined && (high >= HOT_MAX_TEMPERATURE || high <= COLD_MAX_TEMPERATURE)) {
+    concerns.push(`highs of ${high}°C`);
+  }
+  return concerns;
+};
+
+// Activities that can take an outdoor one's place on a bad day, indoor ones first
+const WEATHER_PROOF: NonNullable<Activity['weatherConsideration']>[] = ['indoor', 'flexible'];
+
+const isWeatherProof = (activity: Activity): boolean => WEATHER_PROOF.includes(activity.weatherConsideration!);
+
+const byShelter = (a: Activity, b: Activity): number =>
+  WEATHER_PROOF.indexOf(a.weatherConsideration!) - WEATHER_PROOF.indexOf(b.weatherConsideration!);
+
+// Known good weather: a day without a forecast is never picked to take an outdoor activity
+const hasFineWeather = (day: DayPlan): boolean => !!day.weather && getWeatherConcerns(day.weather).length === 0;
+
+const getDayCity = (plan: TravelPlan, day: DayPlan): string => getDayPreferences(plan.preferences, day.day - 1).destination;
+
+// Whether the edits leave every touched day within its pace, unless it was over already
+const keepsPace = (plan: TravelPlan, edits: ItineraryEdit[]): boolean => {
+  const { plan: edited } = applyItineraryEdits(plan, edits);
+  return edits.every(edit => !findDay(edited, edit.day).pace?.warnings || !!findDay(plan, edit.day).pace?.warnings);
+};
+
+// Trades the outdoor activity with a weather-proof one of the same time slot on the nearest day of
+// the same city with fine weather, when each is available on the other's date
+const findMove = (plan: TravelPlan, day: DayPlan, activity: Activity, claimed: Set<string>): Omit<WeatherChange, 'reason'> | undefined => {
+  const date = getPlannedDate(plan.preferences, day.day - 1);
+  const otherDays = plan.days
+    .filter(other => other.day !== day.day && hasFineWeather(other) && getDayCity(plan, other) === getDayCity(plan, day))
+    .sort((a, b) => Math.abs(a.day - day.day) - Math.abs(b.day - day.day));
+  for (const other of otherDays) {
+    const otherDate = getPlannedDate(plan.preferences, other.day - 1);
+    for (const sheltered of other.activities.filter(isWeatherProof).sort(byShelter)) {
+      if (
+        sheltered.timeSlot !== activity.timeSlot ||
+        claimed.has(sheltered.id) ||
+        !isAvailableOn(sheltered, date) ||
+        !isAvailableOn(activity, otherDate)
+      ) {
+        continue;
+      }
+      const edits: ItineraryEdit[] = [
+        { action: 'replace', day: day.day, activityId: activity.id, activity: sheltered },
+        { action: 'replace', day: other.day, activityId: sheltered.id, activity },
+      ];
+      if (keepsPace(plan, edits)) {
+        return { day: day.day, activityId: activity.id, kind: 'move', edits, description: `Move "${activity.name}" to day ${other.day} and "${sheltered.name}" to day ${day.day}` };
+      }
+    }
+  }
+  return undefined;
+};
+
+// Swaps in the unused weather-proof catalog activity of the same time slot, indoor ones first,
+// that best matches the traveller's interests, if one is available that day and suits the party,
+// their needs and diet; under a budget cap it must not cost more
+const findReplacement = (plan: TravelPlan, day: DayPlan, activity: Activity, claimed: Set<string>): Omit<WeatherChange, 'reason'> | undefined => {
+  const { preferences } = plan;
+  const date = getPlannedDate(preferences, day.day - 1);
+  const party = getParty(preferences);
+  const capped = getBudgetCapUsd(preferences) !== undefined;
+  const isPlanned = (candidate: Activity) =>
+    plan.days.some(planned => planned.activities.some(existing => existing.id === candidate.id || existing.name === candidate.name));
+  const candidates = (findDestinationCatalog(getDayCity(plan, day))?.activities ?? [])
+    .filter(candidate =>
+      isWeatherProof(candidate) &&
+      candidate.timeSlot === activity.timeSlot &&
+      !claimed.has(candidate.id) &&
+      !isPlanned(candidate) &&
+      isAvailableOn(candidate, date) &&
+      isSuitableForParty(candidate, party) &&
+      isAccessibleFor(candidate, preferences.accessibility) &&
+      suitsDiet(candidate, preferences.dietary) &&
+      (!capped || getPartyActivityCost(candidate, party) <= getPartyActivityCost(activity, party))
+    )
+    .sort((a, b) => byShelter(a, b) || scoreActivity(b, preferences.interests) - scoreActivity(a, preferences.interests) || a.estimatedCost - b.estimatedCost);
+  for (const candidate of candidates) {
+    const edits: ItineraryEdit[] = [{ action: 'replace', day: day.day, activityId: activity.id, activity: candidate }];
+    if (keepsPace(plan, edits)) {
+      return { day: day.day, activityId: activity.id, kind: 'replace', edits, description: `Replace "${activity.name}" with "${candidate.name}"` };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Proposes changes that keep outdoor activities off days with heavy precipitation or extreme
+ * temperatures. Each one is moved to the nearest day of the same city with fine weather in
+ * exchange for an indoor or flexible activity of the same time slot; failing that, an unused
+ * indoor or flexible catalog activity takes its place, indoor ones first. Changes keep the
+ * activities' availability, the day's pace and, for replacements, the traveller's party, needs,
+ * diet and budget cap. No two changes touch the same activity, so any of them can be applied
+ * without the others.
+ */
+export const proposeWeatherChanges = (plan: TravelPlan): WeatherChange[] => {
+  const changes: WeatherChange[] = [];
+  const claimed = new Set<string>();
+  for (const day of plan.days) {
+    const concerns = getWeatherConcerns(day.weather);
+    if (concerns.length === 0) {
+      continue;
+    }
+    for (const activity of day.activities.filter(candidate => candidate.weatherConsideration === 'outdoor' && !claimed.has(candidate.id))) {
+      const change = findMove(plan, day, activity, claimed) ?? findReplacement(plan, day, activity, claimed);
+      if (change) {
+        change.edits.forEach(edit => {
+          claimed.add(edit.activityId!);
+          claimed.add(edit.activity!.id);
+        });
+        changes.push({ ...change, reason: `${concerns.join(' and ')} on day ${day.day}` });
+      }
+    }
+  }
+  return changes;
+};
+
+/** Applies the changes in order and describes each edit for the traveller, with the reason for it. */
+export const applyWeatherChanges = (plan: TravelPlan, changes: WeatherChange[]): { plan: TravelPlan; changes: string[] } => {
+  let updated = plan;
+  const described: string[] = [];
+  for (const change of changes) {
+    const result = applyItineraryEdits(updated, change.edits);
+    updated = result.plan;
+    described.push(...result.changes.map(edit => `${edit} (${change.reason})`));
+  }
+  return { plan: updated, changes: described };
+};
+
+/**
+ * The rebalancing step run after generation: applies every proposed change and records it in
+ * `weatherAdjustments`. Plans whose days have no bad weather are returned as they are.
+ */
+export const rebalanceForWeather = (plan: TravelPlan): TravelPlan => {
+  const proposed = proposeWeatherChanges(plan);
+  if (proposed.length === 0) {
+    return plan;
+  }
+  const { plan: rebalanced, changes } = applyWeatherChanges(plan, proposed);
+  return { ...rebalanced, weatherAdjustments: [...(plan.weatherAdjustments ?? []), ...changes] };
+};
+
+/** Fetches the forecast for one city of a trip, for `duration` days from the calendar date `startDate`. */
+export type ForecastFetcher = (destination: string, startDate: string, duration: number) => Promise<WeatherForecast | null>;
+
+/**
+ * Fetches a forecast for every leg of a dated trip, for the leg's city from its first date and
+ * for as many days as it lasts, and lines them up by zero-based trip day: each day gets the
+ * weather of its own leg's forecast, or undefined where that does not reach. Undated trips get
+ * no forecast at all.
+ */
+export const fetchLegForecasts = async (preferences: TravelPreferences, getForecast: ForecastFetcher): Promise<(WeatherInfo | undefined)[]> => {
+  if (!preferences.startDate) {
+    return [];
+  }
+  const legs = getTripLegs(preferences);
+  const firstDayIndexes = legs.map((_, legIndex) => legs.slice(0, legIndex).reduce((total, leg) => total + leg.nights, 0));
+  const forecasts = await Promise.all(legs.map((leg, legIndex) =>
+    getForecast(leg.destination, formatCalendarDate(getTripDate(preferences, firstDayIndexes[legIndex])), leg.nights)
+  ));
+  return forecasts.flatMap((forecast, legIndex) => Array.from({ length: legs[legIndex].nights }, (_, offset) => forecast?.forecast?.[offset]));
+};
+
+/**
+ * The plan with each day's weather taken from `dayWeather`, indexed by zero-based trip day. Days
+ * without an entry keep their weather, and a plan with no entries at all is returned as it is.
+ */
+export const withDayWeather = (plan: TravelPlan, dayWeather: (WeatherInfo | undefined)[]): TravelPlan => {
+  if (!dayWeather.some(Boolean)) {
+    return plan;
+  }
+  return {
+    ...plan,
+    days: plan.days.map(day => {
+      const weather = dayWeather[day.day - 1];
+      return weather ? { ...day, weather } : day;
+    }),
+  };
+};
+
+/** The plan with each day's weather from its own leg's forecast; see `fetchLegForecasts`. */
+export const withLegForecasts = async (plan: TravelPlan, getForecast: ForecastFetcher): Promise<TravelPlan> =>
+  withDayWeather(plan, await fetchLegForecasts(plan.preferences, getForecast));
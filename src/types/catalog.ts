@@ -0,0 +1,29 @@
+import { Activity, MealSuggestion, MealType } from './travel';
+
+/** A place to eat, suggested for meals near the day's activities. */
+export interface Restaurant extends MealSuggestion {
+  id: string;
+  /** Meals it serves. */
+  meals: MealType[];
+  /** Per adult and meal, in USD. */
+  estimatedCost: number;
+}
+
+/** One destination of the offline catalog, as stored in `src/data/destinations/<id>.json`. */
+export interface DestinationCatalog {
+  /** Lower-case slug, unique across the catalog (e.g. "goa"). */
+  id: string;
+  /** Display name (e.g. "Goa"). */
+  name: string;
+  country?: string;
+  /** Other names travellers use for the destination, e.g. "Panjim" or "Goa, India". */
+  aliases: string[];
+  /**
+   * Coordinates of neighbourhoods and landmarks by name, so activities that only name their
+   * location (e.g. model output saying "Ginza") can still be routed offline.
+   */
+  locations: Record<string, NonNullable<Activity['coordinates']>>;
+  activities: Activity[];
+  /** Places to eat; empty when the destination lists none. */
+  restaurants: Restaurant[];
+}
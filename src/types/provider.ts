@@ -0,0 +1,73 @@
+import { TravelPreferences, TravelPlan, DayPlan, Activity, NaturalLanguageQuery, WeatherForecast, PlaceDetails } from './travel';
+
+/** Snapshot reported while an itinerary is being generated day by day. */
+export interface GenerationProgress {
+  /** The plan so far: overview fields plus every day that is already complete. */
+  plan: TravelPlan;
+  completedDays: number;
+  totalDays: number;
+}
+
+export interface GenerationOptions {
+  /** Called once the trip overview is ready and again after each completed day. */
+  onProgress?: (progress: GenerationProgress) => void;
+  /** Aborting stops generation before the next day; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Skip any cached itinerary for these preferences and generate (and cache) a fresh one. */
+  bypassCache?: boolean;
+  /** Called instead of per-day progress when the itinerary is served from the cache. */
+  onCacheHit?: (cachedAt: number) => void;
+  /**
+   * Fixes the random choices of providers that make any (the offline catalog), so the same
+   * preferences and seed produce the same plan. A random seed is used, and recorded on the plan
+   * as `seed`, when omitted.
+   */
+  seed?: number;
+}
+
+/** Options shared by the single-request operations (parsing, regeneration, refinement). */
+export interface RequestOptions {
+  /** Aborting cancels the request, including pending retries; the promise rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+/** Result of applying a chat instruction such as "make day 2 more relaxed" to a plan. */
+export interface ItineraryRefinement {
+  plan: TravelPlan;
+  /** Reply shown in the chat. */
+  summary: string;
+  /** One line per change, e.g. `Day 2: replaced "Louvre Museum" with "Seine River Cruise"`. */
+  changes: string[];
+}
+
+/**
+ * Contract every itinerary backend (Gemini, the offline catalog, future models) implements.
+ * Components only talk to this interface, never to a concrete service.
+ */
+export interface ItineraryProvider {
+  /** Stable identifier used for runtime selection and persistence. */
+  readonly id: string;
+  /** Human readable name shown in the provider selector. */
+  readonly label: string;
+  /** Whether the provider needs network access (and usually an API key) to work. */
+  readonly requiresNetwork: boolean;
+
+  parseNaturalLanguageQuery(query: string, options?: RequestOptions): Promise<NaturalLanguageQuery>;
+  generateItinerary(preferences: TravelPreferences, options?: GenerationOptions): Promise<TravelPlan>;
+  /**
+   * Produces a replacement for one day (1-based `dayNumber`) that avoids activities used elsewhere
+   * in the plan. The caller merges the result back with `replaceDay`.
+   */
+  regenerateDay(plan: TravelPlan, dayNumber: number, options?: RequestOptions): Promise<DayPlan>;
+  /** Produces a replacement for one activity of the given day; merge back with `replaceActivity`. */
+  regenerateActivity(plan: TravelPlan, dayNumber: number, activityId: string, options?: RequestOptions): Promise<Activity>;
+  /**
+   * Interprets a follow-up chat message as edits to the existing plan. Rejects when the
+   * instruction cannot be turned into any change.
+   */
+  refineItinerary(plan: TravelPlan, instruction: string, options?: RequestOptions): Promise<ItineraryRefinement>;
+  /** Resolves to null when the provider has no forecast for the destination; rejects only when aborted. */
+  getWeatherForecast(destination: string, startDate: string, duration: number, options?: RequestOptions): Promise<WeatherForecast | null>;
+  /** Resolves to null when the provider knows nothing about the place; rejects only when aborted. */
+  getPlaceDetails(placeName: string, destination: string, options?: RequestOptions): Promise<PlaceDetails | null>;
+}
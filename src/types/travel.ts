@@ -1,13 +1,109 @@
+/** One city of a multi-city trip. */
+export interface TripLeg {
+  destination: string;
+  /** Days spent in the city; the first day of every leg after the first is a transfer day. */
+  nights: number;
+  /** Overrides the trip-wide accommodation for this city. */
+  accommodation?: TravelPreferences['accommodation'];
+}
+
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'INR' | 'JPY';
+
+/** The most the whole group may spend on the trip, as estimated by the plan's cost breakdown. */
+export interface BudgetCap {
+  amount: number;
+  currency: CurrencyCode;
+}
+
+export type AgeBand = 'adult' | 'child' | 'senior';
+
+/** Who is travelling, counted by age band. */
+export interface TravelParty {
+  adults: number;
+  children: number;
+  seniors: number;
+  /** Ages of the children, when known; a child without a stated age counts as the youngest possible. */
+  childAges?: number[];
+}
+
+export type AccessibilityNeed = 'stepFree' | 'stroller' | 'hearingAids' | 'visualAids';
+
+/** What the traveller needs from every activity and day. */
+export interface AccessibilityPreferences {
+  needs: AccessibilityNeed[];
+  /** Most walking per day, in km: walks between stops plus walking within activities. */
+  maxWalkingKm?: number;
+}
+
+export type DietaryNeed = 'vegetarian' | 'vegan' | 'halal' | 'kosher' | 'glutenFree';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner';
+
+/** How tiring a planned day is; see DAY_INTENSITIES in services/taxonomy.ts. */
+export type DayIntensity = 'light' | 'moderate' | 'strenuous';
+
 export interface TravelPreferences {
+  /** For a multi-city trip, the cities joined in order, e.g. "Tokyo → Kyoto". */
   destination: string;
+  /** Total days; for a multi-city trip, the sum of the legs' nights. */
   duration: number;
+  /** Spending style; with a `budgetCap` it no longer limits the cost of single activities. */
   budget: 'budget' | 'mid-range' | 'luxury';
+  /** Hard limit on the trip total; generated plans are trimmed to fit it. */
+  budgetCap?: BudgetCap;
   interests: string[];
   travelStyle: 'relaxed' | 'moderate' | 'packed';
+  /** Everyone travelling; with a `party`, the sum of its counts. */
   groupSize: number;
+  /** The group by age band; without it everyone counts as an adult. */
+  party?: TravelParty;
   accommodation: 'hostel' | 'hotel' | 'resort' | 'airbnb';
   startDate?: string;
   specificRequests?: string;
+  /** Earliest start of each day's first activity, 24-hour "HH:MM"; 09:00 when omitted. */
+  dayStart?: string;
+  /** Latest end of each day's last activity, 24-hour "HH:MM"; 22:00 when omitted. */
+  dayEnd?: string;
+  /** Cities of a multi-city trip, in order; omitted (or a single leg) for a one-city trip. */
+  legs?: TripLeg[];
+  /** Step-free access, strollers, hearing or visual aids and a daily walking limit. */
+  accessibility?: AccessibilityPreferences;
+  /** Diets every meal and dining activity must cater for. */
+  dietary?: DietaryNeed[];
+}
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/** When an activity can be done. Every rule is optional; an activity without rules is always available. */
+export interface ActivityAvailability {
+  /** Days of the week it can be visited; open every day when omitted. */
+  openDays?: Weekday[];
+  /** Months (1 = January) it is available or in season; all year when omitted. */
+  months?: number[];
+  /** Days ahead that tickets or a tour must be booked. */
+  bookingLeadDays?: number;
+  /** A permit must be arranged before the visit, e.g. for a mountain pass. */
+  permitRequired?: boolean;
+}
+
+/**
+ * What is known about an activity's accessibility: `true` when it meets a need, `false` when it
+ * does not. A need that is left out is unknown.
+ */
+export type ActivityAccessibility = Partial<Record<AccessibilityNeed, boolean>> & {
+  /** Walking the activity itself involves, in km. */
+  walkingKm?: number;
+};
+
+/** Per-person prices, in USD, for the age bands that pay something other than `estimatedCost`. */
+export type AgePricing = Partial<Record<Exclude<AgeBand, 'adult'>, number>>;
+
+/** Getting from one activity to the next. */
+export interface TravelLeg {
+  mode: 'walk' | 'transit';
+  /** Estimated street distance. */
+  distanceKm: number;
+  minutes: number;
 }
 
 export interface Activity {
@@ -15,8 +111,13 @@ export interface Activity {
   name: string;
   description: string;
   duration: string;
-  category: 'culture' | 'adventure' | 'dining' | 'relaxation' | 'sightseeing' | 'shopping' | 'nature';
+  /** One of ACTIVITY_CATEGORIES in services/taxonomy.ts; legacy labels are normalized on load. */
+  category: 'culture' | 'adventure' | 'dining' | 'relaxation' | 'sightseeing' | 'shopping' | 'nature' | 'nightlife';
+  /** Per adult, in USD; `pricing` has the child and senior prices when they differ. */
   estimatedCost: number;
+  pricing?: AgePricing;
+  /** Youngest age the activity is suitable for; suitable for all ages when omitted. */
+  minAge?: number;
   location: string;
   timeSlot: 'morning' | 'afternoon' | 'evening';
   coordinates?: {
@@ -27,6 +128,65 @@ export interface Activity {
   photos?: string[];
   rating?: number;
   weatherConsideration?: 'indoor' | 'outdoor' | 'flexible';
+  tags?: string[];
+  /** Planned start, 24-hour "HH:MM", assigned by the scheduler from the duration and time slot. */
+  startTime?: string;
+  /** Planned end, 24-hour "HH:MM". */
+  endTime?: string;
+  /** Estimated trip from the previous activity of the day; absent when either end could not be located. */
+  travelFromPrevious?: TravelLeg;
+  availability?: ActivityAvailability;
+  accessibility?: ActivityAccessibility;
+  /** Diets a dining activity caters for. */
+  dietOptions?: DietaryNeed[];
+}
+
+/** A place to eat suggested for a meal. */
+export interface MealSuggestion {
+  name: string;
+  location: string;
+  cuisine?: string;
+  /** Diets the place caters for. */
+  dietOptions?: DietaryNeed[];
+  coordinates?: {
+    lat: number;
+    lng: number;
+  };
+}
+
+/** Breakfast, lunch or dinner on a planned day, timed around the activities. */
+export interface Meal {
+  meal: MealType;
+  /** Planned start, 24-hour "HH:MM", assigned with the day's schedule. */
+  startTime?: string;
+  /** Planned end, 24-hour "HH:MM". */
+  endTime?: string;
+  /** Per adult, in USD; 0 when a dining activity covers the meal. */
+  estimatedCost: number;
+  /** Where to eat; absent when no suitable place is known or a dining activity covers the meal. */
+  suggestion?: MealSuggestion;
+  /** The dining activity that covers the meal. */
+  activityId?: string;
+}
+
+/**
+ * An accessibility need an activity of the day does not meet or is not known to meet, or the
+ * day's walking going over the traveller's limit.
+ */
+export interface AccessibilityWarning {
+  /** Absent for the day's walking. */
+  activityId?: string;
+  /** `unmet`: known not to meet the needs; `unknown`: not confirmed; `walking`: over the daily limit. */
+  kind: 'unmet' | 'unknown' | 'walking';
+  message: string;
+}
+
+/** An availability rule an activity breaks on its planned date, or a permit the traveller must arrange. */
+export interface AvailabilityWarning {
+  activityId: string;
+  /** `closed`: not open that weekday; `out-of-season`: not available that month; `booking`: too late to book; `permit`: needs a permit. */
+  rule: 'closed' | 'out-of-season' | 'booking' | 'permit';
+  message: string;
 }
 
 export interface WeatherInfo {
@@ -42,24 +202,124 @@ export interface WeatherInfo {
   recommendation: string;
 }
 
+/** A problem the scheduler found with a day's timings. */
+export interface ScheduleIssue {
+  /** `overlap`: an activity runs into the next one's time slot; `overfull`: the day runs past its end. */
+  kind: 'overlap' | 'overfull';
+  /** The activity that starts late, for overlaps. */
+  activityId?: string;
+  message: string;
+}
+
+/** A break the scheduler leaves after a strenuous activity, before the next one. */
+export interface RestBlock {
+  afterActivityId: string;
+  /** 24-hour "HH:MM". */
+  startTime: string;
+  endTime: string;
+}
+
+/** How demanding a day is, scored by the pacing model in services/pacing.ts. */
+export interface DayPace {
+  /** Load points: an hour of activities is one, walking, an early start, strenuous activities and transfers add more. */
+  load: number;
+  intensity: DayIntensity;
+  activityHours: number;
+  walkingKm: number;
+  /** The most load the travel style allows that day; lower right after a strenuous day. */
+  limit: number;
+  /** Set when the day is over its limit. */
+  warnings?: string[];
+}
+
+/** Getting from one city of a multi-city trip to the next, at the start of a transfer day. */
+export interface Transfer {
+  from: string;
+  to: string;
+  /** Estimates are absent when either city's location is unknown. */
+  mode?: 'bus' | 'train' | 'flight';
+  distanceKm?: number;
+  durationMinutes?: number;
+  /** Per person, in USD; added to the trip budget on top of the day's activities. */
+  estimatedCost?: number;
+}
+
 export interface DayPlan {
   day: number;
   date: string;
+  /** The city the day is spent in; set on multi-city trips only. */
+  destination?: string;
+  /** Set on the first day of every leg after the first. */
+  transfer?: Transfer;
   weather?: WeatherInfo;
   activities: Activity[];
   notes?: string;
+  /** Per adult: the activities' `estimatedCost` plus the meals'. */
   totalCost: number;
+  /** Breakfast, lunch and dinner in time order; set when the day is arranged. */
+  meals?: Meal[];
   travelTips?: string[];
+  /** Set by the scheduler when the day's timings do not fit. */
+  scheduleIssues?: ScheduleIssue[];
+  /** Breaks after strenuous activities; set by the scheduler for relaxed and moderate travel styles. */
+  restBlocks?: RestBlock[];
+  /** Set with the plan's totals, since it depends on the day before. */
+  pace?: DayPace;
+  /** Set when activities break their availability rules on this day's date or need a permit. */
+  availabilityWarnings?: AvailabilityWarning[];
+  /** Set when the traveller has accessibility needs the day's activities or walking may not meet. */
+  accessibilityWarnings?: AccessibilityWarning[];
+}
+
+/** Where a plan came from when the selected provider could not produce it. */
+export interface PlanFallback {
+  /** `cache`: an earlier plan by the same provider for the same request; `catalog`: the offline catalog generator. */
+  source: 'cache' | 'catalog';
+  /** The provider that failed, e.g. "gemini". */
+  failedProviderId: string;
+  failedProviderLabel: string;
+  /** Short reason shown to the traveller, e.g. "Rate limit reached". */
+  reason: string;
+}
+
+/** What one traveller of an age band costs over the whole trip, contingency included. */
+export interface MemberCost {
+  band: AgeBand;
+  count: number;
+  perPerson: number;
+}
+
+export type CostCategory = 'accommodation' | 'meals' | 'localTransport' | 'activities' | 'transfers' | 'contingency';
+
+/** Estimated cost of the whole trip by category, in USD. */
+export interface CostBreakdown {
+  perGroup: Record<CostCategory, number>;
+  perPerson: Record<CostCategory, number>;
+  totalPerGroup: number;
+  totalPerPerson: number;
+  /** One line per age band in the party; children pay their own activity prices and eat less. */
+  perMember: MemberCost[];
 }
 
 export interface TravelPlan {
   id?: string;
   destination: string;
   duration: number;
+  /** Estimated full trip cost for the whole group, the `totalPerGroup` of `costBreakdown`. */
   totalBudget: number;
+  /** Kept up to date with the days; missing on plans saved before it existed. */
+  costBreakdown?: CostBreakdown;
   days: DayPlan[];
   preferences: TravelPreferences;
   createdAt: string;
+  /** Seed of the offline catalog generator; generating with the same preferences and seed reproduces the days. */
+  seed?: number;
+  /** Set when the selected provider failed and the plan was served by a fallback instead. */
+  fallback?: PlanFallback;
+  /** Activities removed or swapped for cheaper ones to bring the plan within the budget cap. */
+  budgetAdjustments?: string[];
+  /** Outdoor activities moved or swapped away from days with bad weather after generation. */
+  weatherAdjustments?: string[];
   weatherSummary?: string;
   travelTips?: string[];
   emergencyInfo?: {
@@ -78,12 +338,156 @@ export interface NaturalLanguageQuery {
     budget?: string;
     interests?: string[];
     groupSize?: number;
+    /** Travellers by age band, for requests like "2 adults and 2 kids aged 4 and 7". */
+    party?: TravelParty;
+    /** Needs stated in the request, e.g. "wheelchair accessible" or "can't walk far". */
+    accessibility?: AccessibilityPreferences;
+    /** Diets stated in the request, e.g. "vegetarian" or "halal". */
+    dietary?: DietaryNeed[];
+    travelStyle?: TravelPreferences['travelStyle'];
+    accommodation?: TravelPreferences['accommodation'];
     specificRequests?: string[];
+    /** Cities in order with their days, for requests like "5 days in Tokyo then 3 in Kyoto". */
+    legs?: TripLeg[];
+    /** A total budget stated as an amount, e.g. "under $2000" or "1500 euros". */
+    budgetCap?: BudgetCap;
+  };
+}
+
+/** What the natural-language parser understood; absent keys were not mentioned. */
+export type ExtractedTravelInfo = NonNullable<NaturalLanguageQuery['extractedInfo']>;
+
+/** Preferences pre-filled from a natural-language request, for review in the planning form. */
+export interface PreferenceDraft {
+  preferences: TravelPreferences;
+  /** Fields taken from the request; every other field holds a default the traveller should check. */
+  inferredFields: (keyof TravelPreferences)[];
+  /** The request the draft was built from. */
+  query: string;
+}
+
+/** One change to an existing itinerary, as requested in the refinement chat. */
+export interface ItineraryEdit {
+  action: 'add' | 'replace' | 'remove';
+  /** 1-based day the edit applies to. */
+  day: number;
+  /** Activity being replaced or removed; not used by 'add'. */
+  activityId?: string;
+  /** New activity for 'add' and 'replace'. */
+  activity?: Activity;
+}
+
+/** A change proposed to keep an outdoor activity off a day with bad weather; see services/weatherRebalance.ts. */
+export interface WeatherChange {
+  /** The day with bad weather. */
+  day: number;
+  /** The outdoor activity moved off it. */
+  activityId: string;
+  /** `move`: trades days with an indoor or flexible activity of a day with better weather; `replace`: an unused indoor or flexible catalog activity takes its place. */
+  kind: 'move' | 'replace';
+  /** Applied together, in order. */
+  edits: ItineraryEdit[];
+  /** What changes, e.g. 'Move "Ueno Park" to day 3 and "Ghibli Museum" to day 2'. */
+  description: string;
+  /** Why, e.g. "80% precipitation on day 2". */
+  reason: string;
+}
+
+export interface ChatMessage {
+  type: 'user' | 'ai';
+  message: string;
+  timestamp: Date;
+  /** Itinerary changes applied in response to this message, listed under it. */
+  changes?: string[];
+  /** Suggested answers shown as chips while this message is an open question. */
+  quickReplies?: string[];
+}
+
+export interface WeatherForecast {
+  location: string;
+  forecast: WeatherInfo[];
+}
+
+export interface PlaceDetails {
+  name: string;
+  description: string;
+  location: string;
+  coordinates?: {
+    lat: number;
+    lng: number;
   };
+  rating?: number;
+  photos?: string[];
+  openingHours?: string;
+  entryFee?: number;
+  bestTimeToVisit?: string;
+  tips?: string[];
+  nearbyAttractions?: string[];
+}
+
+// --- Raw Gemini itinerary shape, as returned by the model before normalization ---
+
+export type GeminiWeatherResponse = Pick<WeatherInfo, 'temperature' | 'condition'> &
+  Partial<Omit<WeatherInfo, 'temperature' | 'condition'>>;
+
+export interface GeminiActivityResponse {
+  id?: string;
+  name: string;
+  description: string;
+  duration: string;
+  category: Activity['category'];
+  estimatedCost: number;
+  location: string;
+  timeSlot: Activity['timeSlot'];
+  weatherConsideration?: Activity['weatherConsideration'];
+  rating?: number;
+  photos?: string[];
+  availability?: ActivityAvailability;
+  pricing?: AgePricing;
+  minAge?: number;
+  accessibility?: ActivityAccessibility;
+  dietOptions?: DietaryNeed[];
+}
+
+export interface GeminiMealResponse {
+  meal: MealType;
+  name: string;
+  location: string;
+  cuisine?: string;
+  /** Per adult, in USD. */
+  estimatedCost: number;
+  dietOptions?: DietaryNeed[];
+}
+
+export interface GeminiDayResponse {
+  day: number;
+  date?: string;
+  notes?: string;
+  weather?: GeminiWeatherResponse;
+  activities: GeminiActivityResponse[];
+  meals?: GeminiMealResponse[];
+  dailyTravelTips?: string[];
 }
 
 export interface GeminiResponse {
-  itinerary: TravelPlan;
-  confidence: number;
-  suggestions?: string[];
-}
\ No newline at end of file
+  id?: string;
+  destination: string;
+  duration: number;
+  weatherSummary?: string;
+  travelTips?: string[];
+  emergencyInfo?: TravelPlan['emergencyInfo'];
+  days: GeminiDayResponse[];
+}
+
+/** Trip-level fields, generated before the individual days. */
+export type GeminiTripOverview = Omit<GeminiResponse, 'days'>;
+
+export interface GeminiItineraryEdit extends Omit<ItineraryEdit, 'activity'> {
+  activity?: GeminiActivityResponse;
+}
+
+export interface GeminiRefinementResponse {
+  /** Short conversational reply describing what was done. */
+  summary: string;
+  edits: GeminiItineraryEdit[];
+}
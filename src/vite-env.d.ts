@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GEMINI_API_KEY?: string;
+  /** Optional default provider id, e.g. "gemini" or "catalog". */
+  readonly VITE_ITINERARY_PROVIDER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}